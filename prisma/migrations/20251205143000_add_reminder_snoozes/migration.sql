@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "reminders" ADD COLUMN     "completed_at" TIMESTAMP(3),
+ADD COLUMN     "snooze_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "reminder_snoozes" (
+    "id" TEXT NOT NULL,
+    "reminder_id" TEXT NOT NULL,
+    "snoozed_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "snoozed_until" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reminder_snoozes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "reminder_snoozes_reminder_id_idx" ON "reminder_snoozes"("reminder_id");
+
+-- AddForeignKey
+ALTER TABLE "reminder_snoozes" ADD CONSTRAINT "reminder_snoozes_reminder_id_fkey" FOREIGN KEY ("reminder_id") REFERENCES "reminders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "reminders" ADD COLUMN     "read_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "delivered_at" TIMESTAMP(3),
+ADD COLUMN     "delivery_status" TEXT,
+ADD COLUMN     "failure_reason" TEXT,
+ADD COLUMN     "read_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "reminders_whatsapp_msg_id_idx" ON "reminders"("whatsapp_msg_id");
+
+-- CreateIndex
+CREATE INDEX "conversations_whatsapp_message_id_idx" ON "conversations"("whatsapp_message_id");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "conversations" ADD COLUMN     "media_id" TEXT,
+ADD COLUMN     "transcript" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "expense_participants" ADD COLUMN     "split_type" TEXT NOT NULL DEFAULT 'equal',
+ADD COLUMN     "split_value" DECIMAL(10,2);
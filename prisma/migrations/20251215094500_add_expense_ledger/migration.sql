@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "paid_by" TEXT NOT NULL DEFAULT 'You';
+
+-- CreateTable
+CREATE TABLE "settlements" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "from_name" TEXT NOT NULL,
+    "to_name" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "settlements_user_id_created_at_idx" ON "settlements"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "settlements" ADD CONSTRAINT "settlements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
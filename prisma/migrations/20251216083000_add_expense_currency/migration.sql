@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'INR';
+
+-- AlterTable
+ALTER TABLE "settlements" ADD COLUMN     "currency" VARCHAR(3) NOT NULL DEFAULT 'INR';
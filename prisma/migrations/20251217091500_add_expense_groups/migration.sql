@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "group_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "settlements" ADD COLUMN     "group_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "expense_groups" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "archived_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "expense_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_group_members" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+
+    CONSTRAINT "expense_group_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_group_id_idx" ON "expenses"("group_id");
+
+-- CreateIndex
+CREATE INDEX "settlements_group_id_idx" ON "settlements"("group_id");
+
+-- CreateIndex
+CREATE INDEX "expense_groups_user_id_idx" ON "expense_groups"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_group_members_group_id_name_key" ON "expense_group_members"("group_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "expense_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "settlements" ADD CONSTRAINT "settlements_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "expense_groups"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_groups" ADD CONSTRAINT "expense_groups_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_group_members" ADD CONSTRAINT "expense_group_members_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "expense_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
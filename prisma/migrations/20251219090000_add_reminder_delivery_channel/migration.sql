@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "reminders" ADD COLUMN     "delivery_channel" VARCHAR(10);
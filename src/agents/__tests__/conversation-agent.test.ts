@@ -0,0 +1,316 @@
+import { ConversationAgent } from '../conversation-agent';
+import { ReminderAgent } from '../reminder-agent';
+import { LLMService } from '../../services/llm.service';
+import { WhatsAppService } from '../../services/whatsapp.service';
+import { AgentStateService } from '../../services/agent-state.service';
+import { UserService } from '../../services/user.service';
+import { ExportService } from '../../services/export.service';
+import { MessageTemplateService } from '../../services/message-template.service';
+import { AgentContext } from '../../types/agents';
+
+// Everything that talks to OpenAI, WhatsApp, Redis or the database
+jest.mock('../../config/database');
+jest.mock('../../services/llm.service');
+jest.mock('../../services/whatsapp.service');
+jest.mock('../../services/conversation.service');
+jest.mock('../../services/agent-state.service');
+jest.mock('../../services/user.service');
+jest.mock('../../services/export.service');
+jest.mock('../../jobs/reminder-queue');
+jest.mock('../reminder-agent');
+
+// Wednesday 12 March 2025, 12:00 in Asia/Kolkata
+const NOW = new Date('2025-03-12T06:30:00Z');
+
+const user = {
+  id: 'user-123',
+  phoneNumber: '919876543210',
+  name: 'Yash',
+  timezone: 'Asia/Kolkata',
+} as AgentContext['user'];
+
+const contextFor = (message: string, overrides: Partial<AgentContext> = {}): AgentContext => ({
+  user,
+  message,
+  conversationHistory: [],
+  ...overrides,
+});
+
+describe('ConversationAgent', () => {
+  let agent: ConversationAgent;
+  let reminderAgent: jest.Mocked<ReminderAgent>;
+  let llmService: jest.Mocked<LLMService>;
+  let whatsappService: jest.Mocked<WhatsAppService>;
+  let agentStateService: jest.Mocked<AgentStateService>;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    agent = new ConversationAgent();
+    reminderAgent = (agent as any).reminderAgent;
+    llmService = (agent as any).llmService;
+    whatsappService = (agent as any).whatsappService;
+    agentStateService = (agent as any).agentStateService;
+
+    whatsappService.sendTextMessage.mockResolvedValue({ messageId: 'wamid.1', success: true });
+    whatsappService.sendButtonMessage.mockResolvedValue({ messageId: 'wamid.2', success: true });
+    jest.mocked(UserService.getPreferredLanguage).mockReturnValue('en');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  const sentText = () => whatsappService.sendTextMessage.mock.calls.map(([input]) => input.message);
+
+  describe('editing a reminder', () => {
+    const standup = {
+      id: 'r1',
+      userId: user.id,
+      reminderText: 'team standup',
+      scheduledTime: new Date('2025-03-13T03:30:00Z'), // Thu 9:00
+      recurrence: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYMINUTE=0',
+      status: 'pending',
+    };
+
+    it('should move every occurrence of a repeating reminder to the new time', async () => {
+      reminderAgent.getUpcomingReminders.mockResolvedValue([standup] as any);
+      reminderAgent.findReminders.mockResolvedValue([standup] as any);
+      llmService.extractReminderEdit.mockResolvedValue({ reminderReference: 'standup', timeExpression: '10am' } as any);
+      reminderAgent.updateReminder.mockImplementation(async (_id, updates) => ({
+        ...standup,
+        scheduledTime: updates.dueDatetime,
+        recurrence: updates.recurrence,
+      }) as any);
+
+      await agent.handle(
+        contextFor('move standup to 10am', { detectedIntent: { intent: 'edit_reminder', confidence: 0.9 } })
+      );
+
+      expect(reminderAgent.updateReminder).toHaveBeenCalledWith('r1', {
+        task: undefined,
+        dueDatetime: new Date('2025-03-13T04:30:00Z'), // Thu 10:00
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=10;BYMINUTE=0',
+      });
+      expect(sentText()[0]).toContain('every weekday');
+    });
+
+    it('should keep a one-off reminder on its day when only the time changes', async () => {
+      const dentist = {
+        ...standup,
+        reminderText: 'dentist',
+        scheduledTime: new Date('2025-03-14T03:30:00Z'), // Fri 9:00
+        recurrence: null,
+      };
+      reminderAgent.getUpcomingReminders.mockResolvedValue([dentist] as any);
+      llmService.extractReminderEdit.mockResolvedValue({ reminderNumber: 1, timeExpression: '10am' } as any);
+      reminderAgent.updateReminder.mockResolvedValue(dentist as any);
+
+      await agent.handle(
+        contextFor('move reminder 1 to 10am', { detectedIntent: { intent: 'edit_reminder', confidence: 0.9 } })
+      );
+
+      expect(reminderAgent.updateReminder).toHaveBeenCalledWith('r1', {
+        task: undefined,
+        dueDatetime: new Date('2025-03-14T04:30:00Z'), // Fri 10:00
+        recurrence: undefined,
+      });
+    });
+  });
+
+  describe('reminder drafts', () => {
+    const draft = (overrides: Record<string, any>) => ({
+      task: null,
+      timeExpression: null,
+      scheduledTime: null,
+      recurrence: null,
+      confirmation: null,
+      originalInput: 'remind me',
+      awaiting: 'time',
+      attempts: 0,
+      updatedAt: NOW.toISOString(),
+      ...overrides,
+    });
+
+    const inDraft = (message: string, flowData: Record<string, any>) =>
+      contextFor(message, { currentFlow: 'create_reminder', flowData });
+
+    beforeEach(() => {
+      reminderAgent.createReminder.mockImplementation(async (data) => ({
+        id: 'r9',
+        scheduledTime: data.dueDatetime,
+      }) as any);
+    });
+
+    it('should take the time after being given the task', async () => {
+      const response = await agent.handle(
+        inDraft('tomorrow 9am', draft({ task: 'call mom', originalInput: 'remind me to call mom' }))
+      );
+
+      expect(reminderAgent.createReminder).toHaveBeenCalledWith(
+        expect.objectContaining({ task: 'call mom', dueDatetime: new Date('2025-03-13T03:30:00Z') })
+      );
+      expect(agentStateService.completeFlow).toHaveBeenCalledWith(user.id);
+      expect(response.flowComplete).toBe(true);
+      expect(llmService.detectIntent).not.toHaveBeenCalled();
+    });
+
+    it('should take the task after being given the time', async () => {
+      llmService.detectIntent.mockResolvedValue({ intent: 'unclear', confidence: 0.4 });
+      llmService.extractReminderData.mockResolvedValue({ task: 'call mom', hasTime: false, confidence: 0.9 });
+
+      const response = await agent.handle(
+        inDraft('call mom', draft({
+          timeExpression: 'tomorrow 9am',
+          scheduledTime: '2025-03-13T03:30:00.000Z',
+          awaiting: 'task',
+        }))
+      );
+
+      expect(reminderAgent.createReminder).toHaveBeenCalledWith(
+        expect.objectContaining({ task: 'call mom', dueDatetime: new Date('2025-03-13T03:30:00Z') })
+      );
+      expect(response.flowComplete).toBe(true);
+    });
+
+    it('should drop the draft when the user cancels', async () => {
+      const response = await agent.handle(inDraft('cancel', draft({ task: 'call mom' })));
+
+      expect(agentStateService.completeFlow).toHaveBeenCalledWith(user.id);
+      expect(reminderAgent.createReminder).not.toHaveBeenCalled();
+      expect(sentText()).toEqual([new MessageTemplateService().render('reminderDraftCancelled')]);
+      expect(response.flowComplete).toBe(true);
+    });
+
+    it('should drop a stale draft and send the message back to the router', async () => {
+      const stale = draft({ task: 'call mom', updatedAt: new Date(NOW.getTime() - 20 * 60 * 1000).toISOString() });
+
+      const response = await agent.handle(inDraft('show my expenses', stale));
+
+      expect(response.reroute).toBe(true);
+      expect(agentStateService.completeFlow).toHaveBeenCalledWith(user.id);
+      expect(llmService.detectIntent).not.toHaveBeenCalled();
+      expect(whatsappService.sendTextMessage).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['en', 'in the morning or the evening?'],
+      ['hinglish', 'subah ya shaam?'],
+      ['hi', 'subah ya shaam?'],
+    ] as const)('should check an ambiguous time in the language a %s user writes in', async (language, question) => {
+      jest.mocked(UserService.getPreferredLanguage).mockReturnValue(language);
+      llmService.detectIntent.mockResolvedValue({ intent: 'create_reminder', confidence: 0.9 });
+      llmService.extractReminderData.mockResolvedValue({
+        task: 'call mom',
+        timeExpression: 'at 7',
+        hasTime: true,
+        confidence: 0.9,
+      });
+
+      await agent.handle(contextFor('remind me at 7 to call mom'));
+
+      expect(reminderAgent.createReminder).not.toHaveBeenCalled();
+      expect(whatsappService.sendButtonMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining(question) })
+      );
+    });
+
+    it.each(['split_expense', 'list_expenses', 'export_data', 'greeting'] as const)(
+      'should hand a %s message back to the router instead of reading it as the task',
+      async (intent) => {
+        llmService.detectIntent.mockResolvedValue({ intent, confidence: 0.9 });
+
+        const response = await agent.handle(
+          inDraft('split ₹1200 dinner', draft({
+            timeExpression: 'tomorrow 9am',
+            scheduledTime: '2025-03-13T03:30:00.000Z',
+            awaiting: 'task',
+          }))
+        );
+
+        expect(response.reroute).toBe(true);
+        expect(llmService.extractReminderData).not.toHaveBeenCalled();
+        expect(reminderAgent.createReminder).not.toHaveBeenCalled();
+        expect(agentStateService.completeFlow).toHaveBeenCalledWith(user.id);
+      }
+    );
+  });
+
+  describe('replies to a fired reminder', () => {
+    const fired = {
+      id: 'r1',
+      userId: user.id,
+      reminderText: 'call mom',
+      scheduledTime: new Date('2025-03-12T06:30:00Z'),
+      recurrence: null,
+      status: 'sent',
+      snoozeCount: 0,
+    };
+
+    const afterReminder = (message: string) =>
+      contextFor(message, {
+        detectedIntent: { intent: 'unclear', confidence: 0.3 },
+        conversationHistory: [
+          {
+            direction: 'outbound',
+            messageText: 'Your time is up, call mom',
+            timestamp: NOW,
+            detectedIntent: 'reminder_due',
+            relatedReminderId: 'r1',
+          },
+        ],
+      });
+
+    beforeEach(() => {
+      reminderAgent.getReminderById.mockResolvedValue(fired as any);
+      reminderAgent.snoozeReminder.mockImplementation(async (_id, until) => ({
+        ...fired,
+        scheduledTime: until,
+        snoozeCount: 1,
+      }) as any);
+    });
+
+    it.each([
+      ['snooze 10', 10],
+      ['snooze for 30', 30],
+      ['snooze 10 min', 10],
+      ['snooze', 10],
+      ['later', 10],
+    ])('should read "%s" as a %i minute snooze', async (message, minutes) => {
+      await agent.handle(afterReminder(message));
+
+      expect(reminderAgent.snoozeReminder).toHaveBeenCalledWith('r1', new Date(NOW.getTime() + minutes * 60 * 1000));
+    });
+
+    it.each(['see you later', "I'll do it later today"])('should not snooze on "%s"', async (message) => {
+      await agent.handle(afterReminder(message));
+
+      expect(reminderAgent.snoozeReminder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exporting data', () => {
+    let exportService: jest.Mocked<ExportService>;
+
+    beforeEach(() => {
+      exportService = (agent as any).exportService;
+      // The automock empties static arrays
+      jest.replaceProperty(ExportService, 'DATASETS', ['reminders', 'expenses', 'conversations']);
+      exportService.exportUserData.mockResolvedValue([]);
+      llmService.detectIntent.mockResolvedValue({ intent: 'export_data', confidence: 0.9 });
+    });
+
+    it.each([
+      ['export all my expenses', ['expenses']],
+      ['send all reminders as json', ['reminders']],
+      ['export my expenses and chat history', ['expenses', 'conversations']],
+      ['export everything', ['reminders', 'expenses', 'conversations']],
+      ['export all my data', ['reminders', 'expenses', 'conversations']],
+      ['export my data', ['reminders', 'expenses']],
+    ])('should read "%s" as an export of %j', async (message, datasets) => {
+      await agent.handle(contextFor(message));
+
+      expect(exportService.exportUserData).toHaveBeenCalledWith(user.id, expect.any(String), datasets);
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { DateTimeAgent } from '../datetime-agent';
+
+// BaseAgent wires up agent state storage; parsing never touches it
+jest.mock('../../config/database');
+
+// Wednesday 12 March 2025, 12:00 in Asia/Kolkata
+const NOW = new Date('2025-03-12T06:30:00Z');
+
+describe('DateTimeAgent', () => {
+  let agent: DateTimeAgent;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    agent = new DateTimeAgent();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('parseDateTime', () => {
+    it.each([
+      // Relative durations
+      ['in 45 minutes', '2025-03-12T07:15:00.000Z'],
+      ['in 2 hours', '2025-03-12T08:30:00.000Z'],
+      ['in an hour', '2025-03-12T07:30:00.000Z'],
+      ['in half an hour', '2025-03-12T07:00:00.000Z'],
+      ['in 1 hour 30 mins', '2025-03-12T08:00:00.000Z'],
+      ['20 minutes from now', '2025-03-12T06:50:00.000Z'],
+
+      // Times without a date: today, or tomorrow once passed
+      ['at 7pm', '2025-03-12T13:30:00.000Z'],
+      ['9am', '2025-03-13T03:30:00.000Z'],
+      ['midnight', '2025-03-12T18:30:00.000Z'],
+
+      // Relative days
+      ['today 6.30pm', '2025-03-12T13:00:00.000Z'],
+      ['tonight', '2025-03-12T15:30:00.000Z'],
+      ['tomorrow 9am', '2025-03-13T03:30:00.000Z'],
+      ['tomorrow at noon', '2025-03-13T06:30:00.000Z'],
+      ['day after tomorrow at 6pm', '2025-03-14T12:30:00.000Z'],
+      ['in 3 days at 10am', '2025-03-15T04:30:00.000Z'],
+      ['in 2 weeks', '2025-03-26T03:30:00.000Z'],
+      ['next week', '2025-03-19T03:30:00.000Z'],
+
+      // Weekdays and weekends
+      ['friday 6pm', '2025-03-14T12:30:00.000Z'],
+      ['this friday 6pm', '2025-03-14T12:30:00.000Z'],
+      ['next friday 6pm', '2025-03-21T12:30:00.000Z'],
+      ['next monday', '2025-03-17T03:30:00.000Z'],
+      ['wednesday 5pm', '2025-03-12T11:30:00.000Z'],
+      ['wednesday 9am', '2025-03-19T03:30:00.000Z'],
+      ['this weekend', '2025-03-15T03:30:00.000Z'],
+      ['next weekend', '2025-03-22T03:30:00.000Z'],
+
+      // Absolute dates
+      ['15th march 5pm', '2025-03-15T11:30:00.000Z'],
+      ['march 20th at 8am', '2025-03-20T02:30:00.000Z'],
+      ['10 march', '2026-03-10T03:30:00.000Z'],
+      ['15 march 2026 at 7pm', '2026-03-15T13:30:00.000Z'],
+      ['1/4 at 10am', '2025-04-01T04:30:00.000Z'],
+
+      // Days of the month
+      ['pay rent on 15th', '2025-03-15T03:30:00.000Z'],
+      ['on the 3rd', '2025-04-03T03:30:00.000Z'],
+      ['on the 12th at 10am', '2025-04-12T04:30:00.000Z'],
+    ])('should parse "%s" as %s', (input, expected) => {
+      const result = agent.parseDateTime(input, 'Asia/Kolkata');
+
+      expect(result?.scheduledTime.toISOString()).toBe(expected);
+    });
+
+    it.each([
+      ['call mom'],
+      ['hello how are you'],
+      ['31st april'],
+    ])('should not find a time in "%s"', (input) => {
+      expect(agent.parseDateTime(input, 'Asia/Kolkata')).toBeNull();
+    });
+
+    it('should report the date expression and days from now', () => {
+      const result = agent.parseDateTime('day after tomorrow at 6pm', 'Asia/Kolkata');
+
+      expect(result).toMatchObject({
+        timeExpression: '6pm',
+        dateExpression: 'day after tomorrow',
+        metadata: { hours: 18, minutes: 0, daysFromNow: 2 },
+      });
+    });
+
+    it('should use lower confidence when only a date is given', () => {
+      expect(agent.parseDateTime('next monday', 'Asia/Kolkata')?.confidence).toBeLessThan(
+        agent.parseDateTime('next monday 9am', 'Asia/Kolkata')!.confidence
+      );
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { SplitwiseAgent } from '../splitwise-agent';
+import { LLMService } from '../../services/llm.service';
+import { WhatsAppService } from '../../services/whatsapp.service';
+import { AgentStateService } from '../../services/agent-state.service';
+import { MessageTemplateService } from '../../services/message-template.service';
+import { AgentContext } from '../../types/agents';
+
+// Everything that talks to OpenAI, WhatsApp, Redis or the database
+jest.mock('../../config/database');
+jest.mock('../../services/llm.service');
+jest.mock('../../services/whatsapp.service');
+jest.mock('../../services/conversation.service');
+jest.mock('../../services/agent-state.service');
+jest.mock('../../services/user.service');
+jest.mock('../../services/expense.service');
+jest.mock('../../services/expense-group.service');
+
+const user = {
+  id: 'user-123',
+  phoneNumber: '919876543210',
+  name: 'Yash',
+  timezone: 'Asia/Kolkata',
+} as AgentContext['user'];
+
+describe('SplitwiseAgent', () => {
+  let agent: SplitwiseAgent;
+  let llmService: jest.Mocked<LLMService>;
+  let whatsappService: jest.Mocked<WhatsAppService>;
+  let agentStateService: jest.Mocked<AgentStateService>;
+
+  beforeEach(() => {
+    agent = new SplitwiseAgent();
+    llmService = (agent as any).llmService;
+    whatsappService = (agent as any).whatsappService;
+    agentStateService = (agent as any).agentStateService;
+
+    whatsappService.sendTextMessage.mockResolvedValue({ messageId: 'wamid.1', success: true });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const sentText = () => whatsappService.sendTextMessage.mock.calls.map(([input]) => input.message);
+
+  describe('collecting a split', () => {
+    const expense = { amount: 1200, currency: 'INR', description: 'dinner', paidBy: 'You' };
+
+    const inSplit = (message: string, flowData: Record<string, any>): AgentContext => ({
+      user,
+      message,
+      conversationHistory: [],
+      currentFlow: 'split_expense',
+      flowData,
+    });
+
+    it.each([
+      ['how many people', expense],
+      ['names', { ...expense, participantCount: 3 }],
+    ])('should hand another request at the %s step back to the router', async (_step, flowData) => {
+      llmService.detectIntent.mockResolvedValue({ intent: 'create_reminder', confidence: 0.9 });
+
+      const response = await agent.handle(inSplit('remind me to call mom at 5pm', flowData));
+
+      expect(response.reroute).toBe(true);
+      expect(agentStateService.completeFlow).toHaveBeenCalledWith(user.id);
+      expect(whatsappService.sendTextMessage).not.toHaveBeenCalled();
+    });
+
+    it('should ask again when an answer that does not fit is still about the split', async () => {
+      llmService.detectIntent.mockResolvedValue({ intent: 'unclear', confidence: 0.4 });
+
+      const response = await agent.handle(inSplit('a few of us', expense));
+
+      expect(response.reroute).toBeUndefined();
+      expect(agentStateService.completeFlow).not.toHaveBeenCalled();
+      expect(sentText()).toEqual([new MessageTemplateService().render('expenseCountInvalid')]);
+    });
+
+    it('should take a usable answer without checking what else it could be', async () => {
+      await agent.handle(inSplit('3', expense));
+
+      expect(llmService.detectIntent).not.toHaveBeenCalled();
+      expect(agentStateService.updateFlowData).toHaveBeenCalledWith(user.id, { participantCount: 3 });
+    });
+  });
+});
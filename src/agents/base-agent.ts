@@ -1,8 +1,11 @@
-import { AgentType, IAgent, AgentContext, AgentResponse } from '../types/agents';
+import { AgentType, IAgent, AgentContext, AgentResponse, MessageChoices } from '../types/agents';
+import { ExportFile } from '../types';
 import { AgentStateService } from '../services/agent-state.service';
 import { ConversationService } from '../services/conversation.service';
 import { WhatsAppService } from '../services/whatsapp.service';
+import { MessageTemplateService } from '../services/message-template.service';
 import { logger } from '../config/logger';
+import { Money, ParsedAmount } from '../utils/money';
 
 /**
  * Base Agent
@@ -17,11 +20,13 @@ export abstract class BaseAgent implements IAgent {
   protected agentStateService: AgentStateService;
   protected conversationService: ConversationService;
   protected whatsappService: WhatsAppService;
+  protected messages: MessageTemplateService; // All outbound copy is rendered from bot-config.json
 
   constructor() {
     this.agentStateService = new AgentStateService();
     this.conversationService = new ConversationService();
     this.whatsappService = new WhatsAppService();
+    this.messages = new MessageTemplateService();
   }
 
   /**
@@ -41,6 +46,7 @@ export abstract class BaseAgent implements IAgent {
 
   /**
    * Helper: Send WhatsApp message and store in conversation
+   * Pass `choices` to attach reply buttons or a list picker
    */
   protected async sendMessage(
     phoneNumber: string,
@@ -49,15 +55,23 @@ export abstract class BaseAgent implements IAgent {
     metadata?: {
       intent?: string;
       relatedId?: string;
+      choices?: MessageChoices;
     }
   ): Promise<void> {
     logger.info({ userId, agent: this.type, messageLength: message.length }, 'Sending message');
 
     // Send via WhatsApp
-    const result = await this.whatsappService.sendTextMessage({
-      to: phoneNumber,
-      message,
-    });
+    const choices = metadata?.choices;
+    const result = !choices
+      ? await this.whatsappService.sendTextMessage({ to: phoneNumber, message })
+      : 'buttons' in choices
+        ? await this.whatsappService.sendButtonMessage({ to: phoneNumber, message, buttons: choices.buttons })
+        : await this.whatsappService.sendListMessage({
+            to: phoneNumber,
+            message,
+            buttonText: choices.buttonText,
+            sections: choices.sections,
+          });
 
     // Store in conversation history
     await this.conversationService.storeMessage({
@@ -70,6 +84,37 @@ export abstract class BaseAgent implements IAgent {
     });
   }
 
+  /**
+   * Helper: Send a file as a WhatsApp document and store it in conversation
+   */
+  protected async sendDocument(
+    phoneNumber: string,
+    userId: string,
+    file: Pick<ExportFile, 'filename' | 'mimeType' | 'content'>,
+    caption: string,
+    metadata?: {
+      intent?: string;
+    }
+  ): Promise<void> {
+    logger.info({ userId, agent: this.type, filename: file.filename }, 'Sending document');
+
+    const result = await this.whatsappService.sendDocument({
+      to: phoneNumber,
+      filename: file.filename,
+      mimeType: file.mimeType,
+      data: Buffer.from(file.content, 'utf8'),
+      caption,
+    });
+
+    await this.conversationService.storeMessage({
+      userId,
+      direction: 'outbound',
+      messageText: `📎 ${file.filename}\n${caption}`,
+      whatsappMessageId: result.messageId,
+      detectedIntent: metadata?.intent as any,
+    });
+  }
+
   /**
    * Helper: Start a multi-step flow
    */
@@ -109,24 +154,11 @@ export abstract class BaseAgent implements IAgent {
   }
 
   /**
-   * Helper: Extract currency amounts (₹1200, Rs.500, 1200 rupees)
+   * Helper: Extract a money amount (₹1200, $12.50, 1,250.75 rupees, "split 1.2k", "paid 2 lakh")
+   * The currency is only set when the message says which one.
    */
-  protected extractAmount(text: string): number | null {
-    // Match patterns like: ₹1200, Rs.500, 1200 rupees, rs 500
-    const patterns = [
-      /₹\s*(\d+)/,
-      /rs\.?\s*(\d+)/i,
-      /(\d+)\s*(?:₹|rs\.?|rupees?)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        return parseInt(match[1], 10);
-      }
-    }
-
-    return null;
+  protected extractAmount(text: string): ParsedAmount | null {
+    return Money.find(text);
   }
 
   /**
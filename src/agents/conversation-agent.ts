@@ -1,11 +1,79 @@
-import { AgentType, IAgent, AgentContext, AgentResponse } from '../types/agents';
+import { AgentType, IAgent, AgentContext, AgentResponse, MessageChoices } from '../types/agents';
+import { DateTimeAmbiguity, ExportDataset, ExportFormat, InteractiveReplyData, ParsedDateTime, PreferredLanguage } from '../types';
 import { BaseAgent } from './base-agent';
 import { DateTimeAgent } from './datetime-agent';
 import { ReminderAgent, ReminderData } from './reminder-agent';
 import { ReminderQueue } from '../jobs/reminder-queue';
+import { Reminder } from '@prisma/client';
 import { LLMService } from '../services/llm.service';
+import { UserService } from '../services/user.service';
+import { ExportService } from '../services/export.service';
+import { TimeService } from '../services/time.service';
+import { InteractiveReply } from '../utils/interactive-reply';
 import { logger } from '../config/logger';
 
+/**
+ * Readings of an ambiguous time, one of which the user picks before the reminder is saved
+ */
+interface TimeConfirmation {
+  type: 'meridiem' | 'bare_number' | 'time_passed';
+  expression: string; // The part of the message we're unsure about, e.g. "at 7"
+  options: Array<{ scheduledTime: string; recurrence: string | null }>; // Best guess first
+  token: string; // Ties tapped buttons to this question, so stale ones are ignored
+}
+
+/**
+ * Partial reminder kept in AgentState.flowData while the create_reminder flow
+ * collects whatever the first message was missing
+ */
+interface ReminderDraft {
+  task: string | null;
+  timeExpression: string | null;
+  scheduledTime: string | null; // ISO; resolved once so "in 2 hours" doesn't drift while we ask for the task
+  recurrence: string | null;
+  confirmation: TimeConfirmation | null; // Set while the parsed time still needs checking with the user
+  originalInput: string;
+  awaiting: 'time' | 'task' | 'confirmation';
+  attempts: number; // Unusable answers to the current question
+  updatedAt: string; // ISO
+}
+
+/**
+ * Drafts untouched for this long are dropped and the next message is treated as new
+ */
+const REMINDER_DRAFT_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Give up on a draft after this many unusable answers in a row
+ */
+const REMINDER_DRAFT_MAX_ATTEMPTS = 3;
+
+// Replies that push a fired reminder back: "snooze", "snooze 10", "remind me again later", a lone "later"
+// ("see you later" or "I'll do it later today" is something else)
+const SNOOZE_REPLY_PATTERN = /^(snooze|remind me (again|later))\b|^later( (please|pls))?[.!]*$/;
+
+// "snooze 10", "snooze for 30" - a number with no unit is minutes
+const SNOOZE_MINUTES_PATTERN = /^snooze\s+(?:for\s+)?(\d{1,4})[.!]*$/;
+
+/**
+ * Intents that can still be an answer to the reminder being drafted; anything else means the user moved on
+ */
+const DRAFT_CONTINUING_INTENTS = ['create_reminder', 'unclear'];
+
+/**
+ * Ambiguities worth a question before saving, most important first
+ */
+const CONFIRMED_AMBIGUITIES: Array<TimeConfirmation['type']> = ['meridiem', 'bare_number', 'time_passed'];
+
+/**
+ * Words naming each dataset in an export request ("export my expenses and chat history")
+ */
+const EXPORT_DATASET_PATTERNS: Record<ExportDataset, RegExp> = {
+  reminders: /\breminders?\b/i,
+  expenses: /\b(expenses?|bills?|splits?)\b/i,
+  conversations: /\b(chats?|conversations?|messages?|history)\b/i,
+};
+
 /**
  * Conversation / Orchestrator Agent
  *
@@ -14,11 +82,11 @@ import { logger } from '../config/logger';
  * - Detect user intent (create/edit/delete/list reminders, help, small talk)
  * - For reminder operations:
  *   - Extract task and time from message
- *   - Ask follow-up questions if needed
- *   - Use DateTimeAgent to parse time expressions
+ *   - Ask follow-up questions if needed, remembering the partial reminder (create_reminder flow)
+ *   - Use DateTimeAgent to parse time expressions, checking ambiguous ones ("at 7") with the user
  *   - Use ReminderAgent (storage) to save/update/delete
  *   - Confirm to user in plain language
- * - Handle reminder due notifications
+ * - Handle replies to reminder due notifications (snooze / done), typed or tapped
  * - General conversation and help
  */
 export class ConversationAgent extends BaseAgent implements IAgent {
@@ -29,6 +97,8 @@ export class ConversationAgent extends BaseAgent implements IAgent {
   private reminderAgent: ReminderAgent;
   private reminderQueue: ReminderQueue;
   private llmService: LLMService;
+  private userService: UserService;
+  private exportService: ExportService;
 
   constructor() {
     super();
@@ -36,13 +106,15 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     this.reminderAgent = new ReminderAgent();
     this.reminderQueue = new ReminderQueue();
     this.llmService = new LLMService();
+    this.userService = new UserService();
+    this.exportService = new ExportService();
   }
 
   /**
-   * This agent handles ALL messages after onboarding
+   * This agent handles every message after onboarding that no specialist agent claims
    */
   async canHandle(_context: AgentContext): Promise<boolean> {
-    // This is the default agent - always returns true
+    // This is the default agent - always returns true, so the router asks it last
     return true;
   }
 
@@ -54,22 +126,63 @@ export class ConversationAgent extends BaseAgent implements IAgent {
 
     logger.info({ userId: user.id, message }, 'Conversation agent handling message');
 
-    // Use LLM to detect intent
+    // Tapped buttons / list rows carry their action in the reply ID
+    if (context.interactiveReply) {
+      if (InteractiveReply.decode(context.interactiveReply.id).action === 'reminder_time') {
+        return await this.handleReminderTimeChoice(context, context.interactiveReply);
+      }
+      return await this.handleInteractiveReply(user.phoneNumber, user.id, user.timezone, context.interactiveReply);
+    }
+
+    // Replies to a reminder that just fired ("done", "snooze 10 min")
+    const firedReminderId = this.getFiredReminderId(conversationHistory);
+    if (firedReminderId) {
+      const replyResponse = await this.handleReminderReply(
+        user.phoneNumber,
+        user.id,
+        user.timezone,
+        firedReminderId,
+        message
+      );
+      if (replyResponse) {
+        return replyResponse;
+      }
+    }
+
+    // Answer to a follow-up question about a reminder being created
+    // A dropped draft goes back to the router, since the message may be for another agent ("split ₹1200 dinner")
+    if (context.currentFlow === 'create_reminder' && context.flowData) {
+      const draftResponse = await this.handleReminderDraft(context, context.flowData as ReminderDraft);
+      return draftResponse ?? { message: '', reroute: true };
+    }
+
+    // Reuse the router's intent detection, falling back to the LLM if it wasn't run
     const recentMessages = conversationHistory?.slice(-5).map(m => m.messageText) || [];
-    const intentResult = await this.llmService.detectIntent(message, recentMessages);
+    const intentResult =
+      context.detectedIntent || (await this.llmService.detectIntent(message, recentMessages));
     const intent = intentResult.intent;
 
     logger.info({ userId: user.id, intent, confidence: intentResult.confidence }, 'Intent detected');
 
     switch (intent) {
       case 'create_reminder':
-        return await this.handleCreateReminder(user.phoneNumber, user.id, user.name, message);
+        return await this.handleCreateReminder(user.phoneNumber, user.id, user.timezone, message,
+          UserService.getPreferredLanguage(user));
 
       case 'list_reminders':
-        return await this.handleListReminders(user.phoneNumber, user.id, user.name);
+        return await this.handleListReminders(user.phoneNumber, user.id, user.timezone);
+
+      case 'edit_reminder':
+        return await this.handleEditReminder(user.phoneNumber, user.id, user.timezone, message);
 
       case 'delete_reminder':
-        return await this.handleDeleteReminder(user.phoneNumber, user.id, user.name, message);
+        return await this.handleDeleteReminder(user.phoneNumber, user.id, user.timezone, message);
+
+      case 'set_timezone':
+        return await this.handleSetTimezone(user.phoneNumber, user.id, user.timezone, message);
+
+      case 'export_data':
+        return await this.handleExportData(user.phoneNumber, user.id, message);
 
       case 'help':
         return await this.handleHelp(user.phoneNumber, user.id, user.name);
@@ -92,14 +205,200 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     return 'Main orchestrator - handles all reminder operations and general conversation with LLM-powered understanding';
   }
 
+  /**
+   * Find the reminder the user is most likely replying to:
+   * the last bot message must be a fired (or snoozed) reminder
+   */
+  private getFiredReminderId(conversationHistory: AgentContext['conversationHistory']): string | null {
+    const lastOutbound = [...(conversationHistory || [])]
+      .reverse()
+      .find(m => m.direction === 'outbound');
+
+    if (
+      lastOutbound?.relatedReminderId &&
+      (lastOutbound.detectedIntent === 'reminder_due' || lastOutbound.detectedIntent === 'reminder_snoozed')
+    ) {
+      return lastOutbound.relatedReminderId;
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle "done" / "snooze" replies to a fired reminder
+   * Returns null if the message isn't a reply, so normal intent detection can run
+   */
+  private async handleReminderReply(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    reminderId: string,
+    message: string
+  ): Promise<AgentResponse | null> {
+    const lowerMessage = message.toLowerCase().trim();
+
+    const isDone = /^(done|did it|completed?|finished|ok done|all done)\b|^(✅|👍)$/.test(lowerMessage);
+    const bareMinutes = lowerMessage.match(SNOOZE_MINUTES_PATTERN);
+    const duration = bareMinutes
+      ? { minutes: parseInt(bareMinutes[1], 10), raw: bareMinutes[1] }
+      : this.dateTimeAgent.parseDuration(lowerMessage);
+    const isSnooze = SNOOZE_REPLY_PATTERN.test(lowerMessage) ||
+      (duration !== null && lowerMessage.replace(/^in\s+/, '') === duration.raw);
+
+    if (!isDone && !isSnooze) {
+      return null;
+    }
+
+    const reminder = await this.reminderAgent.getReminderById(reminderId);
+    if (!reminder || ['completed', 'cancelled'].includes(reminder.status)) {
+      return null;
+    }
+
+    try {
+      if (isDone) {
+        return await this.completeFiredReminder(phoneNumber, userId, reminder);
+      }
+
+      // "snooze till 6pm" - otherwise a duration, defaulting to 10 minutes
+      const explicitTime = duration ? null : this.dateTimeAgent.parseDateTime(lowerMessage, timezone);
+      const snoozeUntil = explicitTime && !explicitTime.recurrence
+        ? explicitTime.scheduledTime
+        : new Date(Date.now() + (duration?.minutes ?? 10) * 60 * 1000);
+
+      return await this.snoozeFiredReminder(phoneNumber, userId, timezone, reminder, snoozeUntil);
+    } catch (error) {
+      logger.error({ userId, reminderId, error }, 'Failed to handle reminder reply');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('reminderReplyFailed'),
+        { intent: 'error' }
+      );
+
+      return { message: '' };
+    }
+  }
+
+  /**
+   * Handle a tapped reply button or list row
+   * IDs are built with InteractiveReply, e.g. "reminder_snooze:<reminderId>:10"
+   */
+  private async handleInteractiveReply(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    reply: InteractiveReplyData
+  ): Promise<AgentResponse> {
+    const { action, args } = InteractiveReply.decode(reply.id);
+    const [reminderId, minutes] = args;
+
+    logger.info({ userId, action, reminderId }, 'Handling interactive reply');
+
+    const reminder = reminderId ? await this.reminderAgent.getReminderById(reminderId) : null;
+    if (!reminder || reminder.userId !== userId || ['completed', 'cancelled'].includes(reminder.status)) {
+      await this.sendMessage(phoneNumber, userId, this.messages.render('reminderNoLongerActive'), {
+        intent: 'reminder_inactive',
+      });
+      return { message: '' };
+    }
+
+    try {
+      switch (action) {
+        case 'reminder_done':
+          return await this.completeFiredReminder(phoneNumber, userId, reminder);
+
+        case 'reminder_snooze': {
+          const snoozeMinutes = parseInt(minutes, 10) || 10;
+          const snoozeUntil = new Date(Date.now() + snoozeMinutes * 60 * 1000);
+          return await this.snoozeFiredReminder(phoneNumber, userId, timezone, reminder, snoozeUntil);
+        }
+
+        case 'reminder_cancel':
+          return await this.cancelReminder(phoneNumber, userId, reminder);
+
+        default:
+          logger.warn({ userId, replyId: reply.id }, 'Unknown interactive reply');
+          return await this.handleUnclear(phoneNumber, userId, reply.title);
+      }
+    } catch (error) {
+      logger.error({ userId, replyId: reply.id, error }, 'Failed to handle interactive reply');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('reminderReplyFailed'),
+        { intent: 'error' }
+      );
+
+      return { message: '' };
+    }
+  }
+
+  /**
+   * Mark a fired reminder as done (the series continues for repeating reminders)
+   */
+  private async completeFiredReminder(
+    phoneNumber: string,
+    userId: string,
+    reminder: Reminder
+  ): Promise<AgentResponse> {
+    await this.reminderAgent.completeReminder(reminder.id);
+    await this.reminderQueue.cancelReminder(reminder.id);
+
+    const doneMsg = reminder.recurrence
+      ? this.messages.render('reminderDoneRecurring', {
+          TASK: reminder.reminderText,
+          REPEAT: this.dateTimeAgent.describeRecurrence(reminder.recurrence),
+        })
+      : this.messages.render('reminderDone', { TASK: reminder.reminderText });
+
+    await this.sendMessage(phoneNumber, userId, doneMsg, {
+      intent: 'reminder_completed',
+      relatedId: reminder.id,
+    });
+
+    return { message: '' };
+  }
+
+  /**
+   * Push a fired reminder back and re-queue it
+   */
+  private async snoozeFiredReminder(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    reminder: Reminder,
+    snoozeUntil: Date
+  ): Promise<AgentResponse> {
+    const snoozed = await this.reminderAgent.snoozeReminder(reminder.id, snoozeUntil);
+
+    // Replace the fired job with one at the new time
+    await this.reminderQueue.rescheduleReminder(snoozed, phoneNumber);
+
+    const timeStr = this.dateTimeAgent.formatDateTime(snoozeUntil, timezone).toLowerCase();
+    const snoozeMsg = snoozed.snoozeCount > 1
+      ? this.messages.render('reminderSnoozedRepeatedly', { TIME: timeStr, COUNT: snoozed.snoozeCount })
+      : this.messages.render('reminderSnoozed', { TIME: timeStr });
+
+    await this.sendMessage(phoneNumber, userId, snoozeMsg, {
+      intent: 'reminder_snoozed',
+      relatedId: snoozed.id,
+    });
+
+    return { message: '' };
+  }
+
   /**
    * Handle creating a reminder
+   * Anything missing (time or task) is asked for and the rest kept in a create_reminder flow
    */
   private async handleCreateReminder(
     phoneNumber: string,
     userId: string,
-    _userName: string | null | undefined,
-    message: string
+    timezone: string,
+    message: string,
+    language: PreferredLanguage
   ): Promise<AgentResponse> {
     try {
       // Use LLM to extract task and time expression
@@ -107,74 +406,476 @@ export class ConversationAgent extends BaseAgent implements IAgent {
 
       logger.info({ userId, extracted }, 'Extracted reminder data');
 
-      // If no time expression found, ask for it
-      if (!extracted.hasTime || !extracted.timeExpression) {
-        await this.sendMessage(
-          phoneNumber,
-          userId,
-          `hmm, I didn't catch when you want to be reminded. could you tell me the time? like "tomorrow at 7" or "in 2 hours"?`,
-          { intent: 'time_unclear' }
-        );
-        return { message: '' };
+      return await this.advanceReminderDraft(phoneNumber, userId, timezone, {
+        task: extracted.task.trim() || null,
+        timeExpression: (extracted.hasTime && extracted.timeExpression) || null,
+        scheduledTime: null,
+        recurrence: null,
+        confirmation: null,
+        originalInput: message,
+        awaiting: 'time',
+        attempts: 0,
+        updatedAt: new Date().toISOString(),
+      }, false, language);
+    } catch (error) {
+      logger.error({ userId, error }, 'Failed to create reminder');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('genericError'),
+        { intent: 'error' }
+      );
+
+      return { message: '' };
+    }
+  }
+
+  /**
+   * Handle a message while a reminder draft is waiting for its time or task
+   *
+   * @returns null if the draft was dropped (timed out, or the user moved on) and the
+   *   message should be routed again as a new one
+   */
+  private async handleReminderDraft(
+    context: AgentContext,
+    draft: ReminderDraft
+  ): Promise<AgentResponse | null> {
+    const { user, message, conversationHistory } = context;
+
+    if (Date.now() - new Date(draft.updatedAt).getTime() > REMINDER_DRAFT_TIMEOUT_MS) {
+      logger.info({ userId: user.id, draft }, 'Reminder draft timed out');
+      await this.completeFlow(user.id);
+      return null;
+    }
+
+    if (/^(cancel|stop|never\s*mind|forget it)\b/i.test(message.trim())) {
+      await this.completeFlow(user.id);
+      await this.sendMessage(user.phoneNumber, user.id, this.messages.render('reminderDraftCancelled'), {
+        intent: 'reminder_draft_cancelled',
+      });
+      return { message: '', flowComplete: true };
+    }
+
+    try {
+      // "yes", "pm", "no" in answer to "did you mean 7pm?"
+      if (draft.awaiting === 'confirmation' && draft.confirmation) {
+        const choice = this.readTimeChoice(message, draft.confirmation, user.timezone);
+        if (choice !== null) {
+          return await this.confirmReminderTime(user.phoneNumber, user.id, user.timezone, draft, choice);
+        }
+      }
+
+      // The common case: a bare answer to "when?" (or a different time instead of the one we checked)
+      if (draft.awaiting === 'time' || draft.awaiting === 'confirmation') {
+        const parsedTime = this.dateTimeAgent.parseDateTime(message, user.timezone);
+        if (parsedTime) {
+          return await this.advanceReminderDraft(user.phoneNumber, user.id, user.timezone, {
+            ...draft,
+            ...this.draftTimeFrom(parsedTime, message),
+            timeExpression: message,
+          }, true, UserService.getPreferredLanguage(user));
+        }
+      }
+
+      // Otherwise check whether the user moved on before reading it as part of the reminder
+      const recentMessages = conversationHistory?.slice(-5).map(m => m.messageText) || [];
+      context.detectedIntent = await this.llmService.detectIntent(message, recentMessages);
+
+      if (!DRAFT_CONTINUING_INTENTS.includes(context.detectedIntent.intent)) {
+        logger.info({ userId: user.id, intent: context.detectedIntent.intent }, 'Reminder draft abandoned');
+        await this.completeFlow(user.id);
+        return null;
+      }
+
+      // Fill in whatever the reply adds ("call mom", "tomorrow 9am", or the whole thing again)
+      const extracted = await this.llmService.extractReminderData(message);
+      const task = extracted.task.trim() || (draft.awaiting === 'task' ? message.trim() : '');
+      const timeExpression = extracted.hasTime ? extracted.timeExpression : undefined;
+
+      return await this.advanceReminderDraft(user.phoneNumber, user.id, user.timezone, {
+        ...draft,
+        task: task || draft.task,
+        ...(timeExpression && { timeExpression, scheduledTime: null, recurrence: null, confirmation: null }),
+      }, true, UserService.getPreferredLanguage(user));
+    } catch (error) {
+      logger.error({ userId: user.id, error }, 'Failed to continue reminder draft');
+
+      await this.completeFlow(user.id);
+      await this.sendMessage(
+        user.phoneNumber,
+        user.id,
+        this.messages.render('genericError'),
+        { intent: 'error' }
+      );
+
+      return { message: '', flowComplete: true };
+    }
+  }
+
+  /**
+   * Move a reminder draft forward: resolve the time, then the task, then create it
+   * Asks for whichever is still missing, keeping the draft in the create_reminder flow.
+   */
+  private async advanceReminderDraft(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    draft: ReminderDraft,
+    inFlow: boolean,
+    language: PreferredLanguage = 'en'
+  ): Promise<AgentResponse> {
+    let scheduledTime = draft.scheduledTime;
+
+    if (!scheduledTime) {
+      if (!draft.timeExpression) {
+        return await this.askForReminderDetail(phoneNumber, userId, draft, 'time', inFlow,
+          this.messages.render('timeUnclear'), 'time_unclear');
       }
 
       // Parse the time expression using DateTimeAgent
-      const parsedTime = this.dateTimeAgent.parseDateTime(extracted.timeExpression);
+      const parsedTime = this.dateTimeAgent.parseDateTime(draft.timeExpression, timezone);
+      if (!parsedTime) {
+        return await this.askForReminderDetail(phoneNumber, userId, { ...draft, timeExpression: null }, 'time', inFlow,
+          this.messages.render('timeParsingFailed', { EXPRESSION: draft.timeExpression }), 'time_parsing_failed');
+      }
 
-      if (!parsedTime || !parsedTime.scheduledTime) {
-        await this.sendMessage(
-          phoneNumber,
-          userId,
-          `I got "${extracted.timeExpression}" but couldn't figure out the exact time. can you be more specific? like "tomorrow 7pm" or "in 30 minutes"?`,
-          { intent: 'time_parsing_failed' }
-        );
-        return { message: '' };
+      draft = { ...draft, ...this.draftTimeFrom(parsedTime, draft.timeExpression) };
+      scheduledTime = parsedTime.scheduledTime.toISOString();
+    }
+
+    if (!draft.task) {
+      return await this.askForReminderDetail(phoneNumber, userId, draft, 'task', inFlow,
+        this.messages.render('taskUnclear'), 'task_unclear');
+    }
+
+    // Check guesses ("at 7" = 7pm?) once we know what the reminder is for, so the question can name it
+    if (draft.confirmation) {
+      return await this.askToConfirmReminderTime(phoneNumber, userId, timezone, draft, draft.confirmation, inFlow, language);
+    }
+
+    if (inFlow) {
+      await this.completeFlow(userId);
+    }
+
+    await this.scheduleReminder(phoneNumber, userId, timezone, {
+      userId,
+      task: draft.task,
+      dueDatetime: new Date(scheduledTime),
+      timezone,
+      originalInput: draft.originalInput,
+      recurrence: draft.recurrence,
+    });
+
+    return { message: '', flowComplete: inFlow };
+  }
+
+  /**
+   * Save the draft and ask for the missing time or task
+   * Gives up (and says so) after REMINDER_DRAFT_MAX_ATTEMPTS unusable answers to the same question.
+   */
+  private async askForReminderDetail(
+    phoneNumber: string,
+    userId: string,
+    draft: ReminderDraft,
+    awaiting: ReminderDraft['awaiting'],
+    inFlow: boolean,
+    question: string,
+    intent: string,
+    choices?: MessageChoices
+  ): Promise<AgentResponse> {
+    const attempts = inFlow && draft.awaiting === awaiting ? draft.attempts + 1 : 0;
+
+    if (attempts >= REMINDER_DRAFT_MAX_ATTEMPTS) {
+      await this.completeFlow(userId);
+      await this.sendMessage(phoneNumber, userId, this.messages.render('reminderDraftAbandoned'), {
+        intent: 'reminder_draft_abandoned',
+      });
+      return { message: '', flowComplete: true };
+    }
+
+    const flowData: ReminderDraft = { ...draft, awaiting, attempts, updatedAt: new Date().toISOString() };
+    if (inFlow) {
+      await this.updateFlowData(userId, flowData);
+    } else {
+      await this.startFlow(userId, 'create_reminder', flowData);
+    }
+
+    await this.sendMessage(phoneNumber, userId, question, { intent, choices });
+
+    return { message: '', flowComplete: false };
+  }
+
+  /**
+   * Draft fields for a parsed time, including whether it needs confirming
+   */
+  private draftTimeFrom(
+    parsedTime: ParsedDateTime,
+    expression: string
+  ): Pick<ReminderDraft, 'scheduledTime' | 'recurrence' | 'confirmation'> {
+    return {
+      scheduledTime: parsedTime.scheduledTime.toISOString(),
+      recurrence: parsedTime.recurrence ?? null,
+      confirmation: this.timeConfirmationFor(parsedTime, expression),
+    };
+  }
+
+  /**
+   * Work out whether a parsed time should be checked with the user before saving
+   * Asks about AM vs PM, times already gone today, and lone numbers that may not be a time at all.
+   * A number is only questioned when there's other text around it ("call 5 people", not "7").
+   */
+  private timeConfirmationFor(parsedTime: ParsedDateTime, expression: string): TimeConfirmation | null {
+    const ambiguities = parsedTime.ambiguities.filter(
+      (ambiguity) => ambiguity.type !== 'bare_number' || ambiguity.raw.trim() !== expression.trim().toLowerCase()
+    );
+    const find = (type: DateTimeAmbiguity['type']) => ambiguities.find((ambiguity) => ambiguity.type === type);
+
+    const type = CONFIRMED_AMBIGUITIES.find((candidate) => find(candidate));
+    if (!type) {
+      return null;
+    }
+
+    // AM/PM alternatives are offered whatever the question is about ("call mom 7" = 7am, 7pm or not a time)
+    const meridiem = find('meridiem');
+    const recurrence = parsedTime.recurrence ?? null;
+
+    return {
+      type,
+      expression: find(type)!.raw,
+      options: [
+        { scheduledTime: parsedTime.scheduledTime.toISOString(), recurrence },
+        ...(meridiem?.alternatives || []).map((date, i) => ({
+          scheduledTime: date.toISOString(),
+          recurrence: meridiem?.recurrences?.[i] ?? recurrence,
+        })),
+      ],
+      token: Date.now().toString(36),
+    };
+  }
+
+  /**
+   * Ask which reading of an ambiguous time the user meant, with a button per option
+   * Users who write in Hindi or Hinglish are asked in Hinglish, so "subah" / "shaam" reads as a natural answer.
+   */
+  private async askToConfirmReminderTime(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    draft: ReminderDraft,
+    confirmation: TimeConfirmation,
+    inFlow: boolean,
+    language: PreferredLanguage
+  ): Promise<AgentResponse> {
+    const variables = {
+      TASK: draft.task!,
+      EXPRESSION: confirmation.expression,
+      TIME: this.dateTimeAgent.formatDateTime(new Date(confirmation.options[0].scheduledTime), timezone).toLowerCase(),
+    };
+    const question = language === 'en'
+      ? {
+        meridiem: this.messages.render('reminderConfirmMeridiem', variables),
+        bare_number: this.messages.render('reminderConfirmBareNumber', variables),
+        time_passed: this.messages.render('reminderConfirmTimePassed', variables),
+      }[confirmation.type]
+      : {
+        meridiem: this.messages.render('reminderConfirmMeridiemHinglish', variables),
+        bare_number: this.messages.render('reminderConfirmBareNumberHinglish', variables),
+        time_passed: this.messages.render('reminderConfirmTimePassedHinglish', variables),
+      }[confirmation.type];
+
+    const choices: MessageChoices = {
+      buttons: [
+        ...confirmation.options.map((option, i) => ({
+          id: InteractiveReply.encode('reminder_time', confirmation.token, i),
+          title: this.timeOptionLabel(option, timezone),
+        })),
+        {
+          id: InteractiveReply.encode('reminder_time', confirmation.token, 'other'),
+          title: this.messages.render(confirmation.type === 'bare_number' ? 'buttonNotATime' : 'buttonOtherTime'),
+        },
+      ],
+    };
+
+    return await this.askForReminderDetail(phoneNumber, userId, draft, 'confirmation', inFlow,
+      question, 'reminder_time_confirmation', choices);
+  }
+
+  /**
+   * Button title for a reading: "Tomorrow 7:00 AM", or just "7:00 PM" for repeating reminders
+   */
+  private timeOptionLabel(option: TimeConfirmation['options'][number], timezone: string): string {
+    const date = new Date(option.scheduledTime);
+    return option.recurrence
+      ? this.dateTimeAgent.formatTime(date, timezone)
+      : this.dateTimeAgent.formatDateTime(date, timezone).replace(' at ', ' ');
+  }
+
+  /**
+   * Read a typed answer to a time confirmation: "yes", "am" / "pm", "morning" / "evening", or "no"
+   *
+   * @returns Index of the chosen option, 'other' if none of them, or null if the message is something else
+   */
+  private readTimeChoice(message: string, confirmation: TimeConfirmation, timezone: string): number | 'other' | null {
+    const answer = message.trim().toLowerCase().replace(/[.!]+$/, '');
+
+    if (/^(y|yes|yep|yeah|yup|ok|okay|sure|correct|that'?s right|haan?|ha+|ji)$/.test(answer)) {
+      return 0;
+    }
+    if (/^(n|no|nope|nah|neither|not a time|nahi+n?|na)$/.test(answer)) {
+      return 'other';
+    }
+
+    const meridiem = /^(am|a\.m|morning|in the morning|subah)$/.test(answer)
+      ? 'AM'
+      : /^(pm|p\.m|afternoon|evening|night|in the (afternoon|evening)|dopahar|shaam|raat)$/.test(answer)
+        ? 'PM'
+        : null;
+    if (meridiem) {
+      const index = confirmation.options.findIndex((option) =>
+        this.dateTimeAgent.formatTime(new Date(option.scheduledTime), timezone).endsWith(meridiem)
+      );
+      return index >= 0 ? index : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle a tapped time confirmation button ("reminder_time:<token>:<option>")
+   */
+  private async handleReminderTimeChoice(context: AgentContext, reply: InteractiveReplyData): Promise<AgentResponse> {
+    const { user } = context;
+    const [token, choice] = InteractiveReply.decode(reply.id).args;
+    const draft = context.currentFlow === 'create_reminder' ? (context.flowData as ReminderDraft | undefined) : undefined;
+
+    const isCurrent =
+      draft?.confirmation?.token === token &&
+      Date.now() - new Date(draft.updatedAt).getTime() <= REMINDER_DRAFT_TIMEOUT_MS;
+
+    if (!draft || !isCurrent) {
+      if (draft?.confirmation?.token === token) {
+        await this.completeFlow(user.id);
       }
+      await this.sendMessage(user.phoneNumber, user.id, this.messages.render('reminderTimeChoiceExpired'), {
+        intent: 'reminder_time_choice_expired',
+      });
+      return { message: '' };
+    }
+
+    try {
+      return await this.confirmReminderTime(
+        user.phoneNumber,
+        user.id,
+        user.timezone,
+        draft,
+        choice === 'other' ? 'other' : parseInt(choice, 10)
+      );
+    } catch (error) {
+      logger.error({ userId: user.id, replyId: reply.id, error }, 'Failed to confirm reminder time');
+
+      await this.completeFlow(user.id);
+      await this.sendMessage(user.phoneNumber, user.id, this.messages.render('genericError'), { intent: 'error' });
+
+      return { message: '', flowComplete: true };
+    }
+  }
+
+  /**
+   * Save the reminder at the chosen reading, or ask for the time again if none was right
+   */
+  private async confirmReminderTime(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    draft: ReminderDraft,
+    choice: number | 'other'
+  ): Promise<AgentResponse> {
+    const option = choice === 'other' ? undefined : draft.confirmation?.options[choice];
+
+    if (!option) {
+      return await this.askForReminderDetail(phoneNumber, userId,
+        { ...draft, timeExpression: null, scheduledTime: null, recurrence: null, confirmation: null }, 'time', true,
+        this.messages.render('reminderTimeAskAgain', { TASK: draft.task || 'that' }), 'time_unclear');
+    }
+
+    return await this.advanceReminderDraft(phoneNumber, userId, timezone, {
+      ...draft,
+      ...option,
+      confirmation: null,
+    }, true);
+  }
+
+  /**
+   * Create a reminder, queue it and confirm to the user
+   */
+  private async scheduleReminder(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    reminderData: ReminderData
+  ): Promise<void> {
+    // Create reminder using ReminderAgent (storage)
+    const reminder = await this.reminderAgent.createReminder(reminderData);
+
+    // Schedule the reminder in the queue to be sent at the scheduled time
+    await this.reminderQueue.scheduleReminder(reminder, phoneNumber);
+    logger.info({ reminderId: reminder.id, scheduledTime: reminder.scheduledTime }, 'Reminder scheduled in queue');
+
+    // Format confirmation
+    const timeStr = this.dateTimeAgent.formatDateTime(reminderData.dueDatetime, timezone).toLowerCase();
+    const confirmMsg = reminderData.recurrence
+      ? this.messages.render('recurringConfirmationMessage', {
+          TASK: reminderData.task,
+          TIME: timeStr,
+          REPEAT: this.dateTimeAgent.describeRecurrence(reminderData.recurrence),
+        })
+      : this.messages.render('confirmationMessage', { TASK: reminderData.task, TIME: timeStr });
+
+    await this.sendMessage(phoneNumber, userId, confirmMsg, {
+      intent: 'reminder_created',
+      relatedId: reminder.id,
+    });
+  }
 
-      // Validate task
-      const task = extracted.task.trim();
-      if (!task || task.length === 0) {
+  /**
+   * Handle listing reminders
+   */
+  private async handleListReminders(
+    phoneNumber: string,
+    userId: string,
+    timezone: string
+  ): Promise<AgentResponse> {
+    try {
+      const reminders = await this.reminderAgent.getUpcomingReminders(userId);
+
+      if (reminders.length === 0) {
         await this.sendMessage(
           phoneNumber,
           userId,
-          `got the time, but what should I remind you about?`,
-          { intent: 'task_unclear' }
+          this.messages.render('noReminders'),
+          { intent: 'no_reminders' }
         );
         return { message: '' };
       }
 
-      // Create reminder using ReminderAgent (storage)
-      const reminderData: ReminderData = {
-        userId,
-        task,
-        dueDatetime: parsedTime.scheduledTime,
-        timezone: 'Asia/Kolkata',
-        originalInput: message,
-      };
-
-      const reminder = await this.reminderAgent.createReminder(reminderData);
-
-      // Schedule the reminder in the queue to be sent at the scheduled time
-      await this.reminderQueue.scheduleReminder(reminder, phoneNumber);
-      logger.info({ reminderId: reminder.id, scheduledTime: reminder.scheduledTime }, 'Reminder scheduled in queue');
+      // Format reminders list
+      const remindersList = this.formatReminderList(reminders, timezone);
 
-      // Format confirmation
-      const timeStr = this.dateTimeAgent.formatDateTime(parsedTime.scheduledTime);
-      const confirmMsg = `done. I'll remind you to ${task} ${timeStr.toLowerCase()}.`;
+      const listMsg = this.messages.render('reminderList', { LIST: remindersList });
 
-      await this.sendMessage(phoneNumber, userId, confirmMsg, {
-        intent: 'reminder_created',
-        relatedId: reminder.id,
+      await this.sendMessage(phoneNumber, userId, listMsg, {
+        intent: 'list_reminders',
       });
 
       return { message: '' };
     } catch (error) {
-      logger.error({ userId, error }, 'Failed to create reminder');
+      logger.error({ userId, error }, 'Failed to list reminders');
 
       await this.sendMessage(
         phoneNumber,
         userId,
-        `oops, something broke. mind trying that again?`,
+        this.messages.render('reminderListFailed'),
         { intent: 'error' }
       );
 
@@ -183,12 +884,14 @@ export class ConversationAgent extends BaseAgent implements IAgent {
   }
 
   /**
-   * Handle listing reminders
+   * Handle editing / rescheduling a reminder
+   * Target is found by list number ("reminder 2") or fuzzy text match ("the rent one")
    */
-  private async handleListReminders(
+  private async handleEditReminder(
     phoneNumber: string,
     userId: string,
-    _userName: string | null | undefined
+    timezone: string,
+    message: string
   ): Promise<AgentResponse> {
     try {
       const reminders = await this.reminderAgent.getUpcomingReminders(userId);
@@ -197,34 +900,134 @@ export class ConversationAgent extends BaseAgent implements IAgent {
         await this.sendMessage(
           phoneNumber,
           userId,
-          `you don't have any reminders pinned yet. want to set one?`,
+          this.messages.render('noRemindersToChange'),
           { intent: 'no_reminders' }
         );
         return { message: '' };
       }
 
-      // Format reminders list
-      const remindersList = reminders
-        .map((reminder, index) => {
-          const timeStr = this.dateTimeAgent.formatDateTime(reminder.scheduledTime);
-          return `${index + 1}. ${timeStr.toLowerCase()} - ${reminder.reminderText}`;
-        })
-        .join('\n');
+      const edit = await this.llmService.extractReminderEdit(message);
+      logger.info({ userId, edit }, 'Extracted reminder edit');
 
-      const listMsg = `here's what you've pinned:\n\n${remindersList}\n\nto cancel any, just say "delete reminder 1" (or whatever number).`;
+      // Find the target reminder
+      let target: Reminder | undefined;
 
-      await this.sendMessage(phoneNumber, userId, listMsg, {
-        intent: 'list_reminders',
+      if (edit.reminderNumber !== undefined) {
+        target = reminders[edit.reminderNumber - 1];
+        if (!target) {
+          await this.sendMessage(
+            phoneNumber,
+            userId,
+            this.messages.render('invalidReminderNumber', {
+              NUMBER: edit.reminderNumber,
+              COUNT: reminders.length,
+            }),
+            { intent: 'invalid_number' }
+          );
+          return { message: '' };
+        }
+      } else if (edit.reminderReference) {
+        const matches = await this.reminderAgent.findReminders(userId, {
+          searchText: edit.reminderReference,
+        });
+        target = matches[0];
+      }
+
+      if (!target) {
+        const remindersList = this.formatReminderList(reminders, timezone);
+        await this.sendMessage(
+          phoneNumber,
+          userId,
+          this.messages.render('askWhichReminderToChange', { LIST: remindersList }),
+          { intent: 'ask_which_reminder' }
+        );
+        return { message: '' };
+      }
+
+      // Work out the new time, if any
+      let newTime: Date | undefined;
+      let newRecurrence: string | undefined;
+
+      if (edit.timeExpression) {
+        const parsedTime = this.dateTimeAgent.parseDateTime(edit.timeExpression, timezone);
+
+        if (!parsedTime) {
+          await this.sendMessage(
+            phoneNumber,
+            userId,
+            this.messages.render('editTimeParsingFailed', { EXPRESSION: edit.timeExpression }),
+            { intent: 'time_parsing_failed' }
+          );
+          return { message: '' };
+        }
+
+        newTime = parsedTime.scheduledTime;
+        newRecurrence = parsedTime.recurrence;
+
+        if (!parsedTime.dateExpression && !parsedTime.recurrence && parsedTime.metadata) {
+          const { hours, minutes } = parsedTime.metadata;
+
+          // "move standup to 10am" moves the whole series, not just its next occurrence
+          const retimed = target.recurrence
+            ? this.dateTimeAgent.retimeRecurrence(target.recurrence, hours, minutes, target.scheduledTime, timezone)
+            : null;
+
+          if (retimed) {
+            newTime = retimed.nextTime;
+            newRecurrence = retimed.recurrence;
+          } else {
+            // "move it to 8pm" keeps the reminder's day when that's still ahead
+            const sameDay = this.dateTimeAgent.withTimeOfDay(target.scheduledTime, hours, minutes, timezone);
+            if (sameDay > new Date()) {
+              newTime = sameDay;
+            }
+          }
+        }
+      }
+
+      const newTask = edit.newTask?.trim() || undefined;
+
+      if (!newTime && !newTask) {
+        await this.sendMessage(
+          phoneNumber,
+          userId,
+          this.messages.render('editUnclear', { TASK: target.reminderText }),
+          { intent: 'edit_unclear', relatedId: target.id }
+        );
+        return { message: '' };
+      }
+
+      const updated = await this.reminderAgent.updateReminder(target.id, {
+        task: newTask,
+        dueDatetime: newTime,
+        recurrence: newRecurrence,
+      });
+
+      // Replace the queued job so it fires at the new time
+      await this.reminderQueue.rescheduleReminder(updated, phoneNumber);
+
+      const timeStr = this.dateTimeAgent.formatDateTime(updated.scheduledTime, timezone).toLowerCase();
+      const editMsg = updated.recurrence
+        ? this.messages.render('reminderUpdatedRecurring', {
+            TASK: updated.reminderText,
+            TIME: timeStr,
+            REPEAT: this.dateTimeAgent.describeRecurrence(updated.recurrence),
+          })
+        : this.messages.render('reminderUpdated', { TASK: updated.reminderText, TIME: timeStr });
+
+      await this.sendMessage(phoneNumber, userId, editMsg, {
+        intent: 'reminder_updated',
+        relatedId: updated.id,
       });
 
       return { message: '' };
     } catch (error) {
-      logger.error({ userId, error }, 'Failed to list reminders');
+      logger.error({ userId, error }, 'Failed to edit reminder');
 
       await this.sendMessage(
         phoneNumber,
         userId,
-        `couldn't fetch your reminders right now. try again?`,
+        this.messages.render('reminderUpdateFailed'),
         { intent: 'error' }
       );
 
@@ -232,13 +1035,52 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     }
   }
 
+  /**
+   * Format upcoming reminders as a numbered list
+   */
+  private formatReminderList(reminders: Reminder[], timezone: string): string {
+    return reminders
+      .map((reminder, index) => {
+        const timeStr = this.dateTimeAgent.formatDateTime(reminder.scheduledTime, timezone);
+        const repeats = reminder.recurrence
+          ? ` (repeats ${this.dateTimeAgent.describeRecurrence(reminder.recurrence)})`
+          : '';
+        const snoozes = reminder.snoozeCount > 0 ? ` (snoozed ${reminder.snoozeCount}x)` : '';
+        return `${index + 1}. ${timeStr.toLowerCase()} - ${reminder.reminderText}${repeats}${snoozes}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * List picker for choosing a reminder to cancel
+   * Only offered when every reminder fits in one list; otherwise the numbered text list is enough
+   */
+  private reminderPicker(reminders: Reminder[], timezone: string): MessageChoices | undefined {
+    if (reminders.length > 10) {
+      return undefined;
+    }
+
+    return {
+      buttonText: this.messages.render('reminderPickerButton'),
+      sections: [
+        {
+          rows: reminders.map((reminder) => ({
+            id: InteractiveReply.encode('reminder_cancel', reminder.id),
+            title: reminder.reminderText,
+            description: this.dateTimeAgent.formatDateTime(reminder.scheduledTime, timezone),
+          })),
+        },
+      ],
+    };
+  }
+
   /**
    * Handle deleting a reminder
    */
   private async handleDeleteReminder(
     phoneNumber: string,
     userId: string,
-    _userName: string | null | undefined,
+    timezone: string,
     message: string
   ): Promise<AgentResponse> {
     try {
@@ -253,23 +1095,19 @@ export class ConversationAgent extends BaseAgent implements IAgent {
           await this.sendMessage(
             phoneNumber,
             userId,
-            `you don't have any reminders to cancel.`,
+            this.messages.render('noRemindersToCancel'),
             { intent: 'no_reminders' }
           );
           return { message: '' };
         }
 
-        const remindersList = reminders
-          .map((reminder, index) => {
-            const timeStr = this.dateTimeAgent.formatDateTime(reminder.scheduledTime);
-            return `${index + 1}. ${timeStr.toLowerCase()} - ${reminder.reminderText}`;
-          })
-          .join('\n');
+        const remindersList = this.formatReminderList(reminders, timezone);
 
-        const askMsg = `which one should I cancel?\n\n${remindersList}\n\njust reply with the number, like "1" or "delete 2".`;
+        const askMsg = this.messages.render('askWhichReminderToCancel', { LIST: remindersList });
 
         await this.sendMessage(phoneNumber, userId, askMsg, {
           intent: 'ask_which_reminder',
+          choices: this.reminderPicker(reminders, timezone),
         });
 
         return { message: '' };
@@ -283,35 +1121,93 @@ export class ConversationAgent extends BaseAgent implements IAgent {
         await this.sendMessage(
           phoneNumber,
           userId,
-          `you don't have a reminder #${numbers[0]}. you've got ${reminders.length} reminder(s) total.`,
+          this.messages.render('invalidReminderNumber', { NUMBER: numbers[0], COUNT: reminders.length }),
           { intent: 'invalid_number' }
         );
         return { message: '' };
       }
 
-      // Delete the reminder
-      const reminder = reminders[index];
-      await this.reminderAgent.deleteReminder(reminder.id);
+      return await this.cancelReminder(phoneNumber, userId, reminders[index]);
+    } catch (error) {
+      logger.error({ userId, error}, 'Failed to delete reminder');
 
-      // Remove from queue if it was scheduled
-      await this.reminderQueue.cancelReminder(reminder.id);
-      logger.info({ reminderId: reminder.id }, 'Reminder cancelled and removed from queue');
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('reminderCancelFailed'),
+        { intent: 'error' }
+      );
 
-      const cancelMsg = `done. cancelled: "${reminder.reminderText}"`;
+      return { message: '' };
+    }
+  }
 
-      await this.sendMessage(phoneNumber, userId, cancelMsg, {
-        intent: 'reminder_cancelled',
-        relatedId: reminder.id,
-      });
+  /**
+   * Cancel a reminder and remove its queued job
+   */
+  private async cancelReminder(
+    phoneNumber: string,
+    userId: string,
+    reminder: Reminder
+  ): Promise<AgentResponse> {
+    await this.reminderAgent.deleteReminder(reminder.id);
+
+    // Remove from queue if it was scheduled
+    await this.reminderQueue.cancelReminder(reminder.id);
+    logger.info({ reminderId: reminder.id }, 'Reminder cancelled and removed from queue');
+
+    const cancelMsg = this.messages.render('reminderCancelled', { TASK: reminder.reminderText });
+
+    await this.sendMessage(phoneNumber, userId, cancelMsg, {
+      intent: 'reminder_cancelled',
+      relatedId: reminder.id,
+    });
+
+    return { message: '' };
+  }
+
+  /**
+   * Handle viewing or changing the user's timezone
+   * e.g. "set my timezone to Europe/London", "I'm in Dubai now", "what's my timezone?"
+   */
+  private async handleSetTimezone(
+    phoneNumber: string,
+    userId: string,
+    currentTimezone: string,
+    message: string
+  ): Promise<AgentResponse> {
+    const newTimezone = TimeService.resolveTimezone(message);
+
+    if (!newTimezone) {
+      const localTime = new TimeService(currentTimezone).formatTime(new Date());
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('timezoneInfo', { TIMEZONE: currentTimezone, TIME: localTime.toLowerCase() }),
+        { intent: 'timezone_info' }
+      );
+      return { message: '' };
+    }
+
+    try {
+      await this.userService.updateUser(userId, { timezone: newTimezone });
+
+      const localTime = new TimeService(newTimezone).formatTime(new Date());
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('timezoneUpdated', { TIMEZONE: newTimezone, TIME: localTime.toLowerCase() }),
+        { intent: 'timezone_updated' }
+      );
 
       return { message: '' };
     } catch (error) {
-      logger.error({ userId, error}, 'Failed to delete reminder');
+      logger.error({ userId, error }, 'Failed to update timezone');
 
       await this.sendMessage(
         phoneNumber,
         userId,
-        `couldn't cancel that reminder. try again?`,
+        this.messages.render('timezoneUpdateFailed'),
         { intent: 'error' }
       );
 
@@ -327,7 +1223,7 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     userId: string,
     _userName: string | null | undefined
   ): Promise<AgentResponse> {
-    const helpMsg = `here's what I can do:\n\n📌 *create reminders*\njust tell me like you'd text a friend:\n• "remind me at 7pm to call mom"\n• "tomorrow 10am - doctor appointment"\n• "pay rent on 15th"\n\n📋 *see what's pinned*\nsay "show my reminders" or "what all I have"\n\n❌ *cancel reminders*\nsay "cancel reminder 1" or "delete all"\n\njust chat naturally - I'll figure it out.`;
+    const helpMsg = this.messages.render('help');
 
     await this.sendMessage(phoneNumber, userId, helpMsg, {
       intent: 'help',
@@ -336,6 +1232,53 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     return { message: '' };
   }
 
+  /**
+   * Handle a request for a copy of the user's data
+   * Named datasets only ("export my expenses"); reminders and expenses when none are named.
+   * CSV sends a file per dataset, JSON ("as json") a single file.
+   */
+  private async handleExportData(phoneNumber: string, userId: string, message: string): Promise<AgentResponse> {
+    // "all" only widens what's named ("export all my expenses"); everything is sent only when asked for as such
+    const named = ExportService.DATASETS.filter((dataset) => EXPORT_DATASET_PATTERNS[dataset].test(message));
+    const everything = /\b(everything|all (?:of )?my data|all data)\b/i.test(message);
+    const datasets: ExportDataset[] = named.length > 0
+      ? named
+      : everything
+        ? ExportService.DATASETS
+        : ['reminders', 'expenses'];
+    const format: ExportFormat = /\bjson\b/i.test(message) ? 'json' : 'csv';
+    const datasetNames = datasets.join(' and ');
+
+    try {
+      const files = await this.exportService.exportUserData(userId, format, datasets);
+
+      if (files.every((file) => file.records === 0)) {
+        await this.sendMessage(phoneNumber, userId, this.messages.render('exportEmpty', { DATASETS: datasetNames }), {
+          intent: 'export_data',
+        });
+        return { message: '' };
+      }
+
+      for (const [index, file] of files.entries()) {
+        const caption = this.messages.render('exportCaption', {
+          DATASETS: format === 'json' ? datasetNames : datasets[index],
+          COUNT: String(file.records),
+        });
+        await this.sendDocument(phoneNumber, userId, file, caption, { intent: 'export_data' });
+      }
+
+      return { message: '' };
+    } catch (error) {
+      logger.error({ userId, error, datasets, format }, 'Failed to export user data');
+
+      await this.sendMessage(phoneNumber, userId, this.messages.render('exportFailed'), {
+        intent: 'error',
+      });
+
+      return { message: '', metadata: { error: 'export_failed' } };
+    }
+  }
+
   /**
    * Handle greeting
    */
@@ -344,14 +1287,7 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     userId: string,
     userName: string | null | undefined
   ): Promise<AgentResponse> {
-    const name = userName || 'there';
-    const responses = [
-      `hey ${name}! what can I pin for you?`,
-      `hi ${name}! need a reminder?`,
-      `yo ${name}! what shouldn't you forget today?`,
-    ];
-
-    const response = responses[Math.floor(Math.random() * responses.length)];
+    const response = this.messages.render('returningUserMessage', { NAME: userName || 'there' });
 
     await this.sendMessage(phoneNumber, userId, response, {
       intent: 'greeting',
@@ -364,13 +1300,7 @@ export class ConversationAgent extends BaseAgent implements IAgent {
    * Handle thanks
    */
   private async handleThanks(phoneNumber: string, userId: string): Promise<AgentResponse> {
-    const responses = [
-      `anytime! that's what I'm here for.`,
-      `you're welcome! need anything else pinned?`,
-      `no worries! I gotchu.`,
-    ];
-
-    const response = responses[Math.floor(Math.random() * responses.length)];
+    const response = this.messages.render('thanks');
 
     await this.sendMessage(phoneNumber, userId, response, {
       intent: 'thanks',
@@ -387,13 +1317,7 @@ export class ConversationAgent extends BaseAgent implements IAgent {
     userId: string,
     _message: string
   ): Promise<AgentResponse> {
-    const responses = [
-      `hmm, not sure what you mean. want to set a reminder? just tell me when and what, like "tomorrow at 3pm - call Rohan"`,
-      `didn't quite catch that. to set a reminder, just say something like "remind me at 7 to pay bills"`,
-      `not sure what you're asking. try:\n• "remind me tomorrow morning"\n• "list my reminders"\n• "help"`,
-    ];
-
-    const response = responses[Math.floor(Math.random() * responses.length)];
+    const response = this.messages.render('unclear');
 
     await this.sendMessage(phoneNumber, userId, response, {
       intent: 'unclear',
@@ -1,40 +1,33 @@
 import { AgentType, IAgent, AgentContext, AgentResponse } from '../types/agents';
 import { BaseAgent } from './base-agent';
+import { ParsedDateTime } from '../types';
 import { TimeService } from '../services/time.service';
-
-/**
- * Parsed DateTime Result
- */
-export interface ParsedDateTime {
-  scheduledTime: Date;
-  timeExpression: string;
-  dateExpression?: string;
-  confidence: number;
-  metadata?: {
-    hours: number;
-    minutes: number;
-    daysFromNow: number;
-  };
-}
+import { RecurrenceService } from '../services/recurrence.service';
+import { DateTimeParser } from '../utils/datetime-parser';
 
 /**
  * DateTime Agent
  *
  * Specialized agent for parsing and understanding date/time expressions:
  * - Parses natural language time expressions
- * - Handles relative dates (today, tomorrow, next week)
- * - Handles specific times (7pm, 14:30, morning)
- * - Returns structured DateTime objects
+ * - Handles relative dates (today, tomorrow, next friday, this weekend, in 3 days)
+ * - Handles absolute dates (15th march, 15/3, on the 3rd)
+ * - Handles specific times (7pm, 14:30, morning, noon) and relative ones (in 45 minutes)
+ * - Handles repeating schedules (every day, every monday, 1st of every month)
+ * - Returns structured DateTime objects, with a confidence and anything it had to guess
  * - Used by other agents for time-related operations
+ *
+ * The grammar itself lives in DateTimeParser (shared with ReminderParser).
  */
 export class DateTimeAgent extends BaseAgent implements IAgent {
   readonly type: AgentType = 'datetime';
   readonly name: string = 'DateTime Agent';
-  private timeService: TimeService;
+  private parsers: Map<string, DateTimeParser> = new Map();
+  private recurrenceService: RecurrenceService;
 
   constructor() {
     super();
-    this.timeService = new TimeService();
+    this.recurrenceService = new RecurrenceService();
   }
 
   /**
@@ -64,185 +57,86 @@ export class DateTimeAgent extends BaseAgent implements IAgent {
   /**
    * Parse a message and extract date/time information
    * This is the main method other agents should call
+   *
+   * @param message - Natural language time expression
+   * @param timezone - User's IANA timezone the expression is relative to
    */
-  parseDateTime(message: string): ParsedDateTime | null {
-    const lowerMessage = message.toLowerCase().trim();
-
-    // Extract time
-    const timeMatch = this.extractTime(lowerMessage);
-    if (!timeMatch) {
-      return null;
-    }
-
-    // Extract date
-    const dateMatch = this.extractDate(lowerMessage);
-
-    // Build the actual DateTime
-    const scheduledTime = this.buildDateTime(dateMatch, timeMatch);
-
-    return {
-      scheduledTime,
-      timeExpression: timeMatch.raw,
-      dateExpression: dateMatch?.raw,
-      confidence: 0.8,
-      metadata: {
-        hours: timeMatch.hours,
-        minutes: timeMatch.minutes,
-        daysFromNow: dateMatch?.daysFromNow || 0,
-      },
-    };
+  parseDateTime(message: string, timezone?: string): ParsedDateTime | null {
+    return this.getParser(timezone).parse(message);
   }
 
   /**
-   * Extract time from message
+   * Extract a duration in minutes ("10 min", "an hour", "half an hour", "1.5 hrs")
    */
-  private extractTime(
-    message: string
-  ): { hours: number; minutes: number; raw: string } | null {
-    // Pattern priorities:
-    // 1. 12-hour with AM/PM: 7pm, 7:30pm, 1pm, 12:30am
-    // 2. 24-hour format: 13:00, 14:30, 19:00, 20:15
-    // 3. Named times: morning, afternoon, evening, night
-    const timePatterns = [
-      /(\\d{1,2}):(\\d{2})\\s*(am|pm)/i, // 7:30pm, 1:15am
-      /(\\d{1,2})\\s*(am|pm)/i, // 7pm, 1am, 12pm
-      /\\b([0-2]?[0-9]):([0-5][0-9])\\b/, // 13:00, 14:30, 9:30
-      /\\b([01]?[0-9]|2[0-3])\\b/, // 13, 14, 20 (24-hour)
-      /(morning|afternoon|evening|night)/i,
-    ];
-
-    for (const pattern of timePatterns) {
-      const match = message.match(pattern);
-      if (match) {
-        const result = this.parseTimeMatch(match);
-        if (result && result.hours >= 0 && result.hours < 24) {
-          return result;
-        }
-      }
-    }
-
-    return null;
+  parseDuration(message: string): { minutes: number; raw: string } | null {
+    return this.getParser().parseDuration(message);
   }
 
   /**
-   * Parse a time match into hours and minutes
+   * Check if a message contains time-related information
    */
-  private parseTimeMatch(
-    match: RegExpMatchArray
-  ): { hours: number; minutes: number; raw: string } | null {
-    const raw = match[0];
-
-    // Named times
-    if (/morning/i.test(raw)) {
-      return { hours: 9, minutes: 0, raw };
-    }
-    if (/afternoon/i.test(raw)) {
-      return { hours: 14, minutes: 0, raw };
-    }
-    if (/evening/i.test(raw)) {
-      return { hours: 18, minutes: 0, raw };
-    }
-    if (/night/i.test(raw)) {
-      return { hours: 21, minutes: 0, raw };
-    }
-
-    let hours = parseInt(match[1], 10);
-    const minutes = match[2] ? parseInt(match[2], 10) : 0;
-    const meridiem = match[3]?.toLowerCase();
-
-    // Validate minutes
-    if (minutes < 0 || minutes > 59) {
-      return null;
-    }
-
-    // Handle 12-hour format with AM/PM
-    if (meridiem === 'pm' && hours < 12) {
-      hours += 12;
-    } else if (meridiem === 'am' && hours === 12) {
-      hours = 0;
-    }
-
-    // Validate hours
-    if (hours < 0 || hours > 23) {
-      return null;
-    }
-
-    return { hours, minutes, raw };
+  hasTimeExpression(message: string): boolean {
+    return this.getParser().hasTimeExpression(message);
   }
 
   /**
-   * Extract date from message
+   * Format a Date object to human-readable string in the user's timezone
    */
-  private extractDate(
-    message: string
-  ): { daysFromNow: number; raw: string } | null {
-    // Tomorrow
-    if (/tomorrow/i.test(message)) {
-      return { daysFromNow: 1, raw: 'tomorrow' };
-    }
-
-    // Today
-    if (/today/i.test(message)) {
-      return { daysFromNow: 0, raw: 'today' };
-    }
-
-    // Day after tomorrow
-    if (/day after tomorrow/i.test(message)) {
-      return { daysFromNow: 2, raw: 'day after tomorrow' };
-    }
-
-    // In N days
-    const inDaysMatch = message.match(/in (\\d+) days?/i);
-    if (inDaysMatch) {
-      const days = parseInt(inDaysMatch[1], 10);
-      return { daysFromNow: days, raw: inDaysMatch[0] };
-    }
-
-    // Default to today
-    return { daysFromNow: 0, raw: 'today' };
+  formatDateTime(date: Date, timezone?: string): string {
+    return this.getParser(timezone).timeService.formatDateTime(date);
   }
 
   /**
-   * Build a Date object from extracted date and time
+   * Format just the time of day in the user's timezone, e.g. "7:05 PM"
    */
-  private buildDateTime(
-    dateMatch: { daysFromNow: number } | null,
-    timeMatch: { hours: number; minutes: number }
-  ): Date {
-    // Determine how many days from now
-    let daysFromNow = 0;
+  formatTime(date: Date, timezone?: string): string {
+    return this.getParser(timezone).timeService.formatTime(date);
+  }
 
-    if (dateMatch && dateMatch.daysFromNow > 0) {
-      // Explicit "tomorrow" or other future date
-      daysFromNow = dateMatch.daysFromNow;
-    } else if (!dateMatch || dateMatch.daysFromNow === 0) {
-      // Check if time is in the past for today
-      if (this.timeService.isTimeInPastToday(timeMatch.hours, timeMatch.minutes)) {
-        // If time has passed today, schedule for tomorrow
-        daysFromNow = 1;
-      }
-    }
+  /**
+   * Move a date to a different time of day, keeping its calendar day in the user's timezone
+   */
+  withTimeOfDay(date: Date, hours: number, minutes: number, timezone?: string): Date {
+    const timeService = this.getParser(timezone).timeService;
+    const parts = timeService.getComponents(date);
+    return timeService.createDateTimeOn(parts.year, parts.month, parts.day, hours, minutes);
+  }
 
-    // Use TimeService to create the proper date
-    return this.timeService.createKolkataDateTime(
-      timeMatch.hours,
-      timeMatch.minutes,
-      daysFromNow
-    );
+  /**
+   * Move a repeating schedule to a new time of day, along with its next occurrence
+   *
+   * @param anchor - An occurrence of the current schedule, so "every 2 weeks" keeps its weeks
+   * @returns null if the rule can't be read
+   */
+  retimeRecurrence(
+    rrule: string,
+    hours: number,
+    minutes: number,
+    anchor: Date,
+    timezone?: string
+  ): { recurrence: string; nextTime: Date } | null {
+    const recurrenceService = new RecurrenceService(this.getParser(timezone).timeService);
+    const recurrence = recurrenceService.withTime(rrule, hours, minutes);
+    const nextTime = recurrence && recurrenceService.getNextOccurrence(recurrence, new Date(), anchor);
+    return recurrence && nextTime ? { recurrence, nextTime } : null;
   }
 
   /**
-   * Check if a message contains time-related information
+   * Describe a repeating schedule, e.g. "every monday"
    */
-  hasTimeExpression(message: string): boolean {
-    const lowerMessage = message.toLowerCase();
-    return this.extractTime(lowerMessage) !== null;
+  describeRecurrence(rrule: string): string {
+    return this.recurrenceService.describe(rrule);
   }
 
   /**
-   * Format a Date object to human-readable string
+   * Get the parser for a timezone (cached - agents are shared across users)
    */
-  formatDateTime(date: Date): string {
-    return this.timeService.formatKolkataDateTime(date);
+  private getParser(timezone: string = TimeService.DEFAULT_TIMEZONE): DateTimeParser {
+    let parser = this.parsers.get(timezone);
+    if (!parser) {
+      parser = new DateTimeParser(timezone);
+      this.parsers.set(timezone, parser);
+    }
+    return parser;
   }
 }
@@ -73,7 +73,7 @@ export class OnboardingAgent extends BaseAgent implements IAgent {
     logger.info({ userId }, 'Starting onboarding flow');
 
     // Simple intro and ask for name in one message
-    const greetingMsg = `hey, I'm Pin Me – your WhatsApp reminder buddy.\n\nwhat should I call you?`;
+    const greetingMsg = this.messages.render('greetingMessage');
 
     await this.sendMessage(phoneNumber, userId, greetingMsg, {
       intent: 'onboarding_start',
@@ -105,7 +105,7 @@ export class OnboardingAgent extends BaseAgent implements IAgent {
       await this.sendMessage(
         phoneNumber,
         userId,
-        "I promise I'm not your HR. just tell me your name 😄",
+        this.messages.render('onboardingNameTooShort'),
         { intent: 'onboarding_name_retry' }
       );
       return { message: '', flowComplete: false };
@@ -115,7 +115,7 @@ export class OnboardingAgent extends BaseAgent implements IAgent {
       await this.sendMessage(
         phoneNumber,
         userId,
-        "that's... quite the name. maybe just give me the short version?",
+        this.messages.render('onboardingNameTooLong'),
         { intent: 'onboarding_name_retry' }
       );
       return { message: '', flowComplete: false };
@@ -125,7 +125,7 @@ export class OnboardingAgent extends BaseAgent implements IAgent {
     const nameTease = this.generateNameTease(firstName);
 
     // Send pun + brief explanation
-    const confirmMsg = `${nameTease}\n\nalright ${firstName}, just tell me what you don't want to forget and I'll pin it for you.`;
+    const confirmMsg = this.messages.render('onboardingComplete', { TEASE: nameTease, NAME: firstName });
 
     await this.sendMessage(phoneNumber, userId, confirmMsg, {
       intent: 'onboarding_complete',
@@ -200,44 +200,20 @@ export class OnboardingAgent extends BaseAgent implements IAgent {
     // Common Indian names - light, friendly teasing
     const commonIndianNames = ['raj', 'amit', 'priya', 'rahul', 'anjali', 'vikram', 'neha', 'rohit', 'arjun', 'yash', 'riya', 'aarav'];
     if (commonIndianNames.some(n => lowerName.startsWith(n))) {
-      const teases = [
-        "nice. your parents definitely didn't overthink that one 😄",
-        "solid name. your parents clearly speedran the baby-naming process.",
-        "elite default setting for Indian kids 😂",
-        "classic choice. your parents went with the crowd favourite.",
-        "huh. sounds like someone with way too many pending tasks already.",
-      ];
-      return teases[Math.floor(Math.random() * teases.length)];
+      return this.messages.render('nameTeaseCommon');
     }
 
     // Power/strong sounding names
     if (/^(vikram|arjun|rohan|aditya|karan)/i.test(lowerName)) {
-      const powerTeases = [
-        "such a power name. sounds like someone who's always late to meetings.",
-        "nice. that's main-character energy right there.",
-        "sounds like you're about to star in a Bollywood movie or forget your keys. probably both.",
-      ];
-      return powerTeases[Math.floor(Math.random() * powerTeases.length)];
+      return this.messages.render('nameTeasePower');
     }
 
     // Soft/elegant names
     if (/^(priya|kavya|anjali|riya|sara|isha)/i.test(lowerName)) {
-      const elegantTeases = [
-        "such a strong main-character name, I love it.",
-        "nice. sounds like someone who has their life together. let's fix that illusion.",
-        "elegant choice. your parents clearly had good taste.",
-      ];
-      return elegantTeases[Math.floor(Math.random() * elegantTeases.length)];
+      return this.messages.render('nameTeaseElegant');
     }
 
     // Default - generic light teasing
-    const genericTeases = [
-      "cool name. I'll try not to forget it like you forget everything else.",
-      "nice! sounds like someone who definitely needs a reminder app.",
-      "solid choice. your parents clearly thought that through.",
-      "I like it! now let's make sure you remember stuff for once.",
-      "huh. sounds like you've got your hands full already.",
-    ];
-    return genericTeases[Math.floor(Math.random() * genericTeases.length)];
+    return this.messages.render('nameTeaseGeneric');
   }
 }
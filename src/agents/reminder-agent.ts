@@ -1,4 +1,5 @@
 import { ReminderService } from '../services/reminder.service';
+import { ReminderStatus } from '../types';
 import { logger } from '../config/logger';
 
 /**
@@ -39,10 +40,10 @@ export class ReminderAgent {
       userId: data.userId,
       reminderText: data.task,
       scheduledTime: data.dueDatetime,
+      recurrence: data.recurrence,
       metadata: {
         originalMessage: data.originalInput,
         timezone: data.timezone,
-        recurrence: data.recurrence,
       },
     });
 
@@ -69,7 +70,28 @@ export class ReminderAgent {
     searchText?: string;
   }) {
     logger.info({ userId, filters }, 'Finding reminders');
-    return await this.reminderService.getUpcomingReminders(userId);
+
+    let reminders = filters?.status
+      ? await this.reminderService.getUserReminders(userId, filters.status as ReminderStatus)
+      : await this.reminderService.getUpcomingReminders(userId);
+
+    if (filters?.dateFrom) {
+      reminders = reminders.filter(r => r.scheduledTime >= filters.dateFrom!);
+    }
+    if (filters?.dateTo) {
+      reminders = reminders.filter(r => r.scheduledTime <= filters.dateTo!);
+    }
+
+    if (filters?.searchText) {
+      // Fuzzy match: best word overlap first, non-matches dropped
+      const scored = reminders
+        .map(reminder => ({ reminder, score: this.matchScore(filters.searchText!, reminder.reminderText) }))
+        .filter(item => item.score > 0)
+        .sort((a, b) => b.score - a.score);
+      reminders = scored.map(item => item.reminder);
+    }
+
+    return reminders;
   }
 
   /**
@@ -89,13 +111,13 @@ export class ReminderAgent {
     }
 
     if (updates.recurrence !== undefined) {
-      updateData.metadata = { recurrence: updates.recurrence };
+      updateData.recurrence = updates.recurrence;
     }
 
-    // Note: ReminderService might need an updateReminder method
-    // For now, we'll return null if not implemented
-    logger.warn('Update reminder not fully implemented in ReminderService');
-    return null;
+    const reminder = await this.reminderService.updateReminder(reminderId, updateData);
+
+    logger.info({ reminderId }, 'Reminder updated successfully');
+    return reminder;
   }
 
   /**
@@ -107,6 +129,22 @@ export class ReminderAgent {
     return { success: true };
   }
 
+  /**
+   * Snooze a reminder until the given time
+   */
+  async snoozeReminder(reminderId: string, until: Date) {
+    logger.info({ reminderId, until }, 'Snoozing reminder');
+    return await this.reminderService.snoozeReminder(reminderId, until);
+  }
+
+  /**
+   * Mark a reminder as done
+   */
+  async completeReminder(reminderId: string) {
+    logger.info({ reminderId }, 'Completing reminder');
+    return await this.reminderService.markAsCompleted(reminderId);
+  }
+
   /**
    * Get due reminders (for scheduler)
    * @param now - Current timestamp
@@ -125,4 +163,32 @@ export class ReminderAgent {
     logger.info({ userId }, 'Getting upcoming reminders');
     return await this.reminderService.getUpcomingReminders(userId);
   }
+
+  /**
+   * Score how well a search phrase matches reminder text (0 = no match)
+   * Words match on a shared 3-letter prefix, so "meds" matches "medicine"
+   */
+  private matchScore(searchText: string, reminderText: string): number {
+    const stopWords = new Set(['the', 'a', 'an', 'one', 'reminder', 'about', 'for', 'to', 'my', 'of']);
+    const tokenize = (text: string) =>
+      text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 1 && !stopWords.has(w));
+
+    const searchWords = tokenize(searchText);
+    const reminderWords = tokenize(reminderText);
+    if (searchWords.length === 0) {
+      return 0;
+    }
+
+    const sharedPrefix = (a: string, b: string) => {
+      let i = 0;
+      while (i < a.length && i < b.length && a[i] === b[i]) i++;
+      return i;
+    };
+
+    const matched = searchWords.filter(word =>
+      reminderWords.some(rw => sharedPrefix(word, rw) >= Math.min(3, word.length, rw.length))
+    );
+
+    return matched.length / searchWords.length;
+  }
 }
@@ -1,37 +1,178 @@
-import { AgentType, IAgent, AgentContext, AgentResponse } from '../types/agents';
+import { AgentType, IAgent, AgentContext, AgentResponse, MessageChoices } from '../types/agents';
 import { BaseAgent } from './base-agent';
-import { getPrismaClient } from '../config/database';
+import { ExpenseService } from '../services/expense.service';
+import { ExpenseGroupService } from '../services/expense-group.service';
+import { UserService } from '../services/user.service';
+import { LLMService } from '../services/llm.service';
+import { ExpenseGroupWithMembers } from '../repositories/expense-group.repository';
+import { ExpenseWithParticipants } from '../repositories/expense.repository';
 import { logger } from '../config/logger';
-import { Decimal } from '@prisma/client/runtime/library';
+import { InteractiveReply } from '../utils/interactive-reply';
+import { ExpenseSplit } from '../utils/expense-split';
+import { Repayment } from '../utils/repayment';
+import { ExpenseChange, ExpenseReference, ParsedExpenseChange } from '../utils/expense-change';
+import { Money } from '../utils/money';
+import { ExpenseCategory } from '../utils/expense-category';
+import { Upi, UpiPayee } from '../utils/upi';
+import {
+  Balance,
+  InteractiveReplyData,
+  ParticipantShare,
+  SplitEntry,
+  SpendingSummary,
+  SplitError,
+  Transfer,
+  UpdateExpenseInput,
+} from '../types';
+import { MessageKey } from '../config/message-templates';
+import { User } from '@prisma/client';
+
+/**
+ * Message explaining why a split doesn't work, by what was wrong with it
+ */
+const SPLIT_ERROR_MESSAGES: Record<SplitError, MessageKey> = {
+  over_total: 'expenseSplitOverTotal',
+  under_total: 'expenseSplitUnderTotal',
+  percent_total: 'expenseSplitPercentTotal',
+  ratio_mismatch: 'expenseSplitRatioMismatch',
+  too_few_people: 'expenseCountInvalid',
+};
+
+// "who owes me?", "what do I owe", "balances", "settle up"
+const BALANCES_PATTERN = /\b(who\s+owes|owes?\s+me|do\s+i\s+owe|i\s+owe|balances?|settle[\s-]?up)\b/i;
+
+// "how much did I spend this month?", "last month's spending", "monthly summary"
+const SPENDING_PATTERN = /\b(how\s+much\s+(did|have)\s+(i|we)\s+spen[dt]|what\s+did\s+(i|we)\s+spend|spending|monthly\s+(summary|report))\b/i;
+
+// "my UPI ID is yash@okhdfc", "what's my upi id", "remove my upi" (not "paid via upi")
+const UPI_PATTERN = /\b(my\s+upi|upi\s+id)\b/i;
+
+/**
+ * Which side of the ledger someone asked about
+ */
+type BalancesView = 'owed_to_you' | 'you_owe' | 'settle_up';
+
+// "create group flatmates with Rahul, Priya and Amit", "new group Goa trip: Rahul, Priya"
+const CREATE_GROUP = /^(?:create|make|start|new)\s+(?:a\s+)?(?:new\s+)?group\s+(?:called\s+|named\s+)?(.+?)(?:\s*(?:\bwith\b|:)\s*(.+))?$/i;
+
+// "add Neha to flatmates", "add Neha and Ravi to the goa trip group"
+const ADD_TO_GROUP = /^add\s+(.+?)\s+to\s+(?:the\s+)?(?:group\s+)?(.+)$/i;
+
+// "archive goa trip", "close the goa trip group"
+const ARCHIVE_GROUP = /^(?:archive|close|end)\s+(?:the\s+)?(?:group\s+)?(.+)$/i;
+
+// "my groups", "show groups"
+const LIST_GROUPS = /^(?:list|show|view|my)\s+(?:my\s+)?(?:expense\s+)?groups?$/i;
+
+type GroupCommand =
+  | { action: 'create'; name: string; members: string[] }
+  | { action: 'add'; name: string; members: string[] }
+  | { action: 'archive'; name: string }
+  | { action: 'list' };
+
+// How many recent expenses "show my expenses" lists; "expense 2" is a number in this list
+const EXPENSE_LIST_LIMIT = 10;
+
+// Answers to "delete this expense?"
+const YES_PATTERN = /^(y|yes|yeah|yep|yup|sure|ok(ay)?|confirm|go ahead|do it|haa?n)\b/i;
+const NO_PATTERN = /^(n|no|nope|nah|don'?t|keep( it)?|cancel|stop|never\s*mind|nahi)\b/i;
+
+/**
+ * Intents that can still be an answer while a split is being collected; anything else means the user moved on
+ */
+const EXPENSE_FLOW_CONTINUING_INTENTS = ['split_expense', 'unclear'];
+
+/**
+ * A fix to an expense, waiting for the user to confirm it (flow data of the expense_change flow)
+ */
+interface PendingExpenseChange {
+  expenseId: string;
+  action: 'delete' | 'edit';
+  amount?: number;
+  currency?: string;
+  description?: string;
+}
+
+/**
+ * An expense being put together, before the split is worked out
+ */
+interface ExpenseDraft {
+  amount: number;
+  currency: string;
+  description: string;
+  paidBy: string;
+  groupId?: string;
+}
 
 /**
  * Splitwise Agent
  *
  * Handles expense tracking and bill splitting:
- * - Parse expense amounts from messages
- * - Multi-turn flow for collecting participants
- * - Calculate equal splits
- * - Store and list expenses
+ * - Parse expense amounts from messages, in any of a few currencies
+ * - Read splits given in the message ("Rahul owes 600, rest split equally", "60/40 with Priya")
+ * - Multi-turn flow for collecting participants when they aren't named
+ * - Calculate equal, exact, percentage and share-based splits
+ * - Store, list, fix and delete expenses (after the user confirms the change)
+ * - Sort expenses into categories and sum up a month's spending against the month before
+ * - Track who paid and repayments, answer "who owes me?" and work out how to settle up
+ * - Save the user's UPI ID and add upi://pay links for friends who owe them
+ * - Named groups of people ("split 2400 with flatmates"), with their own balances
  */
 export class SplitwiseAgent extends BaseAgent implements IAgent {
   readonly type: AgentType = 'splitwise';
   readonly name: string = 'Splitwise Agent';
-  private prisma = getPrismaClient();
+  private expenseService: ExpenseService;
+  private groupService: ExpenseGroupService;
+  private userService: UserService;
+  private llmService: LLMService;
+
+  constructor() {
+    super();
+    this.expenseService = new ExpenseService();
+    this.groupService = new ExpenseGroupService();
+    this.userService = new UserService();
+    this.llmService = new LLMService();
+  }
 
   /**
    * Check if this agent should handle the message
+   * Trusts the router's intent detection; keyword rules are only a fallback
    */
   async canHandle(context: AgentContext): Promise<boolean> {
+    if (context.interactiveReply) {
+      return InteractiveReply.decode(context.interactiveReply.id).action.startsWith('expense_');
+    }
+
+    if (context.detectedIntent && context.detectedIntent.intent !== 'unclear') {
+      return this.isExpenseIntent(context);
+    }
+
     const message = context.message.toLowerCase().trim();
 
     // Explicit expense commands
-    if (/^(split|expense|spent|paid|bill)/i.test(message)) {
+    if (/^(i\s+)?(split|expense|spent|paid|bill)/i.test(message)) {
+      return true;
+    }
+
+    // Balances, repayments, fixes to expenses, spending summaries and the user's UPI ID
+    if (
+      BALANCES_PATTERN.test(message) ||
+      UPI_PATTERN.test(message) ||
+      Repayment.parse(message) ||
+      ExpenseChange.parse(message) ||
+      SPENDING_PATTERN.test(message)
+    ) {
+      return true;
+    }
+
+    // Group commands that say "group" ("archive goa trip" on its own needs the intent)
+    if (/\bgroups?\b/i.test(message) && this.parseGroupCommand(message)) {
       return true;
     }
 
     // Currency patterns
     if (
-      /(₹|rs\.?|rupees?)\s*\d+|\\d+\s*(₹|rs\.?|rupees?)/i.test(message) ||
+      this.extractAmount(message)?.currency ||
       (/\d{2,}/.test(message) && /(spent|paid|cost|bill|dinner|lunch|food)/i.test(message))
     ) {
       return true;
@@ -48,18 +189,101 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
 
     logger.info({ userId: user.id, flow: currentFlow }, 'Splitwise agent processing');
 
+    // Tapped "Delete" / "Keep as is" on a pending change
+    if (context.interactiveReply) {
+      return await this.handleChangeReply(context, context.interactiveReply);
+    }
+
+    // Pending change - waiting for a yes or no
+    if (currentFlow === 'expense_change' && flowData) {
+      return await this.confirmExpenseChange(user.phoneNumber, user.id, message, flowData as PendingExpenseChange);
+    }
+
+    // Active flow - let the user back out before anything else
+    if (currentFlow === 'split_expense' && /^(cancel|stop|never\s*mind|forget it)\b/i.test(message.trim())) {
+      await this.completeFlow(user.id);
+      await this.sendMessage(user.phoneNumber, user.id, this.messages.render('expenseCancelled'), {
+        intent: 'expense_cancelled',
+      });
+      return { message: '', flowComplete: true };
+    }
+
+    // Save, show or remove the UPI ID friends pay the user at
+    if (context.detectedIntent?.intent === 'upi_id' || UPI_PATTERN.test(message)) {
+      return await this.handleUpiId(user, message);
+    }
+
+    // Groups: create, add people, list, archive
+    const groupCommand = this.parseGroupCommand(message);
+    if (groupCommand || context.detectedIntent?.intent === 'expense_group') {
+      return await this.handleGroupCommand(user.phoneNumber, user.id, groupCommand ?? { action: 'list' }, user.name);
+    }
+
+    // Fix or delete an expense
+    const change = ExpenseChange.parse(message);
+    if (
+      change ||
+      context.detectedIntent?.intent === 'edit_expense' ||
+      context.detectedIntent?.intent === 'delete_expense'
+    ) {
+      return await this.requestExpenseChange(user.phoneNumber, user.id, change);
+    }
+
+    // Monthly spending ("how much did I spend this month?") - unless the message is recording an expense
+    if (
+      context.detectedIntent?.intent === 'expense_summary' ||
+      (!context.detectedIntent && SPENDING_PATTERN.test(message) && !this.extractAmount(message))
+    ) {
+      return await this.showSpending(user.phoneNumber, user.id, user.timezone, message);
+    }
+
     // List expenses
-    if (/^(list|show|view|my)\s*(expenses?|bills?)/i.test(message.toLowerCase())) {
+    if (
+      context.detectedIntent?.intent === 'list_expenses' ||
+      /^(list|show|view|my)\s*(expenses?|bills?)/i.test(message.toLowerCase())
+    ) {
       return await this.listExpenses(user.phoneNumber, user.id);
     }
 
+    // Who owes whom
+    if (
+      context.detectedIntent?.intent === 'expense_balances' ||
+      (!context.detectedIntent && BALANCES_PATTERN.test(message))
+    ) {
+      const upiId = UserService.getUpiId(user);
+      return await this.showBalances(user.phoneNumber, user.id, message, upiId ? { upiId, name: user.name } : null);
+    }
+
+    // Money paid back
+    if (Repayment.parse(message) || context.detectedIntent?.intent === 'record_repayment') {
+      return await this.recordRepayment(user.phoneNumber, user.id, message);
+    }
+
     // Active flow - collecting participant data
     if (currentFlow === 'split_expense') {
-      return await this.handleExpenseFlow(user.phoneNumber, user.id, message, flowData);
+      return await this.handleExpenseFlow(context);
     }
 
     // New expense - start flow
-    return await this.startExpenseFlow(user.phoneNumber, user.id, message);
+    return await this.startExpenseFlow(user.phoneNumber, user.id, message, user.name);
+  }
+
+  /**
+   * Whether the router classified the message as an expense intent
+   */
+  private isExpenseIntent(context: AgentContext): boolean {
+    const intent = context.detectedIntent?.intent;
+    return (
+      intent === 'split_expense' ||
+      intent === 'list_expenses' ||
+      intent === 'edit_expense' ||
+      intent === 'delete_expense' ||
+      intent === 'expense_summary' ||
+      intent === 'expense_balances' ||
+      intent === 'record_repayment' ||
+      intent === 'expense_group' ||
+      intent === 'upi_id'
+    );
   }
 
   /**
@@ -75,16 +299,17 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
   private async startExpenseFlow(
     phoneNumber: string,
     userId: string,
-    message: string
+    message: string,
+    userName: string | null
   ): Promise<AgentResponse> {
     // Extract amount
-    const amount = this.extractAmount(message);
+    const money = this.extractAmount(message);
 
-    if (!amount) {
+    if (!money) {
       await this.sendMessage(
         phoneNumber,
         userId,
-        "I couldn't find an amount in your message. How much was spent? (e.g., '₹1200' or 'Rs. 500')",
+        this.messages.render('expenseAmountUnclear'),
         { intent: 'expense_amount_unclear' }
       );
       return {
@@ -93,26 +318,48 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
       };
     }
 
-    // Extract description (remove amount patterns)
-    let description = message
-      .replace(/₹\s*\d+/g, '')
-      .replace(/rs\.?\s*\d+/gi, '')
-      .replace(/\d+\s*(₹|rs\.?|rupees?)/gi, '')
-      .replace(/^(split|expense|spent|paid|bill)\s*/i, '')
-      .trim();
+    // A group stands in for its members: "split 2400 with flatmates"
+    const group = await this.mentionedGroup(userId, message, false);
+    const text = group ? this.withGroupMembers(message, group) : message;
+
+    // Everyone named in the message ("split 2400 60/40 with Priya") - no need to ask
+    const split = ExpenseSplit.parse(text);
+    const [{ name: paidBy }] = this.withSender([{ name: split.payer, type: 'equal' }], userName);
+    const draft: ExpenseDraft = {
+      amount: money.amount,
+      currency: money.currency || Money.DEFAULT_CURRENCY,
+      description: this.describeExpense(split.unparsed.join(', '), money.raw),
+      paidBy,
+      ...(group && { groupId: group.id }),
+    };
+
+    let entries = this.withSender(split.entries, userName);
+    if (group && !entries.some((entry) => entry.name !== ExpenseSplit.YOU && entry.name !== paidBy)) {
+      // "Rahul paid 1500 for goa trip" - nobody else named, so it's everyone in the group
+      entries = [ExpenseSplit.YOU, ...group.members.map((member) => member.name)].map(
+        (name): SplitEntry => ({ name, type: 'equal' })
+      );
+    }
 
-    if (!description) {
-      description = 'Expense';
+    if (split.error) {
+      return await this.askForSplit(phoneNumber, userId, draft, split.error, 0, false);
     }
+    if (entries.length >= 2) {
+      return await this.createSplitExpense(phoneNumber, userId, draft, entries, false);
+    }
+
+    const { amount, currency, description } = draft;
 
     // Start flow
     await this.startFlow(userId, 'split_expense', {
-      amount,
-      description,
+      ...draft,
       originalMessage: message,
     });
 
-    const askMsg = `Got it! ₹${amount} for "${description}".\n\nHow many people are splitting this? (including you)`;
+    const askMsg = this.messages.render('expenseAskCount', {
+      AMOUNT: Money.format(amount, currency),
+      DESCRIPTION: description,
+    });
 
     await this.sendMessage(phoneNumber, userId, askMsg, {
       intent: 'expense_ask_count',
@@ -126,28 +373,34 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
 
   /**
    * Handle expense flow steps
+   * An answer that doesn't fit the step is checked for being a different request before asking again.
    */
-  private async handleExpenseFlow(
-    phoneNumber: string,
-    userId: string,
-    message: string,
-    flowData?: Record<string, any>
-  ): Promise<AgentResponse> {
+  private async handleExpenseFlow(context: AgentContext): Promise<AgentResponse> {
+    const { user, message, flowData } = context;
+    const { phoneNumber, id: userId, name: userName } = user;
+
     if (!flowData) {
       return { message: 'Flow data missing' };
     }
 
-    const { amount, description, participantCount, participantNames } = flowData;
+    const { amount, description, participantCount, awaitingSplit } = flowData;
+    const paidBy: string = flowData.paidBy || ExpenseSplit.YOU;
+    const currency: string = flowData.currency || Money.DEFAULT_CURRENCY;
+    const draft: ExpenseDraft = { amount, currency, description, paidBy, groupId: flowData.groupId };
 
-    // Step 1: Collect participant count
-    if (!participantCount) {
+    // Step 1: Collect participant count (skipped once we're asking for the split itself)
+    if (!participantCount && !awaitingSplit) {
       const count = parseInt(message.trim(), 10);
 
       if (isNaN(count) || count < 2) {
+        if (await this.leaveExpenseFlow(context)) {
+          return { message: '', reroute: true };
+        }
+
         await this.sendMessage(
           phoneNumber,
           userId,
-          "Please enter a valid number of people (at least 2).",
+          this.messages.render('expenseCountInvalid'),
           { intent: 'expense_count_invalid' }
         );
         return { message: '', flowComplete: false };
@@ -157,7 +410,7 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
         await this.sendMessage(
           phoneNumber,
           userId,
-          "That's a lot of people! Let's keep it under 20 for now.",
+          this.messages.render('expenseCountTooHigh'),
           { intent: 'expense_count_too_high' }
         );
         return { message: '', flowComplete: false };
@@ -165,7 +418,10 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
 
       await this.updateFlowData(userId, { participantCount: count });
 
-      const askNamesMsg = `Perfect! ${count} people splitting ₹${amount}.\n\nPlease send me the names, one per line:\n\nExample:\nYash\nRohit\nPriya`;
+      const askNamesMsg = this.messages.render('expenseAskNames', {
+        COUNT: count,
+        AMOUNT: Money.format(amount, currency),
+      });
 
       await this.sendMessage(phoneNumber, userId, askNamesMsg, {
         intent: 'expense_ask_names',
@@ -174,48 +430,111 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
       return { message: '', flowComplete: false };
     }
 
-    // Step 2: Collect participant names
-    if (!participantNames) {
-      const names = message
-        .split('\n')
-        .map((name) => name.trim())
-        .filter((name) => name.length > 0);
+    // Step 2: Collect participant names, each optionally with an amount, percentage or shares
+    const entries = this.withSender(ExpenseSplit.parseLines(message), userName);
+
+    if (!awaitingSplit && entries.length !== participantCount) {
+      if (await this.leaveExpenseFlow(context)) {
+        return { message: '', reroute: true };
+      }
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseNamesMismatch', { EXPECTED: participantCount, RECEIVED: entries.length }),
+        { intent: 'expense_names_count_mismatch' }
+      );
+      return { message: '', flowComplete: false };
+    }
+
+    // Validate names
+    for (const { name } of entries) {
+      if (name.length < 2 || name.length > 30) {
+        if (await this.leaveExpenseFlow(context)) {
+          return { message: '', reroute: true };
+        }
 
-      if (names.length !== participantCount) {
         await this.sendMessage(
           phoneNumber,
           userId,
-          `I need exactly ${participantCount} names. You sent ${names.length}. Please send them again, one per line.`,
-          { intent: 'expense_names_count_mismatch' }
+          this.messages.render('expenseNameInvalid', { NAME: name }),
+          { intent: 'expense_names_invalid' }
         );
         return { message: '', flowComplete: false };
       }
+    }
 
-      // Validate names
-      for (const name of names) {
-        if (name.length < 2 || name.length > 30) {
-          await this.sendMessage(
-            phoneNumber,
-            userId,
-            `"${name}" doesn't look like a valid name. Please send the names again.`,
-            { intent: 'expense_names_invalid' }
-          );
-          return { message: '', flowComplete: false };
-        }
-      }
+    // Calculate and create expense
+    return await this.createSplitExpense(phoneNumber, userId, draft, entries, true);
+  }
 
-      await this.updateFlowData(userId, { participantNames: names });
+  /**
+   * Drop the split flow if the message is a different request ("remind me to call mom at 5pm"),
+   * so it can be routed again. The intent is kept on the context for that second routing.
+   */
+  private async leaveExpenseFlow(context: AgentContext): Promise<boolean> {
+    const recentMessages = context.conversationHistory?.slice(-5).map((m) => m.messageText) || [];
+    context.detectedIntent = await this.llmService.detectIntent(context.message, recentMessages);
 
-      // Calculate and create expense
-      return await this.createExpense(phoneNumber, userId, {
-        amount,
-        description,
-        participantCount,
-        participantNames: names,
-      });
+    if (EXPENSE_FLOW_CONTINUING_INTENTS.includes(context.detectedIntent.intent)) {
+      return false;
+    }
+
+    logger.info({ userId: context.user.id, intent: context.detectedIntent.intent }, 'Expense flow abandoned');
+    await this.completeFlow(context.user.id);
+    return true;
+  }
+
+  /**
+   * Work out the split and save the expense, or explain what's wrong with the split and ask again
+   */
+  private async createSplitExpense(
+    phoneNumber: string,
+    userId: string,
+    expense: ExpenseDraft,
+    entries: SplitEntry[],
+    inFlow: boolean
+  ): Promise<AgentResponse> {
+    const allocation = ExpenseSplit.allocate(expense.amount, entries);
+    if (!allocation.success) {
+      return await this.askForSplit(phoneNumber, userId, expense, allocation.error, allocation.allocated, inFlow);
+    }
+
+    return await this.createExpense(phoneNumber, userId, { ...expense, shares: allocation.shares }, inFlow);
+  }
+
+  /**
+   * Say why a split doesn't add up and wait for the participants again, one per line
+   */
+  private async askForSplit(
+    phoneNumber: string,
+    userId: string,
+    expense: ExpenseDraft,
+    error: SplitError,
+    allocated: number,
+    inFlow: boolean
+  ): Promise<AgentResponse> {
+    logger.info({ userId, amount: expense.amount, error, allocated }, 'Expense split does not add up');
+
+    if (inFlow) {
+      await this.updateFlowData(userId, { awaitingSplit: true });
+    } else {
+      await this.startFlow(userId, 'split_expense', { ...expense, awaitingSplit: true });
     }
 
-    return { message: 'Unexpected flow state' };
+    await this.sendMessage(
+      phoneNumber,
+      userId,
+      this.messages.render(SPLIT_ERROR_MESSAGES[error], {
+        AMOUNT: Money.format(expense.amount, expense.currency),
+        ALLOCATED: Money.format(allocated, expense.currency),
+        REMAINING: Money.format(expense.amount - allocated, expense.currency),
+        PERCENT: Math.round((allocated / expense.amount) * 10000) / 100,
+      }),
+      { intent: 'expense_split_invalid' }
+    );
+
+    return { message: '', flowComplete: false };
   }
 
   /**
@@ -224,41 +543,48 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
   private async createExpense(
     phoneNumber: string,
     userId: string,
-    data: {
-      amount: number;
-      description: string;
-      participantCount: number;
-      participantNames: string[];
-    }
+    data: ExpenseDraft & { shares: ParticipantShare[] },
+    inFlow: boolean
   ): Promise<AgentResponse> {
-    const { amount, description, participantNames } = data;
-    const perPersonShare = amount / participantNames.length;
+    const { amount, currency, description, paidBy, groupId, shares } = data;
+    const isEqual = ExpenseSplit.isEqual(shares);
 
     try {
       // Create expense with participants
-      const expense = await this.prisma.expense.create({
-        data: {
-          userId,
-          totalAmount: new Decimal(amount),
-          description,
-          participants: {
-            create: participantNames.map((name) => ({
-              name,
-              share: new Decimal(perPersonShare.toFixed(2)),
-            })),
-          },
-        },
-        include: {
-          participants: true,
-        },
+      const expense = await this.expenseService.createExpense({
+        userId,
+        totalAmount: amount,
+        currency,
+        description,
+        paidBy,
+        participants: shares,
+        groupId,
       });
 
       // Format confirmation
-      const participantsList = participantNames
-        .map((name) => `• ${name}: ₹${perPersonShare.toFixed(2)}`)
+      const participantsList = shares
+        .map(
+          (participant) =>
+            `• ${participant.name}: ${Money.format(participant.amount, currency)}${this.describeSplit(participant)}`
+        )
         .join('\n');
 
-      const confirmMsg = `✅ Expense recorded!\n\n💰 Total: ₹${amount}\n📝 ${description}\n\nSplit among ${participantNames.length} people:\n${participantsList}\n\nEach person pays ₹${perPersonShare.toFixed(2)}`;
+      const confirmMsg = isEqual
+        ? this.messages.render('expenseCreated', {
+            AMOUNT: Money.format(amount, currency),
+            DESCRIPTION: description,
+            PAYER: paidBy,
+            COUNT: shares.length,
+            PARTICIPANTS: participantsList,
+            SHARE: Money.format(amount / shares.length, currency),
+          })
+        : this.messages.render('expenseCreatedSplit', {
+            AMOUNT: Money.format(amount, currency),
+            DESCRIPTION: description,
+            PAYER: paidBy,
+            COUNT: shares.length,
+            PARTICIPANTS: participantsList,
+          });
 
       await this.sendMessage(phoneNumber, userId, confirmMsg, {
         intent: 'expense_created',
@@ -266,17 +592,20 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
       });
 
       // Complete flow
-      await this.completeFlow(userId);
+      if (inFlow) {
+        await this.completeFlow(userId);
+      }
 
-      logger.info({ userId, expenseId: expense.id, amount }, 'Expense created');
+      logger.info({ userId, expenseId: expense.id, amount, currency, paidBy, isEqual }, 'Expense created');
 
       return {
         message: '',
-        flowComplete: true,
+        flowComplete: inFlow,
         metadata: {
           expenseId: expense.id,
           amount,
-          perPersonShare,
+          currency,
+          shares,
         },
       };
     } catch (error) {
@@ -285,57 +614,69 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
       await this.sendMessage(
         phoneNumber,
         userId,
-        "Oops! Something went wrong saving the expense. Please try again.",
+        this.messages.render('expenseCreateFailed'),
         { intent: 'expense_error' }
       );
 
-      await this.completeFlow(userId);
+      if (inFlow) {
+        await this.completeFlow(userId);
+      }
 
       return {
         message: '',
-        flowComplete: true,
+        flowComplete: inFlow,
         metadata: { error: 'creation_failed' },
       };
     }
   }
 
   /**
-   * List recent expenses
+   * What an expense was for, from the parts of the message that weren't the amount or the split
+   */
+  private describeExpense(text: string, amountText: string): string {
+    const description = text
+      .replace(amountText, '')
+      .replace(/^(i\s+|[a-z][a-z.-]*\s+(?=paid\b))?(split|expense|spent|paid|bill)\s*/i, '')
+      .replace(/^[\s,;:-]+|[\s,;:-]+$/g, '')
+      .trim();
+
+    return description || 'Expense';
+  }
+
+  /**
+   * How a participant's part was given, e.g. " (40%)" or " (2 shares)"; empty for equal and exact parts
+   */
+  private describeSplit(participant: SplitEntry): string {
+    if (participant.type === 'percentage') {
+      return ` (${participant.value}%)`;
+    }
+    if (participant.type === 'shares') {
+      return ` (${participant.value} ${participant.value === 1 ? 'share' : 'shares'})`;
+    }
+    return '';
+  }
+
+  /**
+   * List recent expenses, numbered so they can be changed ("delete expense 2")
    */
   private async listExpenses(phoneNumber: string, userId: string): Promise<AgentResponse> {
     try {
-      const expenses = await this.prisma.expense.findMany({
-        where: { userId },
-        include: { participants: true },
-        orderBy: { createdAt: 'desc' },
-        take: 10,
-      });
+      const expenses = await this.listedExpenses(userId);
 
       if (expenses.length === 0) {
         await this.sendMessage(
           phoneNumber,
           userId,
-          "You haven't recorded any expenses yet. Want to split a bill?",
+          this.messages.render('expenseListEmpty'),
           { intent: 'expense_list_empty' }
         );
         return { message: '' };
       }
 
-      // Format expenses list
-      const expensesList = expenses
-        .map((expense, index) => {
-          const date = expense.createdAt.toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-          });
-          const participantCount = expense.participants.length;
-          const perPerson = Number(expense.totalAmount) / participantCount;
-
-          return `${index + 1}. ${date} - ₹${expense.totalAmount}\n   ${expense.description || 'Expense'}\n   ${participantCount} people × ₹${perPerson.toFixed(2)} each`;
-        })
-        .join('\n\n');
+      // Format expenses list, one section per currency
+      const expensesList = this.byCurrency(expenses, (expense, index) => this.formatExpense(expense, index), '\n\n');
 
-      const listMsg = `💰 Your recent expenses:\n\n${expensesList}`;
+      const listMsg = this.messages.render('expenseList', { LIST: expensesList });
 
       await this.sendMessage(phoneNumber, userId, listMsg, {
         intent: 'expense_list',
@@ -348,7 +689,7 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
       await this.sendMessage(
         phoneNumber,
         userId,
-        "Sorry, I couldn't fetch your expenses right now. Please try again.",
+        this.messages.render('expenseListFailed'),
         { intent: 'expense_list_error' }
       );
 
@@ -358,4 +699,929 @@ export class SplitwiseAgent extends BaseAgent implements IAgent {
       };
     }
   }
+
+  /**
+   * The recent expenses in the order "show my expenses" numbers them: newest first, a currency at a time
+   */
+  private async listedExpenses(userId: string): Promise<ExpenseWithParticipants[]> {
+    const expenses = await this.expenseService.getUserExpenses(userId, EXPENSE_LIST_LIMIT);
+    const currencies = [...new Set(expenses.map((expense) => expense.currency))];
+    return currencies.flatMap((currency) => expenses.filter((expense) => expense.currency === currency));
+  }
+
+  /**
+   * One numbered expense: date, total and payer, then what it was for, then the split
+   */
+  private formatExpense(expense: ExpenseWithParticipants, index: number): string {
+    const date = expense.createdAt.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+    });
+    const participantCount = expense.participants.length;
+    const perPerson = Number(expense.totalAmount) / participantCount;
+    const isEqual = expense.participants.every((participant) => participant.splitType === 'equal');
+    const split = isEqual
+      ? `${participantCount} people × ${Money.format(perPerson, expense.currency)} each`
+      : expense.participants
+          .map((participant) => `${participant.name} ${Money.format(Number(participant.share), expense.currency)}`)
+          .join(', ');
+
+    const paidBy = expense.paidBy === ExpenseSplit.YOU ? '' : ` (paid by ${expense.paidBy})`;
+    const total = Money.format(Number(expense.totalAmount), expense.currency);
+
+    const group = expense.group ? ` · ${expense.group.name}` : '';
+    const [emoji] = ExpenseCategory.label(ExpenseService.categoryOf(expense)).split(' ');
+
+    const description = `${emoji} ${expense.description || 'Expense'}${group}`;
+
+    return `${index + 1}. ${date} - ${total}${paidBy}\n   ${description}\n   ${split}`;
+  }
+
+  /**
+   * Work out which expense a fix or delete is about and what would change, then ask before doing it
+   */
+  private async requestExpenseChange(
+    phoneNumber: string,
+    userId: string,
+    change: ParsedExpenseChange | null
+  ): Promise<AgentResponse> {
+    try {
+      const expenses = await this.listedExpenses(userId);
+
+      if (expenses.length === 0) {
+        await this.sendMessage(phoneNumber, userId, this.messages.render('expenseNoneToChange'), {
+          intent: 'expense_change_none',
+        });
+        return { message: '' };
+      }
+
+      if (!change) {
+        await this.sendMessage(
+          phoneNumber,
+          userId,
+          this.messages.render('expenseChangeUnclear', {
+            LIST: this.byCurrency(expenses, (expense, index) => this.formatExpense(expense, index), '\n\n'),
+          }),
+          { intent: 'expense_change_unclear' }
+        );
+        return { message: '', metadata: { error: 'change_unclear' } };
+      }
+
+      const found = this.findExpense(expenses, change.expense);
+      if (!found.expense) {
+        const search = 'search' in change.expense ? change.expense.search : '';
+        const reply =
+          'index' in change.expense
+            ? this.messages.render('expenseNumberInvalid', { NUMBER: change.expense.index, COUNT: expenses.length })
+            : found.matches.length === 0
+              ? this.messages.render('expenseNotFound', { SEARCH: search })
+              : this.messages.render('expenseChangeWhich', {
+                  SEARCH: search,
+                  LIST: found.matches
+                    .map((match) => this.formatExpense(match, expenses.indexOf(match)))
+                    .join('\n\n'),
+                  NUMBER: expenses.indexOf(found.matches[0]) + 1,
+                });
+
+        await this.sendMessage(phoneNumber, userId, reply, { intent: 'expense_change_not_found' });
+        return { message: '', metadata: { error: 'expense_not_found' } };
+      }
+
+      const expense = found.expense;
+      const number = expenses.indexOf(expense);
+      const pending: PendingExpenseChange = { expenseId: expense.id, action: change.action };
+
+      let question: string;
+      if (change.action === 'delete') {
+        question = this.messages.render('expenseDeleteConfirm', { EXPENSE: this.formatExpense(expense, number) });
+      } else {
+        const changes: string[] = [];
+
+        if (change.amount) {
+          const { amount } = change.amount;
+          const currency = change.amount.currency || expense.currency;
+          const allocation = ExpenseService.resplit(expense.participants, amount);
+          if (!allocation.success) {
+            return await this.explainResplit(phoneNumber, userId, expense, amount, currency, allocation.allocated);
+          }
+
+          // "💰 ₹1200.00 → ₹1800.00", then each person's old and new share
+          const was = (value: unknown) => Money.format(Number(value), expense.currency);
+          Object.assign(pending, { amount, currency });
+          changes.push(
+            `💰 ${was(expense.totalAmount)} → ${Money.format(amount, currency)}`,
+            ...allocation.shares.map(
+              (share, i) =>
+                `• ${share.name}: ${was(expense.participants[i].share)} → ${Money.format(share.amount, currency)}`
+            )
+          );
+        }
+
+        if (change.description) {
+          pending.description = change.description;
+          changes.push(`📝 "${expense.description || 'Expense'}" → "${change.description}"`);
+        }
+
+        question = this.messages.render('expenseEditConfirm', {
+          EXPENSE: this.formatExpense(expense, number),
+          CHANGES: changes.join('\n'),
+        });
+      }
+
+      await this.startFlow(userId, 'expense_change', { ...pending });
+      await this.sendMessage(phoneNumber, userId, question, {
+        intent: `expense_${change.action}_confirm`,
+        relatedId: expense.id,
+        choices: this.changeChoices(pending),
+      });
+
+      return { message: '', flowComplete: false, metadata: { expenseId: expense.id, action: change.action } };
+    } catch (error) {
+      logger.error({ userId, error }, 'Failed to look up expense to change');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseChangeFailed'),
+        { intent: 'expense_error' }
+      );
+
+      return {
+        message: '',
+        metadata: { error: 'change_failed' },
+      };
+    }
+  }
+
+  /**
+   * The listed expense a reference points at
+   * A description can match more than one; an exact match wins, otherwise all of them come back.
+   */
+  private findExpense(
+    expenses: ExpenseWithParticipants[],
+    reference: ExpenseReference
+  ): { expense?: ExpenseWithParticipants; matches: ExpenseWithParticipants[] } {
+    if ('index' in reference) {
+      const expense = expenses[reference.index - 1];
+      return { expense, matches: expense ? [expense] : [] };
+    }
+
+    if ('last' in reference) {
+      const [latest] = [...expenses].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      return { expense: latest, matches: [latest] };
+    }
+
+    const search = reference.search.toLowerCase();
+    const matches = expenses.filter((expense) => (expense.description || '').toLowerCase().includes(search));
+    const exact = matches.filter((expense) => (expense.description || '').toLowerCase() === search);
+
+    if (matches.length === 1 || exact.length === 1) {
+      return { expense: exact[0] || matches[0], matches };
+    }
+    return { matches };
+  }
+
+  /**
+   * Say why a new total doesn't work with how the expense was split
+   */
+  private async explainResplit(
+    phoneNumber: string,
+    userId: string,
+    expense: ExpenseWithParticipants,
+    amount: number,
+    currency: string,
+    allocated: number
+  ): Promise<AgentResponse> {
+    await this.sendMessage(
+      phoneNumber,
+      userId,
+      this.messages.render('expenseEditSplitInvalid', {
+        DESCRIPTION: expense.description || 'Expense',
+        AMOUNT: Money.format(amount, currency),
+        ALLOCATED: Money.format(allocated, currency),
+      }),
+      { intent: 'expense_split_invalid', relatedId: expense.id }
+    );
+
+    return { message: '', metadata: { error: 'split_invalid' } };
+  }
+
+  /**
+   * Read a typed answer to a pending change; anything but yes or no asks again
+   */
+  private async confirmExpenseChange(
+    phoneNumber: string,
+    userId: string,
+    message: string,
+    pending: PendingExpenseChange
+  ): Promise<AgentResponse> {
+    const answer = message.trim();
+
+    if (YES_PATTERN.test(answer)) {
+      return await this.applyExpenseChange(phoneNumber, userId, pending, true);
+    }
+    if (NO_PATTERN.test(answer)) {
+      return await this.applyExpenseChange(phoneNumber, userId, pending, false);
+    }
+
+    await this.sendMessage(phoneNumber, userId, this.messages.render('expenseChangeConfirmAgain'), {
+      intent: 'expense_change_confirm_again',
+      relatedId: pending.expenseId,
+      choices: this.changeChoices(pending),
+    });
+
+    return { message: '', flowComplete: false };
+  }
+
+  /**
+   * Handle a tapped confirmation button ("expense_change:<expenseId>:yes")
+   * Only the change still waiting to be confirmed can be applied; older buttons have expired.
+   */
+  private async handleChangeReply(context: AgentContext, reply: InteractiveReplyData): Promise<AgentResponse> {
+    const { user, currentFlow, flowData } = context;
+    const { action, args } = InteractiveReply.decode(reply.id);
+    const [expenseId, choice] = args;
+    const pending = currentFlow === 'expense_change' ? (flowData as PendingExpenseChange | undefined) : undefined;
+
+    if (action !== 'expense_change' || !pending || pending.expenseId !== expenseId) {
+      logger.info({ userId: user.id, replyId: reply.id }, 'Expense change reply has expired');
+
+      await this.sendMessage(user.phoneNumber, user.id, this.messages.render('expenseChangeExpired'), {
+        intent: 'expense_change_expired',
+      });
+      return { message: '' };
+    }
+
+    return await this.applyExpenseChange(user.phoneNumber, user.id, pending, choice === 'yes');
+  }
+
+  /**
+   * Delete or update the expense once the user has said yes
+   * Balances are worked out from the stored expenses, so a new total always comes with new shares.
+   */
+  private async applyExpenseChange(
+    phoneNumber: string,
+    userId: string,
+    pending: PendingExpenseChange,
+    confirmed: boolean
+  ): Promise<AgentResponse> {
+    await this.completeFlow(userId);
+
+    if (!confirmed) {
+      await this.sendMessage(phoneNumber, userId, this.messages.render('expenseChangeKept'), {
+        intent: 'expense_change_kept',
+        relatedId: pending.expenseId,
+      });
+      return { message: '', flowComplete: true };
+    }
+
+    try {
+      const expense = await this.expenseService.getExpense(pending.expenseId);
+      if (!expense || expense.userId !== userId) {
+        await this.sendMessage(phoneNumber, userId, this.messages.render('expenseChangeExpired'), {
+          intent: 'expense_change_expired',
+        });
+        return { message: '', flowComplete: true };
+      }
+
+      if (pending.action === 'delete') {
+        await this.expenseService.deleteExpense(expense.id);
+
+        await this.sendMessage(
+          phoneNumber,
+          userId,
+          this.messages.render('expenseDeleted', {
+            DESCRIPTION: expense.description || 'Expense',
+            AMOUNT: Money.format(Number(expense.totalAmount), expense.currency),
+          }),
+          { intent: 'expense_deleted', relatedId: expense.id }
+        );
+
+        logger.info({ userId, expenseId: expense.id }, 'Expense deleted');
+        return { message: '', flowComplete: true, metadata: { expenseId: expense.id, action: 'delete' } };
+      }
+
+      const update: UpdateExpenseInput = {};
+      if (pending.amount !== undefined) {
+        const currency = pending.currency || expense.currency;
+        const allocation = ExpenseService.resplit(expense.participants, pending.amount);
+        if (!allocation.success) {
+          await this.explainResplit(phoneNumber, userId, expense, pending.amount, currency, allocation.allocated);
+          return { message: '', flowComplete: true, metadata: { error: 'split_invalid' } };
+        }
+        Object.assign(update, { totalAmount: pending.amount, currency, participants: allocation.shares });
+      }
+      if (pending.description) {
+        update.description = pending.description;
+      }
+
+      const updated = await this.expenseService.updateExpense(expense.id, update);
+
+      const expenses = await this.listedExpenses(userId);
+      const number = expenses.findIndex((listed) => listed.id === updated.id);
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseUpdated', { EXPENSE: this.formatExpense(updated, Math.max(number, 0)) }),
+        { intent: 'expense_updated', relatedId: updated.id }
+      );
+
+      logger.info({ userId, expenseId: updated.id, ...update }, 'Expense updated');
+      return { message: '', flowComplete: true, metadata: { expenseId: updated.id, action: 'edit' } };
+    } catch (error) {
+      logger.error({ userId, error, expenseId: pending.expenseId }, 'Failed to change expense');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseChangeFailed'),
+        { intent: 'expense_error' }
+      );
+
+      return {
+        message: '',
+        flowComplete: true,
+        metadata: { error: 'change_failed' },
+      };
+    }
+  }
+
+  /**
+   * "Delete" / "Save change" and "Keep as is" buttons for a pending change
+   */
+  private changeChoices(pending: PendingExpenseChange): MessageChoices {
+    return {
+      buttons: [
+        {
+          id: InteractiveReply.encode('expense_change', pending.expenseId, 'yes'),
+          title: this.messages.render(pending.action === 'delete' ? 'buttonDeleteExpense' : 'buttonSaveExpenseChange'),
+        },
+        {
+          id: InteractiveReply.encode('expense_change', pending.expenseId, 'no'),
+          title: this.messages.render('buttonKeepExpense'),
+        },
+      ],
+    };
+  }
+
+  /**
+   * This month's (or last month's) spending by category and person, against the month before
+   */
+  private async showSpending(
+    phoneNumber: string,
+    userId: string,
+    timezone: string,
+    message: string
+  ): Promise<AgentResponse> {
+    const monthsAgo = /\b(last|previous)\s+month\b/i.test(message) ? 1 : 0;
+
+    try {
+      const spending = await this.expenseService.getMonthlySpending(userId, timezone, monthsAgo);
+
+      const reply =
+        spending.current.length === 0
+          ? this.messages.render('expenseSpendingNone', { MONTH: spending.month })
+          : this.messages.render('expenseSpendingSummary', {
+              MONTH: spending.month,
+              SUMMARY: spending.current
+                .map((summary) =>
+                  this.formatSpending(
+                    summary,
+                    spending.previous.find((previous) => previous.currency === summary.currency),
+                    spending.previousMonth,
+                    spending.current.length > 1
+                  )
+                )
+                .join('\n\n'),
+            });
+
+      await this.sendMessage(phoneNumber, userId, reply, { intent: 'expense_summary' });
+
+      return { message: '', metadata: { month: spending.month, currencies: spending.current.length } };
+    } catch (error) {
+      logger.error({ userId, error }, 'Failed to sum up spending');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseSpendingFailed'),
+        { intent: 'expense_summary_error' }
+      );
+
+      return {
+        message: '',
+        metadata: { error: 'summary_failed' },
+      };
+    }
+  }
+
+  /**
+   * One currency's spending: the user's share against last month, then categories and people
+   */
+  private formatSpending(
+    summary: SpendingSummary,
+    previous: SpendingSummary | undefined,
+    previousMonth: string,
+    withHeading: boolean
+  ): string {
+    const format = (amount: number) => Money.format(amount, summary.currency);
+
+    const lastTime = previous
+      ? this.messages.render('expenseSpendingCompared', {
+          MONTH: previousMonth,
+          AMOUNT: format(previous.yourShare),
+          CHANGE: this.describeChange(summary.yourShare, previous.yourShare, (amount) => `${Math.round(amount)}%`, true),
+        })
+      : this.messages.render('expenseSpendingNoPrevious', { MONTH: previousMonth });
+
+    const categories = summary.byCategory.map(({ category, amount }) => {
+      const before = previous?.byCategory.find((item) => item.category === category)?.amount ?? 0;
+      const change = this.describeChange(amount, before, format, false);
+      return `${ExpenseCategory.label(category)}: ${format(amount)} (${change})`;
+    });
+    const people = summary.byParticipant.map(({ name, amount }) => `• ${name}: ${format(amount)}`);
+
+    return [
+      ...(withHeading ? [`*${summary.currency}*`] : []),
+      this.messages.render('expenseSpendingTotals', {
+        SHARE: format(summary.yourShare),
+        TOTAL: format(summary.total),
+        COUNT: summary.expenseCount,
+      }),
+      lastTime,
+      '',
+      ...(categories.length > 0 ? ['*By category*', ...categories, ''] : []),
+      '*By person*',
+      ...people,
+    ].join('\n');
+  }
+
+  /**
+   * "▲ 25%" / "▼ ₹300.00" against an earlier amount; "new" when there was nothing before
+   */
+  private describeChange(
+    now: number,
+    before: number,
+    format: (amount: number) => string,
+    asPercent: boolean
+  ): string {
+    if (before === 0) {
+      return 'new';
+    }
+    const difference = now - before;
+    if (Math.round(difference * 100) === 0) {
+      return 'same';
+    }
+    const size = asPercent ? (Math.abs(difference) / before) * 100 : Math.abs(difference);
+    return `${difference > 0 ? '▲' : '▼'} ${format(size)}`;
+  }
+
+  /**
+   * Which side of the ledger the message asks about; the whole settle-up unless it's clearly one side
+   */
+  private balancesView(message: string): BalancesView {
+    if (/\b(who\s+owes|owes?\s+me)\b/i.test(message)) {
+      return 'owed_to_you';
+    }
+    if (/\b(do\s+i\s+owe|i\s+owe)\b/i.test(message)) {
+      return 'you_owe';
+    }
+    return 'settle_up';
+  }
+
+  /**
+   * Show who owes the user, what the user owes, or the payments that settle everyone up
+   * Only counts one group's expenses when the message names a group ("goa trip balances").
+   * Rupee payments to the user get a UPI link when they've saved a UPI ID, and a nudge to save one when not.
+   */
+  private async showBalances(
+    phoneNumber: string,
+    userId: string,
+    message: string,
+    payee: UpiPayee | null
+  ): Promise<AgentResponse> {
+    const view = this.balancesView(message);
+
+    try {
+      const group = await this.mentionedGroup(userId, message, true);
+      const transfers = group
+        ? await this.expenseService.getGroupSettleUp(group.id)
+        : await this.expenseService.getSettleUp(userId);
+      const note = group
+        ? this.messages.render('upiNoteGroup', { GROUP: group.name })
+        : this.messages.render('upiNote');
+      const payLink = (transfer: Transfer) => (payee ? this.payLink(transfer, payee, note) : '');
+
+      let reply: string;
+      if (view === 'owed_to_you') {
+        const owed = transfers.filter((transfer) => transfer.to === ExpenseSplit.YOU);
+        reply = owed.length === 0
+          ? this.messages.render('expenseNobodyOwesYou')
+          : this.messages.render('expenseOwedToYou', {
+              LIST: this.byCurrency(
+                owed,
+                (transfer) => `• ${transfer.from}: ${this.formatTransfer(transfer)}${payLink(transfer)}`
+              ),
+              TOTAL: this.totalOf(owed),
+            });
+      } else if (view === 'you_owe') {
+        const owing = transfers.filter((transfer) => transfer.from === ExpenseSplit.YOU);
+        reply = owing.length === 0
+          ? this.messages.render('expenseYouOweNothing')
+          : this.messages.render('expenseYouOwe', {
+              LIST: this.byCurrency(owing, (transfer) => `• ${transfer.to}: ${this.formatTransfer(transfer)}`),
+              TOTAL: this.totalOf(owing),
+            });
+      } else {
+        reply = transfers.length === 0
+          ? this.messages.render('expenseAllSettled')
+          : this.messages.render('expenseSettleUp', {
+              LIST: this.byCurrency(
+                transfers,
+                (transfer) =>
+                  `• ${transfer.from} → ${transfer.to}: ${this.formatTransfer(transfer)}${payLink(transfer)}`
+              ),
+            });
+      }
+
+      if (group) {
+        reply = this.messages.render('expenseGroupBalances', { NAME: group.name, BALANCES: reply });
+      }
+
+      if (!payee && view !== 'you_owe' && transfers.some((transfer) => this.isUpiPayable(transfer))) {
+        reply = `${reply}\n\n${this.messages.render('upiLinkHint')}`;
+      }
+
+      await this.sendMessage(phoneNumber, userId, reply, { intent: 'expense_balances', relatedId: group?.id });
+
+      return { message: '', metadata: { view, transfers, groupId: group?.id } };
+    } catch (error) {
+      logger.error({ userId, error }, 'Failed to work out balances');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseBalancesFailed'),
+        { intent: 'expense_balances_error' }
+      );
+
+      return {
+        message: '',
+        metadata: { error: 'balances_failed' },
+      };
+    }
+  }
+
+  /**
+   * Rupees owed to the user can be paid over UPI
+   */
+  private isUpiPayable(transfer: Transfer): boolean {
+    return transfer.to === ExpenseSplit.YOU && transfer.currency === Upi.CURRENCY;
+  }
+
+  /**
+   * "↳ tap to pay: upi://pay?..." under a payment to the user; nothing for anyone else's
+   */
+  private payLink(transfer: Transfer, payee: UpiPayee, note: string): string {
+    if (!this.isUpiPayable(transfer)) {
+      return '';
+    }
+
+    const link = Upi.paymentLink({ payee, amount: transfer.amount, note });
+    return `\n${this.messages.render('upiPayLink', { LINK: link })}`;
+  }
+
+  /**
+   * Save, show or remove the user's UPI ID ("my UPI ID is yash@okhdfc", "remove my upi id")
+   */
+  private async handleUpiId(user: User, message: string): Promise<AgentResponse> {
+    const current = UserService.getUpiId(user);
+    const upiId = Upi.find(message);
+    const removing = !upiId && /\b(remove|delete|clear|forget)\b/i.test(message);
+    const setting =
+      !upiId && /\b(is|set|save|update|change|add)\b/i.test(message) && !/\bwhat'?s?\b/i.test(message);
+
+    try {
+      let reply: string;
+      if (upiId) {
+        await this.userService.setUpiId(user, upiId);
+        reply = this.messages.render('upiSaved', { UPI_ID: upiId });
+      } else if (removing && current) {
+        await this.userService.setUpiId(user, null);
+        reply = this.messages.render('upiRemoved');
+      } else if (setting) {
+        reply = this.messages.render('upiInvalid');
+      } else {
+        reply = current ? this.messages.render('upiCurrent', { UPI_ID: current }) : this.messages.render('upiNotSet');
+      }
+
+      await this.sendMessage(user.phoneNumber, user.id, reply, { intent: 'upi_id' });
+
+      return { message: '', metadata: { upiId: upiId ?? (removing ? null : current) } };
+    } catch (error) {
+      logger.error({ userId: user.id, error }, 'Failed to update UPI ID');
+
+      await this.sendMessage(
+        user.phoneNumber,
+        user.id,
+        this.messages.render('upiUpdateFailed'),
+        { intent: 'upi_id_error' }
+      );
+
+      return {
+        message: '',
+        metadata: { error: 'upi_update_failed' },
+      };
+    }
+  }
+
+  /**
+   * Record money paid back outside an expense, and say where that leaves the other person
+   * A repayment can be for one group: "Rahul paid me back 500 for goa trip".
+   */
+  private async recordRepayment(phoneNumber: string, userId: string, message: string): Promise<AgentResponse> {
+    let repayment = Repayment.parse(message);
+    let group: ExpenseGroupWithMembers | null = null;
+
+    if (!repayment) {
+      group = await this.mentionedGroup(userId, message, false);
+      repayment = group ? Repayment.parse(this.withoutMention(message, group)) : null;
+    }
+
+    if (!repayment) {
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseRepaymentUnclear'),
+        { intent: 'expense_repayment_unclear' }
+      );
+      return { message: '', metadata: { error: 'repayment_unclear' } };
+    }
+
+    try {
+      const name = repayment.from === ExpenseSplit.YOU ? repayment.to : repayment.from;
+      const isTheirs = (balance: Balance) => balance.name.toLowerCase() === name.toLowerCase();
+
+      const balancesNow = () =>
+        group ? this.expenseService.getGroupBalances(group.id) : this.expenseService.getBalances(userId);
+
+      // The currency they said, else the one the other person has a balance in
+      const open = (await balancesNow()).filter(isTheirs);
+      const currency = repayment.currency || (open.length === 1 ? open[0].currency : Money.DEFAULT_CURRENCY);
+
+      const settlement = await this.expenseService.recordSettlement({
+        userId,
+        fromName: repayment.from,
+        toName: repayment.to,
+        amount: repayment.amount,
+        currency,
+        groupId: group?.id,
+      });
+
+      // Where the other person stands now ("Rahul still owes ₹300 overall")
+      const balances = await balancesNow();
+      const net = balances.find((balance) => isTheirs(balance) && balance.currency === currency)?.net ?? 0;
+      const standing = net < 0
+        ? this.messages.render('expenseStandingOwes', { NAME: name, AMOUNT: Money.format(-net, currency) })
+        : net > 0
+          ? this.messages.render('expenseStandingOwed', { NAME: name, AMOUNT: Money.format(net, currency) })
+          : this.messages.render('expenseStandingSettled', { NAME: name });
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseRepaymentRecorded', {
+          FROM: repayment.from,
+          TO: repayment.to,
+          AMOUNT: Money.format(repayment.amount, currency),
+          STANDING: standing,
+        }),
+        { intent: 'expense_repayment_recorded', relatedId: settlement.id }
+      );
+
+      logger.info(
+        { userId, settlementId: settlement.id, ...repayment, currency, groupId: group?.id },
+        'Repayment recorded'
+      );
+
+      return { message: '', metadata: { settlementId: settlement.id, net } };
+    } catch (error) {
+      logger.error({ userId, error }, 'Failed to record repayment');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseRepaymentFailed'),
+        { intent: 'expense_error' }
+      );
+
+      return {
+        message: '',
+        metadata: { error: 'repayment_failed' },
+      };
+    }
+  }
+
+  /**
+   * Read a group command: create, add people to, archive or list groups
+   */
+  private parseGroupCommand(message: string): GroupCommand | null {
+    const text = message.trim().replace(/[.!]+$/, '');
+
+    if (LIST_GROUPS.test(text)) {
+      return { action: 'list' };
+    }
+
+    const create = text.match(CREATE_GROUP);
+    if (create) {
+      return { action: 'create', name: create[1], members: create[2] ? ExpenseSplit.namesFrom(create[2]) : [] };
+    }
+
+    const add = text.match(ADD_TO_GROUP);
+    if (add && !Money.read(add[1])) {
+      return { action: 'add', name: add[2], members: ExpenseSplit.namesFrom(add[1]) };
+    }
+
+    const archive = text.match(ARCHIVE_GROUP);
+    if (archive) {
+      return { action: 'archive', name: archive[1] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a group, add people to one, archive one or list them
+   */
+  private async handleGroupCommand(
+    phoneNumber: string,
+    userId: string,
+    command: GroupCommand,
+    userName: string | null
+  ): Promise<AgentResponse> {
+    try {
+      if (command.action === 'list') {
+        return await this.listGroups(phoneNumber, userId);
+      }
+
+      const name = ExpenseGroupService.displayName(command.name);
+      const members =
+        command.action === 'archive'
+          ? []
+          : this.withSender(
+              command.members.map((member): SplitEntry => ({ name: member, type: 'equal' })),
+              userName
+            )
+              .map((entry) => entry.name)
+              .filter((member) => member !== ExpenseSplit.YOU);
+      const existing = await this.groupService.findGroup(userId, name, false);
+
+      let reply: string;
+      let groupId = existing?.id;
+
+      if (command.action === 'create') {
+        if (existing) {
+          reply = this.messages.render('expenseGroupExists', {
+            NAME: existing.name,
+            MEMBERS: this.memberNames(existing),
+          });
+        } else if (members.length === 0) {
+          reply = this.messages.render('expenseGroupNeedsMembers', { NAME: name });
+        } else {
+          const group = await this.groupService.createGroup(userId, name, members);
+          groupId = group.id;
+          reply = this.messages.render('expenseGroupCreated', { NAME: group.name, MEMBERS: this.memberNames(group) });
+        }
+      } else if (!existing) {
+        reply = this.messages.render('expenseGroupNotFound', { NAME: name });
+      } else if (command.action === 'add') {
+        const group = await this.groupService.addMembers(existing, members);
+        reply = this.messages.render('expenseGroupMembersAdded', { NAME: group.name, MEMBERS: this.memberNames(group) });
+      } else {
+        await this.groupService.archiveGroup(existing.id);
+        reply = this.messages.render('expenseGroupArchived', { NAME: existing.name });
+      }
+
+      await this.sendMessage(phoneNumber, userId, reply, {
+        intent: `expense_group_${command.action}`,
+        relatedId: groupId,
+      });
+
+      return { message: '', metadata: { action: command.action, groupId } };
+    } catch (error) {
+      logger.error({ userId, error, action: command.action }, 'Failed to update expense group');
+
+      await this.sendMessage(
+        phoneNumber,
+        userId,
+        this.messages.render('expenseGroupFailed'),
+        { intent: 'expense_group_error' }
+      );
+
+      return {
+        message: '',
+        metadata: { error: 'group_failed' },
+      };
+    }
+  }
+
+  private async listGroups(phoneNumber: string, userId: string): Promise<AgentResponse> {
+    const groups = await this.groupService.getGroups(userId);
+
+    const reply =
+      groups.length === 0
+        ? this.messages.render('expenseGroupListEmpty')
+        : this.messages.render('expenseGroupList', {
+            LIST: groups.map((group) => `• *${group.name}*: ${this.memberNames(group)}`).join('\n'),
+            EXAMPLE: groups[0].name.toLowerCase(),
+          });
+
+    await this.sendMessage(phoneNumber, userId, reply, { intent: 'expense_group_list' });
+
+    return { message: '', metadata: { groupCount: groups.length } };
+  }
+
+  /**
+   * The user's group a message mentions, if any
+   */
+  private async mentionedGroup(
+    userId: string,
+    message: string,
+    includeArchived: boolean
+  ): Promise<ExpenseGroupWithMembers | null> {
+    const groups = await this.groupService.getGroups(userId, includeArchived);
+    return ExpenseGroupService.mentionedIn(message, groups);
+  }
+
+  /**
+   * Put a group's members where the message names the group
+   * "split 2400 with flatmates" -> "split 2400 with Rahul, Priya, Amit"; other mentions are just dropped
+   */
+  private withGroupMembers(message: string, group: ExpenseGroupWithMembers): string {
+    return message.replace(ExpenseGroupService.mentionPattern(group.name), (_mention, lead?: string) =>
+      lead && lead.toLowerCase() === 'with' ? `with ${group.members.map((member) => member.name).join(', ')}` : ' '
+    );
+  }
+
+  private withoutMention(message: string, group: ExpenseGroupWithMembers): string {
+    return message.replace(ExpenseGroupService.mentionPattern(group.name), ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * "you, Rahul, Priya, Amit"
+   */
+  private memberNames(group: ExpenseGroupWithMembers): string {
+    return ['you', ...group.members.map((member) => member.name)].join(', ');
+  }
+
+  /**
+   * Participants named as the user themselves ("Yash" when the user is Yash) are the sender, "You"
+   */
+  private withSender(entries: SplitEntry[], userName: string | null): SplitEntry[] {
+    if (!userName) {
+      return entries;
+    }
+    return entries.map((entry) =>
+      entry.name.toLowerCase() === userName.trim().toLowerCase() ? { ...entry, name: ExpenseSplit.YOU } : entry
+    );
+  }
+
+  /**
+   * What a set of payments adds up to, per currency ("₹900.00 + $20.00")
+   */
+  private totalOf(transfers: Transfer[]): string {
+    const paise = new Map<string, number>();
+    for (const transfer of transfers) {
+      paise.set(transfer.currency, (paise.get(transfer.currency) || 0) + Math.round(transfer.amount * 100));
+    }
+    return [...paise.entries()].map(([currency, total]) => Money.format(total / 100, currency)).join(' + ');
+  }
+
+  private formatTransfer(transfer: Transfer): string {
+    return Money.format(transfer.amount, transfer.currency);
+  }
+
+  /**
+   * Lines grouped by currency, in the order each currency first appears
+   * A heading per currency is only added when there's more than one; lines are numbered in the order shown.
+   */
+  private byCurrency<T extends { currency: string }>(
+    items: T[],
+    format: (item: T, index: number) => string,
+    separator: string = '\n'
+  ): string {
+    const currencies = [...new Set(items.map((item) => item.currency))];
+    let index = 0;
+
+    return currencies
+      .map((currency) => {
+        const lines = items
+          .filter((item) => item.currency === currency)
+          .map((item) => format(item, index++))
+          .join(separator);
+        return currencies.length > 1 ? `*${currency}*\n${lines}` : lines;
+      })
+      .join('\n\n');
+  }
 }
@@ -23,11 +23,16 @@ const envSchema = z.object({
   WHATSAPP_WEBHOOK_VERIFY_TOKEN: z.string().min(1),
   WHATSAPP_WEBHOOK_SECRET: z.string().min(1),
 
+  // Approved template for reminders sent after the user's 24h session window has closed ({{1}} is the task)
+  WHATSAPP_REMINDER_TEMPLATE: z.string().default('reminder_notification'),
+  WHATSAPP_REMINDER_TEMPLATE_LANGUAGE: z.string().default('en'),
+
   DEFAULT_TIMEZONE: z.string().default('Asia/Kolkata'),
   REMINDER_CHECK_INTERVAL_MS: z.string().transform(Number).default('30000'),
   MAX_CONVERSATION_HISTORY: z.string().transform(Number).default('100'),
 
-  ADMIN_TOKEN: z.string().optional().default('admin_test_token_2025'),
+  // Root admin token with every scope; further scoped tokens are issued via /admin/tokens
+  ADMIN_TOKEN: z.string().optional(),
 
   OPENAI_API_KEY: z.string().min(1),
 });
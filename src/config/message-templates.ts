@@ -0,0 +1,221 @@
+/**
+ * Default message templates
+ *
+ * Every outbound message the bot sends is rendered from one of these templates.
+ * bot-config.json can override any of them: the four dashboard fields live at the
+ * top level, everything else under "messages". Placeholders look like {TASK};
+ * {BOT_NAME} is always available. A template may be a list of variants, one is
+ * picked at random.
+ */
+export const DEFAULT_TEMPLATES = {
+  // Dashboard-editable (top level of bot-config.json)
+  greetingMessage: `hey, I'm {BOT_NAME} – your WhatsApp reminder buddy.\n\nwhat should I call you?`,
+  returningUserMessage: 'hey {NAME}! what can I pin for you?',
+  confirmationMessage: `done. I'll remind you to {TASK} {TIME}.`,
+  reminderNotification: 'Your time is up, {TASK}\n\nreply "done" or "snooze 10 min"',
+
+  // Onboarding
+  onboardingNameTooShort: `I promise I'm not your HR. just tell me your name 😄`,
+  onboardingNameTooLong: `that's... quite the name. maybe just give me the short version?`,
+  onboardingComplete: `{TEASE}\n\nalright {NAME}, just tell me what you don't want to forget and I'll pin it for you.`,
+  nameTeaseCommon: [
+    `nice. your parents definitely didn't overthink that one 😄`,
+    'solid name. your parents clearly speedran the baby-naming process.',
+    'elite default setting for Indian kids 😂',
+    'classic choice. your parents went with the crowd favourite.',
+    'huh. sounds like someone with way too many pending tasks already.',
+  ],
+  nameTeasePower: [
+    `such a power name. sounds like someone who's always late to meetings.`,
+    `nice. that's main-character energy right there.`,
+    `sounds like you're about to star in a Bollywood movie or forget your keys. probably both.`,
+  ],
+  nameTeaseElegant: [
+    'such a strong main-character name, I love it.',
+    `nice. sounds like someone who has their life together. let's fix that illusion.`,
+    'elegant choice. your parents clearly had good taste.',
+  ],
+  nameTeaseGeneric: [
+    `cool name. I'll try not to forget it like you forget everything else.`,
+    'nice! sounds like someone who definitely needs a reminder app.',
+    'solid choice. your parents clearly thought that through.',
+    `I like it! now let's make sure you remember stuff for once.`,
+    `huh. sounds like you've got your hands full already.`,
+  ],
+
+  // Creating reminders
+  recurringConfirmationMessage: `done. I'll remind you to {TASK} {REPEAT}. first one is {TIME}.`,
+  timeUnclear: `hmm, I didn't catch when you want to be reminded. could you tell me the time? like "tomorrow at 7" or "in 2 hours"?`,
+  timeParsingFailed: `I got "{EXPRESSION}" but couldn't figure out the exact time. can you be more specific? like "tomorrow 7pm" or "in 30 minutes"?`,
+  taskUnclear: 'got the time, but what should I remind you about?',
+  reminderDraftCancelled: `ok, scrapped that reminder.`,
+  reminderConfirmMeridiem: `quick check before I pin "{TASK}": "{EXPRESSION}" in the morning or the evening?`,
+  reminderConfirmBareNumber: `quick check before I pin "{TASK}": did you mean {TIME}? or is "{EXPRESSION}" not a time?`,
+  reminderConfirmTimePassed: `{EXPRESSION} has already gone by today. should I pin "{TASK}" for {TIME} instead?`,
+  reminderConfirmMeridiemHinglish: `"{TASK}" pin karne se pehle ek baat: "{EXPRESSION}" subah ya shaam?`,
+  reminderConfirmBareNumberHinglish: `"{TASK}" pin karne se pehle ek baat: {TIME} matlab? ya "{EXPRESSION}" time nahi hai?`,
+  reminderConfirmTimePassedHinglish: `{EXPRESSION} toh aaj nikal gaya. "{TASK}" {TIME} ke liye pin kar doon?`,
+  reminderTimeAskAgain: 'no problem. when should I remind you to {TASK}?',
+  reminderTimeChoiceExpired: `that question has expired. just send the reminder again if you still need it.`,
+  buttonOtherTime: 'Another time',
+  buttonNotATime: 'Not a time',
+  reminderDraftAbandoned: `I still couldn't work it out, so I've dropped that one. just send the whole thing again, like "remind me tomorrow at 9am to pay rent".`,
+
+  // Fired reminders
+  reminderDone: 'nice, "{TASK}" is done ✅',
+  reminderDoneRecurring: `nice, "{TASK}" is done ✅ I'll still remind you {REPEAT}.`,
+  reminderSnoozed: `ok, I'll ping you again {TIME}.`,
+  reminderSnoozedRepeatedly: `ok, I'll ping you again {TIME} (snoozed {COUNT}x so far).`,
+  reminderReplyFailed: `couldn't update that reminder. try again?`,
+  reminderNoLongerActive: 'that reminder is already done or cancelled.',
+  buttonDone: 'Done ✅',
+  buttonSnooze10: 'Snooze 10 min',
+  buttonSnooze60: 'Snooze 1 hour',
+
+  // Listing reminders
+  noReminders: `you don't have any reminders pinned yet. want to set one?`,
+  reminderList: `here's what you've pinned:\n\n{LIST}\n\nto change one, say "move reminder 1 to 8pm". to cancel, say "delete reminder 1".`,
+  reminderListFailed: `couldn't fetch your reminders right now. try again?`,
+  invalidReminderNumber: `you don't have a reminder #{NUMBER}. you've got {COUNT} reminder(s) total.`,
+
+  // Editing reminders
+  noRemindersToChange: `you don't have any reminders to change. want to set one?`,
+  askWhichReminderToChange: 'which one should I change?\n\n{LIST}\n\njust say something like "move reminder 2 to 8pm".',
+  editTimeParsingFailed: `I got "{EXPRESSION}" but couldn't figure out the exact time. try something like "tomorrow 7pm"?`,
+  editUnclear: 'what should I change about "{TASK}"? give me a new time, like "move it to 8pm".',
+  reminderUpdated: 'done. "{TASK}" is now {TIME}.',
+  reminderUpdatedRecurring: 'done. "{TASK}" is now {TIME}, then {REPEAT}.',
+  reminderUpdateFailed: `couldn't change that reminder. try again?`,
+
+  // Cancelling reminders
+  noRemindersToCancel: `you don't have any reminders to cancel.`,
+  askWhichReminderToCancel: 'which one should I cancel?\n\n{LIST}\n\njust reply with the number, like "1" or "delete 2".',
+  reminderCancelled: 'done. cancelled: "{TASK}"',
+  reminderCancelFailed: `couldn't cancel that reminder. try again?`,
+  reminderPickerButton: 'Choose reminder',
+
+  // Timezone
+  timezoneInfo: `you're on {TIMEZONE} (it's {TIME} there). to change it, say something like "my timezone is Europe/London" or "I'm in Dubai".`,
+  timezoneUpdated: `done. switched you to {TIMEZONE} - it's {TIME} there. new reminders will use this timezone.`,
+  timezoneUpdateFailed: `couldn't update your timezone. try again?`,
+
+  // Exporting data
+  exportCaption: 'your {DATASETS} from {BOT_NAME} ({COUNT} total)',
+  exportEmpty: `nothing to export yet - you don't have any {DATASETS} saved.`,
+  exportFailed: `couldn't put your export together right now. try again in a bit?`,
+
+  // Small talk
+  help: `here's what I can do:\n\n📌 *create reminders*\njust tell me like you'd text a friend:\n• "remind me at 7pm to call mom"\n• "tomorrow 10am - doctor appointment"\n• "pay rent on 15th"\n• "every monday at 9am - team standup"\n\n📋 *see what's pinned*\nsay "show my reminders" or "what all I have"\n\n✏️ *change reminders*\nsay "move reminder 2 to 8pm" or "change the rent one to tomorrow 10am"\n\n❌ *cancel reminders*\nsay "cancel reminder 1" or "delete all"\n\n💰 *split bills*\nsay "split ₹1200 dinner", "split 2400 60/40 with Priya", "spent $40 on a cab with Amit" or "show my expenses"\n\n📊 *spending*\nsay "how much did I spend this month?" or "last month's spending"\n\n✏️ *fix expenses*\nsay "change expense 2 to 1800", "rename expense 2 to team lunch" or "delete the dinner expense"\n\n👥 *groups*\nsay "create group flatmates with Rahul, Priya and Amit", then "split 2400 with flatmates"\n\n🤝 *settle up*\nsay "who owes me?", "settle up", "goa trip balances" or "Rahul paid me back 500". save your UPI ID ("my UPI ID is name@okhdfc") to get pay links\n\n📦 *export your data*\nsay "export my expenses" or "export everything as json"\n\n🌍 *timezone*\nsay "I'm in London" or "my timezone is America/New_York"\n\njust chat naturally - I'll figure it out.`,
+  thanks: [
+    `anytime! that's what I'm here for.`,
+    `you're welcome! need anything else pinned?`,
+    'no worries! I gotchu.',
+  ],
+  unclear: [
+    `hmm, not sure what you mean. want to set a reminder? just tell me when and what, like "tomorrow at 3pm - call Rohan"`,
+    `didn't quite catch that. to set a reminder, just say something like "remind me at 7 to pay bills"`,
+    `not sure what you're asking. try:\n• "remind me tomorrow morning"\n• "list my reminders"\n• "help"`,
+  ],
+  unsupportedMessage: `I can only read text for now, so I can't open that {TYPE}. just type it out and I'll take it from there.`,
+  voiceNoteUnclear: `couldn't make out that voice note. mind sending it again, or just typing it?`,
+  genericError: 'oops, something broke. mind trying that again?',
+  unexpectedError: 'Sorry, something went wrong. Please try again.',
+
+  // Expenses
+  expenseAmountUnclear: `I couldn't find an amount in your message. How much was spent? (e.g., '₹1200', 'Rs. 500' or '$12.50')`,
+  expenseAskCount: 'Got it! {AMOUNT} for "{DESCRIPTION}".\n\nHow many people are splitting this? (including you)',
+  expenseCountInvalid: 'Please enter a valid number of people (at least 2).',
+  expenseCountTooHigh: `That's a lot of people! Let's keep it under 20 for now.`,
+  expenseAskNames: 'Perfect! {COUNT} people splitting {AMOUNT}.\n\nPlease send me the names, one per line:\n\nExample:\nYash\nRohit\nPriya\n\nNot splitting equally? Put an amount, percentage or shares after a name, like "Rohit 500", "Priya 40%" or "Yash 2 shares".',
+  expenseNamesMismatch: 'I need exactly {EXPECTED} names. You sent {RECEIVED}. Please send them again, one per line.',
+  expenseNameInvalid: `"{NAME}" doesn't look like a valid name. Please send the names again.`,
+  expenseCreated: '✅ Expense recorded!\n\n💰 Total: {AMOUNT}\n📝 {DESCRIPTION}\n💳 Paid by {PAYER}\n\nSplit among {COUNT} people:\n{PARTICIPANTS}\n\nEach person pays {SHARE}',
+  expenseCreatedSplit: '✅ Expense recorded!\n\n💰 Total: {AMOUNT}\n📝 {DESCRIPTION}\n💳 Paid by {PAYER}\n\nSplit among {COUNT} people:\n{PARTICIPANTS}',
+  expenseSplitOverTotal: 'Those parts add up to {ALLOCATED}, but the bill is {AMOUNT}.\n\nSend me the split again, one person per line, like:\nRahul 600\nPriya 40%\nAmit 2 shares',
+  expenseSplitUnderTotal: 'Those parts only cover {ALLOCATED} of {AMOUNT} - who pays the other {REMAINING}?\n\nSend me the split again, one person per line, like:\nRahul 600\nPriya 40%\nAmit',
+  expenseSplitPercentTotal: 'Those percentages add up to {PERCENT}%, not 100%.\n\nSend me the split again, one person per line, like:\nRahul 60%\nPriya 40%',
+  expenseSplitRatioMismatch: `The split doesn't match the number of people (you're counted too, so "60/40 with Priya" is two people).\n\nSend me the split again, one person per line, like:\nYou 60%\nPriya 40%`,
+  expenseCreateFailed: 'Oops! Something went wrong saving the expense. Please try again.',
+  expenseCancelled: 'No problem, I dropped that expense.',
+  expenseListEmpty: `You haven't recorded any expenses yet. Want to split a bill?`,
+  expenseList: `💰 Your recent expenses:\n\n{LIST}\n\nTo fix one, say "change expense 1 to 1800" or "rename expense 1 to team lunch". To remove one, say "delete expense 1".`,
+  expenseListFailed: `Sorry, I couldn't fetch your expenses right now. Please try again.`,
+
+  // Spending summaries
+  expenseSpendingSummary: '📊 *{MONTH} spending*\n\n{SUMMARY}',
+  expenseSpendingTotals: 'Your share: {SHARE} of {TOTAL} in bills ({COUNT} expenses)',
+  expenseSpendingCompared: 'vs {MONTH}: {AMOUNT} ({CHANGE})',
+  expenseSpendingNoPrevious: 'Nothing recorded in {MONTH} to compare with.',
+  expenseSpendingNone: `You haven't recorded any expenses in {MONTH}. Split a bill and I'll keep count.`,
+  expenseSpendingFailed: `Sorry, I couldn't add up your spending right now. Please try again.`,
+
+  // Fixing and deleting expenses
+  expenseNoneToChange: `You haven't recorded any expenses yet, so there's nothing to change.`,
+  expenseChangeUnclear: `Which expense, and what should change? Here are your recent ones:\n\n{LIST}\n\nSay "change expense 1 to 1800", "rename expense 1 to team lunch" or "delete expense 1".`,
+  expenseNumberInvalid: `There's no expense {NUMBER} - you have {COUNT} recent ones. Say "show my expenses" to see them.`,
+  expenseNotFound: `I couldn't find "{SEARCH}" in your recent expenses. Say "show my expenses" to see them.`,
+  expenseChangeWhich: 'More than one expense matches "{SEARCH}":\n\n{LIST}\n\nWhich one? Send that again with its number, like "expense {NUMBER}".',
+  expenseDeleteConfirm: `Delete this expense?\n\n{EXPENSE}\n\nIt'll come out of everyone's balances.`,
+  expenseEditConfirm: 'Change this expense?\n\n{EXPENSE}\n\n{CHANGES}',
+  expenseEditSplitInvalid: `"{DESCRIPTION}" was split with fixed amounts that come to {ALLOCATED}, so it can't be {AMOUNT} now. Delete it and add it again with the new split.`,
+  expenseChangeConfirmAgain: 'Should I go ahead? Reply yes or no.',
+  expenseChangeKept: `Okay, I've left it as it was.`,
+  expenseChangeExpired: `That change has expired, or the expense is already gone. Say "show my expenses" to see what's there.`,
+  expenseDeleted: `🗑️ Deleted "{DESCRIPTION}" ({AMOUNT}). Balances are updated - say "settle up" to see where everyone stands.`,
+  expenseUpdated: `✅ Expense updated!\n\n{EXPENSE}\n\nBalances are updated - say "settle up" to see where everyone stands.`,
+  expenseChangeFailed: `Sorry, I couldn't change that expense right now. Please try again.`,
+  buttonDeleteExpense: 'Delete',
+  buttonSaveExpenseChange: 'Save change',
+  buttonKeepExpense: 'Keep as is',
+
+  // Balances and settling up
+  expenseOwedToYou: '💰 Who owes you:\n\n{LIST}\n\nTotal: {TOTAL}',
+  expenseNobodyOwesYou: 'Nobody owes you anything right now 🎉',
+  expenseYouOwe: '💸 What you owe:\n\n{LIST}\n\nTotal: {TOTAL}',
+  expenseYouOweNothing: `You don't owe anyone anything right now 🎉`,
+  expenseSettleUp: '🤝 To settle everyone up:\n\n{LIST}\n\nWhen money changes hands, tell me like "Rahul paid me back 500".',
+  expenseAllSettled: `Everyone's settled up - nobody owes anything 🎉`,
+  expenseBalancesFailed: `Sorry, I couldn't work out the balances right now. Please try again.`,
+  expenseRepaymentRecorded: '✅ Noted: {FROM} paid {TO} {AMOUNT}.\n\n{STANDING}',
+  expenseStandingOwes: '{NAME} still owes {AMOUNT} overall.',
+  expenseStandingOwed: '{NAME} is owed {AMOUNT} overall.',
+  expenseStandingSettled: '{NAME} is all settled up now.',
+  expenseRepaymentUnclear: `Who paid whom, and how much? Try something like "Rahul paid me back 500".`,
+  expenseRepaymentFailed: 'Oops! Something went wrong saving that repayment. Please try again.',
+
+  // UPI ID and pay links
+  upiSaved: '✅ Saved your UPI ID: {UPI_ID}\n\nWhen friends owe you, "settle up" will include a link they can tap to pay you.',
+  upiCurrent: 'Your UPI ID is {UPI_ID}. To change it, say "my UPI ID is name@bank". To remove it, say "remove my UPI ID".',
+  upiNotSet: `You haven't saved a UPI ID yet. Say "my UPI ID is name@okhdfc" and I'll add pay links when friends owe you.`,
+  upiInvalid: `That doesn't look like a UPI ID - it's usually something like name@okhdfc or 9876543210@ybl.`,
+  upiRemoved: `Removed your UPI ID. Settle-ups won't include pay links any more.`,
+  upiUpdateFailed: `Sorry, I couldn't update your UPI ID right now. Please try again.`,
+  upiPayLink: '   ↳ tap to pay: {LINK}',
+  upiLinkHint: `💡 Save your UPI ID ("my UPI ID is name@okhdfc") and I'll add links friends can tap to pay you.`,
+  upiNote: '{BOT_NAME} settle-up',
+  upiNoteGroup: '{GROUP} settle-up',
+
+  // Expense groups
+  expenseGroupCreated: `👥 Created "{NAME}": {MEMBERS}.\n\nNow just say "split 2400 with {NAME}" and I'll split it between all of you.`,
+  expenseGroupExists: 'You already have a group called "{NAME}" ({MEMBERS}). To add someone, say "add Neha to {NAME}".',
+  expenseGroupNeedsMembers: `Who's in "{NAME}"? Try "create group {NAME} with Rahul, Priya and Amit".`,
+  expenseGroupMembersAdded: '👥 "{NAME}" is now {MEMBERS}.',
+  expenseGroupNotFound: `I couldn't find a group called "{NAME}". Say "my groups" to see yours.`,
+  expenseGroupArchived: '📦 Archived "{NAME}". Its expenses and balances are still there - say "{NAME} balances" to see them.',
+  expenseGroupListEmpty: `You don't have any groups yet. Try "create group flatmates with Rahul, Priya and Amit".`,
+  expenseGroupList: `👥 Your groups:\n\n{LIST}\n\nSay "split 2400 with {EXAMPLE}" to split with everyone in a group, or "archive {EXAMPLE}" once you're done with it.`,
+  expenseGroupBalances: '👥 *{NAME}*\n\n{BALANCES}',
+  expenseGroupFailed: `Sorry, I couldn't update your groups right now. Please try again.`,
+};
+
+export type MessageKey = keyof typeof DEFAULT_TEMPLATES;
+
+/**
+ * Templates edited from the admin dashboard; stored at the top level of bot-config.json
+ */
+export const TOP_LEVEL_TEMPLATE_KEYS: MessageKey[] = [
+  'greetingMessage',
+  'returningUserMessage',
+  'confirmationMessage',
+  'reminderNotification',
+];
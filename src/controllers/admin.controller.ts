@@ -1,16 +1,63 @@
 import { Request, Response } from 'express';
 import { getPrismaClient } from '../config/database';
+import { AdminAuthService } from '../services/admin-auth.service';
+import { MessageTemplateService } from '../services/message-template.service';
+import { ExportService } from '../services/export.service';
+import { AdminPrincipal, AdminScope, ExportDataset, ExportFormat } from '../types';
 import { logger } from '../config/logger';
-import fs from 'fs';
-import path from 'path';
 
 export class AdminController {
   private prisma = getPrismaClient();
-  private configPath = path.join(__dirname, '../config/bot-config.json');
+  private messageTemplateService = new MessageTemplateService();
+  private adminAuthService = new AdminAuthService();
+  private exportService = new ExportService();
+
+  /**
+   * Show what deleting a user would remove, without deleting anything
+   * URL: /admin/delete/:phoneNumber (GET)
+   */
+  async previewUserDeletion(req: Request, res: Response): Promise<void> {
+    try {
+      const phoneNumber = req.params.phoneNumber;
+
+      const user = await this.prisma.user.findUnique({
+        where: { phoneNumber },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          error: 'User not found',
+          phoneNumber
+        });
+        return;
+      }
+
+      const [conversations, reminders] = await Promise.all([
+        this.prisma.conversation.count({ where: { userId: user.id } }),
+        this.prisma.reminder.count({ where: { userId: user.id } }),
+      ]);
+
+      res.json({
+        phoneNumber,
+        message: 'Nothing was deleted. Send a DELETE request to this URL to delete this data.',
+        wouldDelete: {
+          conversations,
+          reminders,
+          user: 1,
+        },
+      });
+    } catch (error) {
+      logger.error({ error, phoneNumber: req.params.phoneNumber }, 'Admin: Error previewing user deletion');
+      res.status(500).json({
+        error: 'Failed to preview user deletion',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
 
   /**
    * Delete all data for a user by phone number
-   * URL: /admin/delete/:phoneNumber
+   * URL: /admin/delete/:phoneNumber (DELETE)
    */
   async deleteUserData(req: Request, res: Response): Promise<void> {
     try {
@@ -21,7 +68,7 @@ export class AdminController {
         return;
       }
 
-      logger.info({ phoneNumber }, 'Admin: Deleting user data');
+      logger.info({ phoneNumber, admin: res.locals.admin?.name }, 'Admin: Deleting user data');
 
       // Find user
       const user = await this.prisma.user.findUnique({
@@ -144,13 +191,72 @@ export class AdminController {
   }
 
   /**
-   * Get bot configuration
+   * Download a user's data as a file
+   * URL: /admin/export/:phoneNumber?format=csv|json&include=reminders,expenses,conversations
+   * JSON holds every dataset included (reminders and expenses by default); CSV takes exactly one.
+   */
+  async exportUserData(req: Request, res: Response): Promise<void> {
+    try {
+      const phoneNumber = req.params.phoneNumber;
+      const format = (typeof req.query.format === 'string' ? req.query.format : 'json') as ExportFormat;
+      const include = typeof req.query.include === 'string' ? req.query.include : 'reminders,expenses';
+      const datasets = include.split(',').map((name) => name.trim()).filter(Boolean) as ExportDataset[];
+
+      if (format !== 'csv' && format !== 'json') {
+        res.status(400).json({ error: 'format must be csv or json' });
+        return;
+      }
+
+      const unknown = datasets.filter((dataset) => !ExportService.DATASETS.includes(dataset));
+      if (datasets.length === 0 || unknown.length > 0) {
+        res.status(400).json({
+          error: 'include must list datasets to export',
+          available: ExportService.DATASETS,
+          unknown,
+        });
+        return;
+      }
+
+      if (format === 'csv' && datasets.length !== 1) {
+        res.status(400).json({ error: 'CSV exports one dataset at a time; include a single dataset or use format=json' });
+        return;
+      }
+
+      const user = await this.prisma.user.findUnique({
+        where: { phoneNumber },
+      });
+
+      if (!user) {
+        res.status(404).json({
+          error: 'User not found',
+          phoneNumber
+        });
+        return;
+      }
+
+      const [file] = await this.exportService.exportUserData(user.id, format, datasets);
+
+      logger.info({ phoneNumber, userId: user.id, format, datasets }, 'Admin: Exported user data');
+
+      res.setHeader('Content-Type', `${file.mimeType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error) {
+      logger.error({ error, phoneNumber: req.params.phoneNumber }, 'Admin: Error exporting user data');
+      res.status(500).json({
+        error: 'Failed to export user data',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get bot configuration, with every message template filled in
    * URL: /admin/config
    */
   async getConfig(_req: Request, res: Response): Promise<void> {
     try {
-      const config = JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
-      res.json(config);
+      res.json(this.messageTemplateService.getEffectiveConfig());
     } catch (error) {
       logger.error({ error }, 'Admin: Error reading config');
       res.status(500).json({ error: 'Failed to read configuration' });
@@ -159,13 +265,19 @@ export class AdminController {
 
   /**
    * Update bot configuration
+   * Fields are merged into the current config and validated; takes effect without a restart
    * URL: /admin/config (POST)
    */
   async updateConfig(req: Request, res: Response): Promise<void> {
     try {
-      const config = req.body;
-      fs.writeFileSync(this.configPath, JSON.stringify(config, null, 2));
-      logger.info('Admin: Bot configuration updated');
+      const result = this.messageTemplateService.save(req.body || {});
+
+      if (!result.success) {
+        res.status(400).json({ error: 'Invalid configuration', details: result.errors });
+        return;
+      }
+
+      logger.info({ admin: res.locals.admin?.name }, 'Admin: Bot configuration updated');
       res.json({ success: true, message: 'Configuration updated successfully' });
     } catch (error) {
       logger.error({ error }, 'Admin: Error updating config');
@@ -173,6 +285,86 @@ export class AdminController {
     }
   }
 
+  /**
+   * List admin tokens (never includes the tokens themselves)
+   * URL: /admin/tokens
+   */
+  async listTokens(_req: Request, res: Response): Promise<void> {
+    try {
+      const tokens = await this.adminAuthService.listTokens();
+      res.json({
+        tokens: tokens.map(({ tokenHash: _tokenHash, ...token }) => token),
+      });
+    } catch (error) {
+      logger.error({ error }, 'Admin: Error listing tokens');
+      res.status(500).json({ error: 'Failed to list tokens' });
+    }
+  }
+
+  /**
+   * Issue a new scoped admin token
+   * URL: /admin/tokens (POST) with { name, scopes }
+   */
+  async createToken(req: Request, res: Response): Promise<void> {
+    const { name, scopes } = req.body || {};
+
+    if (typeof name !== 'string' || !Array.isArray(scopes) || scopes.length === 0) {
+      res.status(400).json({
+        error: 'name and a non-empty scopes array are required',
+        availableScopes: AdminAuthService.SCOPES,
+      });
+      return;
+    }
+
+    const unknownScopes = scopes.filter((scope: string) => !AdminAuthService.SCOPES.includes(scope as AdminScope));
+    if (unknownScopes.length > 0) {
+      res.status(400).json({
+        error: `Unknown scopes: ${unknownScopes.join(', ')}`,
+        availableScopes: AdminAuthService.SCOPES,
+      });
+      return;
+    }
+
+    const ungrantableScopes = this.adminAuthService.ungrantableScopes(res.locals.admin as AdminPrincipal, scopes);
+    if (ungrantableScopes.length > 0) {
+      res.status(403).json({
+        error: `Cannot grant scopes this token doesn't hold: ${ungrantableScopes.join(', ')}`,
+      });
+      return;
+    }
+
+    try {
+      const { token, record } = await this.adminAuthService.createToken({ name, scopes });
+      logger.info({ tokenId: record.id, admin: res.locals.admin?.name }, 'Admin: Token issued');
+
+      res.status(201).json({
+        id: record.id,
+        name: record.name,
+        scopes: record.scopes,
+        token, // Only shown once
+      });
+    } catch (error) {
+      logger.error({ error }, 'Admin: Error creating token');
+      res.status(500).json({ error: 'Failed to create token' });
+    }
+  }
+
+  /**
+   * Revoke an admin token
+   * URL: /admin/tokens/:id (DELETE)
+   */
+  async revokeToken(req: Request, res: Response): Promise<void> {
+    try {
+      const token = await this.adminAuthService.revokeToken(req.params.id);
+      logger.info({ tokenId: token.id, admin: res.locals.admin?.name }, 'Admin: Token revoked');
+
+      res.json({ success: true, id: token.id, revokedAt: token.revokedAt });
+    } catch (error) {
+      logger.error({ error, tokenId: req.params.id }, 'Admin: Error revoking token');
+      res.status(404).json({ error: 'Token not found' });
+    }
+  }
+
   /**
    * Get dashboard statistics
    * URL: /admin/dashboard-stats
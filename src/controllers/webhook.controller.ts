@@ -1,9 +1,12 @@
 import { Request, Response } from 'express';
-import { WhatsAppWebhookPayload, WhatsAppMessage } from '../types';
+import { WhatsAppWebhookPayload, WhatsAppMessage, WhatsAppStatusUpdate } from '../types';
 import { UserService } from '../services/user.service';
 import { ConversationService } from '../services/conversation.service';
 import { WhatsAppService } from '../services/whatsapp.service';
 import { MessageHandler } from '../services/message-handler.service';
+import { TranscriptionService } from '../services/transcription.service';
+import { InboundMessage } from '../utils/inbound-message';
+import { Hinglish } from '../utils/hinglish';
 import { logger } from '../config/logger';
 
 export class WebhookController {
@@ -11,12 +14,14 @@ export class WebhookController {
   private conversationService: ConversationService;
   private whatsappService: WhatsAppService;
   private messageHandler: MessageHandler;
+  private transcriptionService: TranscriptionService;
 
   constructor() {
     this.userService = new UserService();
     this.conversationService = new ConversationService();
     this.whatsappService = new WhatsAppService();
     this.messageHandler = new MessageHandler();
+    this.transcriptionService = new TranscriptionService(undefined, this.whatsappService);
   }
 
   /**
@@ -68,14 +73,28 @@ export class WebhookController {
   ): Promise<void> {
     try {
       const phoneNumber = message.from;
-      const messageText = message.text.body;
       const whatsappMessageId = message.id;
 
-      logger.info({ phoneNumber, messageText }, 'Processing incoming message');
+      const content = InboundMessage.read(message);
+
+      logger.info({ phoneNumber, type: message.type }, 'Processing incoming message');
 
       // Find or create user
       const contactName = contacts?.find(c => c.wa_id === phoneNumber)?.profile.name;
-      const user = await this.userService.findOrCreateUser(phoneNumber, contactName);
+      let user = await this.userService.findOrCreateUser(phoneNumber, contactName);
+
+      // Mark message as read
+      await this.whatsappService.markAsRead(whatsappMessageId);
+
+      // Voice notes are transcribed, then handled exactly like typed text
+      const voiceNote = content.kind === 'audio'
+        ? await this.transcriptionService.transcribeVoiceNote(content.mediaId)
+        : null;
+
+      const messageText = content.kind === 'text' ? content.text : voiceNote?.transcript ?? `[${message.type}]`;
+      const interactiveReply = content.kind === 'text' ? content.interactiveReply : undefined;
+
+      logger.info({ phoneNumber, messageText }, 'Inbound message text');
 
       // Store inbound message in conversation history
       await this.conversationService.storeMessage({
@@ -83,30 +102,48 @@ export class WebhookController {
         direction: 'inbound',
         messageText,
         whatsappMessageId,
+        mediaId: content.kind === 'audio' ? content.mediaId : undefined,
+        transcript: voiceNote?.transcript,
+        metadata: {
+          messageType: message.type,
+          ...(interactiveReply && { interactiveReplyId: interactiveReply.id }),
+          ...(voiceNote && { transcriptionProvider: voiceNote.provider }),
+        },
       });
 
-      // Mark message as read
-      await this.whatsappService.markAsRead(whatsappMessageId);
+      // Remember whether the user writes in English, Hindi or Hinglish (from what they type or say, not taps)
+      const writtenText = interactiveReply ? undefined : content.kind === 'text' ? content.text : voiceNote?.transcript;
+      const language = writtenText ? Hinglish.detectLanguage(writtenText) : null;
+      if (language) {
+        user = await this.userService.setPreferredLanguage(user, language).catch((error) => {
+          logger.error({ error, userId: user.id }, 'Failed to save preferred language');
+          return user;
+        });
+      }
 
       // Handle the message and send response
-      await this.messageHandler.handleUserMessage(user, messageText);
+      if (content.kind === 'text') {
+        await this.messageHandler.handleUserMessage(user, content.text, content.interactiveReply);
+      } else if (content.kind === 'audio') {
+        if (voiceNote) {
+          await this.messageHandler.handleUserMessage(user, voiceNote.transcript);
+        } else {
+          await this.messageHandler.handleUnreadableVoiceNote(user);
+        }
+      } else {
+        await this.messageHandler.handleUnsupportedMessage(user, content.label);
+      }
     } catch (error) {
       logger.error({ error, message }, 'Error processing incoming message');
     }
   }
 
-  private async processStatusUpdate(status: {
-    id: string;
-    status: string;
-    timestamp: string;
-    recipient_id: string;
-  }): Promise<void> {
+  private async processStatusUpdate(status: WhatsAppStatusUpdate): Promise<void> {
     try {
       logger.info({ status }, 'Processing status update');
 
-      // Update reminder status based on WhatsApp message status
-      // This will be handled by the message handler service
-      await this.messageHandler.handleStatusUpdate(status.id, status.status);
+      // Update reminder and conversation delivery tracking
+      await this.messageHandler.handleStatusUpdate(status);
     } catch (error) {
       logger.error({ error, status }, 'Error processing status update');
     }
@@ -77,6 +77,20 @@ export class ReminderQueue {
     );
   }
 
+  /**
+   * Replace a scheduled reminder's job after its time changed
+   * The old job is removed first, otherwise the jobId dedupe would keep it
+   */
+  async rescheduleReminder(reminder: Reminder, phoneNumber: string): Promise<void> {
+    await this.cancelReminder(reminder.id);
+    await this.scheduleReminder(reminder, phoneNumber);
+
+    logger.info(
+      { reminderId: reminder.id, scheduledTime: reminder.scheduledTime },
+      'Reminder rescheduled in queue'
+    );
+  }
+
   /**
    * Cancel a scheduled reminder
    */
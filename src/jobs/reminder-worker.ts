@@ -1,21 +1,44 @@
 import { Worker, Job } from 'bullmq';
 import { getRedisClient } from '../config/redis';
-import { ReminderJobData } from './reminder-queue';
+import { Reminder } from '@prisma/client';
+import { ReminderJobData, ReminderQueue } from './reminder-queue';
 import { ReminderService } from '../services/reminder.service';
+import { RecurrenceService } from '../services/recurrence.service';
+import { TimeService } from '../services/time.service';
+import { UserService } from '../services/user.service';
+import { MessageTemplateService } from '../services/message-template.service';
 import { WhatsAppService } from '../services/whatsapp.service';
 import { ConversationService } from '../services/conversation.service';
+import { InteractiveReply } from '../utils/interactive-reply';
+import { ReminderDeliveryChannel } from '../types';
+import { env } from '../config/env';
 import { logger } from '../config/logger';
 
+/**
+ * What went out for a reminder, as it's kept in the conversation history
+ */
+interface SentReminder {
+  messageId: string;
+  messageText: string; // Session text, or the template's parameter (the rest of a template is fixed on WhatsApp's side)
+  template?: { name: string; language: string; parameters: string[] };
+}
+
 export class ReminderWorker {
   private worker: Worker<ReminderJobData>;
   private reminderService: ReminderService;
   private whatsappService: WhatsAppService;
   private conversationService: ConversationService;
+  private userService: UserService;
+  private messages: MessageTemplateService;
+  private reminderQueue: ReminderQueue;
 
   constructor() {
     this.reminderService = new ReminderService();
     this.whatsappService = new WhatsAppService();
     this.conversationService = new ConversationService();
+    this.userService = new UserService();
+    this.messages = new MessageTemplateService();
+    this.reminderQueue = new ReminderQueue();
 
     this.worker = new Worker<ReminderJobData>(
       'reminders',
@@ -47,62 +70,179 @@ export class ReminderWorker {
 
   /**
    * Process a reminder job
+   * Only a failed send marks the reminder failed; once it's delivered, trouble recording it is just logged
+   * so the user isn't sent it again.
    */
   private async processReminder(job: Job<ReminderJobData>): Promise<void> {
     const { reminderId, userId, phoneNumber, reminderText } = job.data;
 
     logger.info({ reminderId, userId }, 'Processing reminder');
 
-    try {
-      // Check if reminder still exists and is pending
-      const reminder = await this.reminderService.getReminderById(reminderId);
+    // Check if reminder still exists and is pending
+    const reminder = await this.reminderService.getReminderById(reminderId);
 
-      if (!reminder) {
-        logger.warn({ reminderId }, 'Reminder not found, skipping');
-        return;
-      }
+    if (!reminder) {
+      logger.warn({ reminderId }, 'Reminder not found, skipping');
+      return;
+    }
 
-      if (reminder.status !== 'pending') {
-        logger.warn(
-          { reminderId, status: reminder.status },
-          'Reminder is not pending, skipping'
-        );
-        return;
-      }
+    if (reminder.status !== 'pending') {
+      logger.warn(
+        { reminderId, status: reminder.status },
+        'Reminder is not pending, skipping'
+      );
+      return;
+    }
+
+    // Queue the next occurrence of a repeating reminder first, so one failed send doesn't end the series
+    // (a retry won't queue it twice: the occurrence remembers its nextOccurrenceId)
+    if (reminder.recurrence) {
+      await this.scheduleNextOccurrence(reminder, phoneNumber);
+    }
 
-      // Send WhatsApp message
-      const message = `Your time is up, ${reminderText}`;
+    // Send WhatsApp message - free-form while the user's session window is open, a template after
+    const message = this.messages.render('reminderNotification', { TASK: reminderText });
+    const deliveryChannel: ReminderDeliveryChannel = (await this.conversationService.isSessionOpen(userId))
+      ? 'session'
+      : 'template';
 
-      const result = await this.whatsappService.sendTextMessage({
-        to: phoneNumber,
-        message,
-      });
+    let sent: SentReminder;
+    try {
+      sent = deliveryChannel === 'session'
+        ? await this.sendSessionReminder(reminderId, phoneNumber, message)
+        : await this.sendTemplateReminder(phoneNumber, reminderText);
+    } catch (error) {
+      logger.error({ error, reminderId }, 'Failed to send reminder');
+
+      // Mark reminder as failed
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.reminderService.markAsFailed(reminderId, errorMessage);
 
+      throw error; // Re-throw so the job is recorded as failed
+    }
+
+    try {
       // Update reminder status
-      await this.reminderService.markAsSent(reminderId, result.messageId);
+      await this.reminderService.markAsSent(reminderId, sent.messageId, deliveryChannel);
 
       // Store outbound message in conversation history
       await this.conversationService.storeMessage({
         userId,
         direction: 'outbound',
-        messageText: message,
-        whatsappMessageId: result.messageId,
-        detectedIntent: 'create_reminder',
+        messageText: sent.messageText,
+        whatsappMessageId: sent.messageId,
+        detectedIntent: 'reminder_due',
         relatedReminderId: reminderId,
+        metadata: { deliveryChannel, ...(sent.template && { template: sent.template }) },
       });
+    } catch (error) {
+      logger.error({ error, reminderId, messageId: sent.messageId }, 'Reminder sent but not recorded');
+      return;
+    }
 
-      logger.info(
-        { reminderId, messageId: result.messageId },
-        'Reminder sent successfully'
+    logger.info(
+      { reminderId, messageId: sent.messageId, deliveryChannel },
+      'Reminder sent successfully'
+    );
+  }
+
+  /**
+   * Send a reminder as a free-form message, with done / snooze buttons
+   * Typed replies ("done", "snooze 1 hour") still work too.
+   */
+  private async sendSessionReminder(
+    reminderId: string,
+    phoneNumber: string,
+    message: string
+  ): Promise<SentReminder> {
+    const { messageId } = await this.whatsappService.sendButtonMessage({
+      to: phoneNumber,
+      message,
+      buttons: [
+        { id: InteractiveReply.encode('reminder_done', reminderId), title: this.messages.render('buttonDone') },
+        { id: InteractiveReply.encode('reminder_snooze', reminderId, 10), title: this.messages.render('buttonSnooze10') },
+        { id: InteractiveReply.encode('reminder_snooze', reminderId, 60), title: this.messages.render('buttonSnooze60') },
+      ],
+    });
+
+    return { messageId, messageText: message };
+  }
+
+  /**
+   * Send a reminder through the approved reminder template, for users outside the 24h session window
+   * Template parameters can't hold line breaks or long runs of spaces, so the task is flattened to one line.
+   */
+  private async sendTemplateReminder(phoneNumber: string, reminderText: string): Promise<SentReminder> {
+    const template = {
+      name: env.WHATSAPP_REMINDER_TEMPLATE,
+      language: env.WHATSAPP_REMINDER_TEMPLATE_LANGUAGE,
+      parameters: [reminderText.replace(/\s+/g, ' ').trim()],
+    };
+
+    const { messageId } = await this.whatsappService.sendTemplateMessage(
+      phoneNumber,
+      template.name,
+      template.parameters,
+      template.language
+    );
+
+    return { messageId, messageText: template.parameters[0], template };
+  }
+
+  /**
+   * Create and enqueue the next occurrence of a recurring reminder
+   */
+  private async scheduleNextOccurrence(reminder: Reminder, phoneNumber: string): Promise<void> {
+    const metadata = (reminder.metadata as Record<string, any>) || {};
+
+    // Only ever spawn one follow-up per occurrence
+    if (metadata.nextOccurrenceId) {
+      logger.debug({ reminderId: reminder.id }, 'Next occurrence already scheduled');
+      return;
+    }
+
+    try {
+      // Occurrences follow the user's local calendar, so DST and timezone changes are respected
+      const user = await this.userService.getUserById(reminder.userId);
+      const recurrenceService = new RecurrenceService(new TimeService(user?.timezone));
+      const nextTime = recurrenceService.getNextOccurrence(
+        reminder.recurrence as string,
+        new Date(Math.max(Date.now(), reminder.scheduledTime.getTime())),
+        reminder.scheduledTime
       );
-    } catch (error) {
-      logger.error({ error, reminderId }, 'Failed to send reminder');
 
-      // Mark reminder as failed
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      await this.reminderService.markAsFailed(reminderId, errorMessage);
+      if (!nextTime) {
+        logger.warn(
+          { reminderId: reminder.id, recurrence: reminder.recurrence },
+          'Could not compute next occurrence, series stopped'
+        );
+        return;
+      }
 
-      throw error; // Re-throw to trigger retry
+      const nextReminder = await this.reminderService.createReminder({
+        userId: reminder.userId,
+        reminderText: reminder.reminderText,
+        scheduledTime: nextTime,
+        recurrence: reminder.recurrence,
+        metadata: {
+          ...metadata,
+          previousOccurrenceId: reminder.id,
+        },
+      });
+
+      await this.reminderService.updateReminder(reminder.id, {
+        metadata: { ...metadata, nextOccurrenceId: nextReminder.id },
+      });
+
+      await this.reminderQueue.scheduleReminder(nextReminder, phoneNumber);
+
+      logger.info(
+        { reminderId: reminder.id, nextReminderId: nextReminder.id, nextTime },
+        'Next occurrence scheduled'
+      );
+    } catch (error) {
+      // The series is only a follow-up to this occurrence - never fail its send for this
+      logger.error({ error, reminderId: reminder.id }, 'Failed to schedule next occurrence');
     }
   }
 
@@ -111,6 +251,7 @@ export class ReminderWorker {
    */
   async close(): Promise<void> {
     await this.worker.close();
+    await this.reminderQueue.close();
     logger.info('Reminder worker closed');
   }
 }
@@ -0,0 +1,73 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AdminAuthService } from '../services/admin-auth.service';
+import { AdminScope } from '../types';
+import { logger } from '../config/logger';
+
+const adminAuthService = new AdminAuthService();
+
+/**
+ * Extract the admin token from the request
+ * Accepts "Authorization: Bearer <token>" for API clients and
+ * "Authorization: Basic" (token as the password) so browsers can open the dashboard
+ */
+function extractToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, credentials] = header.split(' ');
+  if (!credentials) {
+    return null;
+  }
+
+  if (scheme.toLowerCase() === 'bearer') {
+    return credentials.trim();
+  }
+
+  if (scheme.toLowerCase() === 'basic') {
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    return separator >= 0 ? decoded.slice(separator + 1) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Require an admin token with the given scope
+ * Responds 401 for a missing, unknown or revoked token and 403 for a token without the scope.
+ * The authenticated principal is available as res.locals.admin.
+ *
+ * @param scope - Scope the route needs
+ * @param options.browser - Ask the browser for credentials (Basic auth prompt) on 401
+ */
+export function requireAdmin(scope: AdminScope, options: { browser?: boolean } = {}): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const token = extractToken(req);
+      const principal = token ? await adminAuthService.authenticate(token) : null;
+
+      if (!principal) {
+        logger.warn({ path: req.path, hasToken: !!token }, 'Admin request rejected: unauthenticated');
+        if (options.browser) {
+          res.setHeader('WWW-Authenticate', 'Basic realm="Pin Me Admin", charset="UTF-8"');
+        }
+        res.status(401).json({ error: token ? 'Invalid or revoked token' : 'Missing admin token' });
+        return;
+      }
+
+      if (!adminAuthService.hasScope(principal, scope)) {
+        logger.warn({ path: req.path, admin: principal.name, scope }, 'Admin request rejected: missing scope');
+        res.status(403).json({ error: `Token lacks the "${scope}" scope` });
+        return;
+      }
+
+      res.locals.admin = principal;
+      next();
+    } catch (error) {
+      logger.error({ error, path: req.path }, 'Error authenticating admin request');
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
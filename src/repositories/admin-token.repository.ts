@@ -0,0 +1,39 @@
+import { getPrismaClient } from '../config/database';
+import { AdminScope } from '../types';
+import { AdminToken } from '@prisma/client';
+
+export class AdminTokenRepository {
+  private prisma = getPrismaClient();
+
+  async create(input: { name: string; tokenHash: string; scopes: AdminScope[] }): Promise<AdminToken> {
+    return this.prisma.adminToken.create({
+      data: input,
+    });
+  }
+
+  async findByHash(tokenHash: string): Promise<AdminToken | null> {
+    return this.prisma.adminToken.findUnique({
+      where: { tokenHash },
+    });
+  }
+
+  async findAll(): Promise<AdminToken[]> {
+    return this.prisma.adminToken.findMany({
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async revoke(id: string): Promise<AdminToken> {
+    return this.prisma.adminToken.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.prisma.adminToken.update({
+      where: { id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+}
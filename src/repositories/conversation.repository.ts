@@ -1,5 +1,5 @@
 import { getPrismaClient } from '../config/database';
-import { CreateConversationInput } from '../types';
+import { CreateConversationInput, UpdateConversationDeliveryInput } from '../types';
 import { Conversation } from '@prisma/client';
 
 export class ConversationRepository {
@@ -12,6 +12,8 @@ export class ConversationRepository {
         direction: input.direction,
         messageText: input.messageText,
         whatsappMessageId: input.whatsappMessageId,
+        mediaId: input.mediaId,
+        transcript: input.transcript,
         detectedIntent: input.detectedIntent,
         extractedData: input.extractedData as any,
         activeFlow: input.activeFlow,
@@ -21,6 +23,19 @@ export class ConversationRepository {
     });
   }
 
+  async findByWhatsappMessageId(whatsappMessageId: string): Promise<Conversation | null> {
+    return this.prisma.conversation.findFirst({
+      where: { whatsappMessageId },
+    });
+  }
+
+  async updateDelivery(id: string, data: UpdateConversationDeliveryInput): Promise<Conversation> {
+    return this.prisma.conversation.update({
+      where: { id },
+      data,
+    });
+  }
+
   async findRecentByUserId(
     userId: string,
     limit: number = 20
@@ -32,6 +47,16 @@ export class ConversationRepository {
     });
   }
 
+  /**
+   * Every message with a user, oldest first
+   */
+  async findAllByUserId(userId: string): Promise<Conversation[]> {
+    return this.prisma.conversation.findMany({
+      where: { userId },
+      orderBy: { timestamp: 'asc' },
+    });
+  }
+
   async findLastInboundMessage(userId: string): Promise<Conversation | null> {
     return this.prisma.conversation.findFirst({
       where: {
@@ -0,0 +1,52 @@
+import { getPrismaClient } from '../config/database';
+import { CreateExpenseGroupInput } from '../types';
+import { ExpenseGroup, ExpenseGroupMember } from '@prisma/client';
+
+export type ExpenseGroupWithMembers = ExpenseGroup & { members: ExpenseGroupMember[] };
+
+export class ExpenseGroupRepository {
+  private prisma = getPrismaClient();
+
+  async create(input: CreateExpenseGroupInput): Promise<ExpenseGroupWithMembers> {
+    return this.prisma.expenseGroup.create({
+      data: {
+        userId: input.userId,
+        name: input.name,
+        members: {
+          create: input.members.map((name) => ({ name })),
+        },
+      },
+      include: { members: true },
+    });
+  }
+
+  async findByUserId(userId: string, includeArchived: boolean = false): Promise<ExpenseGroupWithMembers[]> {
+    return this.prisma.expenseGroup.findMany({
+      where: {
+        userId,
+        ...(!includeArchived && { archivedAt: null }),
+      },
+      include: { members: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async addMembers(groupId: string, names: string[]): Promise<ExpenseGroupWithMembers> {
+    await this.prisma.expenseGroupMember.createMany({
+      data: names.map((name) => ({ groupId, name })),
+      skipDuplicates: true,
+    });
+
+    return this.prisma.expenseGroup.findUniqueOrThrow({
+      where: { id: groupId },
+      include: { members: true },
+    });
+  }
+
+  async archive(groupId: string): Promise<ExpenseGroup> {
+    return this.prisma.expenseGroup.update({
+      where: { id: groupId },
+      data: { archivedAt: new Date() },
+    });
+  }
+}
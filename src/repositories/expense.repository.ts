@@ -0,0 +1,130 @@
+import { getPrismaClient } from '../config/database';
+import { CreateExpenseInput, CreateSettlementInput, ParticipantShare, UpdateExpenseInput } from '../types';
+import { Expense, ExpenseGroup, ExpenseParticipant, Settlement } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+
+export type ExpenseWithParticipants = Expense & {
+  participants: ExpenseParticipant[];
+  group: ExpenseGroup | null;
+};
+
+export class ExpenseRepository {
+  private prisma = getPrismaClient();
+
+  async create(input: CreateExpenseInput): Promise<ExpenseWithParticipants> {
+    return this.prisma.expense.create({
+      data: {
+        userId: input.userId,
+        totalAmount: new Decimal(input.totalAmount.toFixed(2)),
+        currency: input.currency,
+        description: input.description,
+        category: input.category,
+        paidBy: input.paidBy,
+        groupId: input.groupId,
+        participants: {
+          create: this.participantRows(input.participants),
+        },
+      },
+      include: { participants: true, group: true },
+    });
+  }
+
+  async findById(id: string): Promise<ExpenseWithParticipants | null> {
+    return this.prisma.expense.findUnique({
+      where: { id },
+      include: { participants: true, group: true },
+    });
+  }
+
+  async findByUserId(userId: string, limit?: number): Promise<ExpenseWithParticipants[]> {
+    return this.prisma.expense.findMany({
+      where: { userId },
+      include: { participants: true, group: true },
+      orderBy: { createdAt: 'desc' },
+      ...(limit && { take: limit }),
+    });
+  }
+
+  /**
+   * Expenses created in [from, to), oldest first
+   */
+  async findByUserIdBetween(userId: string, from: Date, to: Date): Promise<ExpenseWithParticipants[]> {
+    return this.prisma.expense.findMany({
+      where: { userId, createdAt: { gte: from, lt: to } },
+      include: { participants: true, group: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findByGroupId(groupId: string): Promise<ExpenseWithParticipants[]> {
+    return this.prisma.expense.findMany({
+      where: { groupId },
+      include: { participants: true, group: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Update an expense; new shares replace all of its participants
+   */
+  async update(id: string, input: UpdateExpenseInput): Promise<ExpenseWithParticipants> {
+    return this.prisma.expense.update({
+      where: { id },
+      data: {
+        ...(input.totalAmount !== undefined && { totalAmount: new Decimal(input.totalAmount.toFixed(2)) }),
+        ...(input.currency && { currency: input.currency }),
+        ...(input.description !== undefined && { description: input.description }),
+        ...(input.category && { category: input.category }),
+        ...(input.participants && {
+          participants: {
+            deleteMany: {},
+            create: this.participantRows(input.participants),
+          },
+        }),
+      },
+      include: { participants: true, group: true },
+    });
+  }
+
+  async delete(id: string): Promise<Expense> {
+    return this.prisma.expense.delete({
+      where: { id },
+    });
+  }
+
+  async createSettlement(input: CreateSettlementInput): Promise<Settlement> {
+    return this.prisma.settlement.create({
+      data: {
+        userId: input.userId,
+        fromName: input.fromName,
+        toName: input.toName,
+        amount: new Decimal(input.amount.toFixed(2)),
+        currency: input.currency,
+        groupId: input.groupId,
+      },
+    });
+  }
+
+  async findSettlementsByUserId(userId: string): Promise<Settlement[]> {
+    return this.prisma.settlement.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findSettlementsByGroupId(groupId: string): Promise<Settlement[]> {
+    return this.prisma.settlement.findMany({
+      where: { groupId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private participantRows(participants: ParticipantShare[]) {
+    return participants.map((participant) => ({
+      name: participant.name,
+      share: new Decimal(participant.amount.toFixed(2)),
+      splitType: participant.type,
+      splitValue: participant.value !== undefined ? new Decimal(participant.value) : null,
+    }));
+  }
+}
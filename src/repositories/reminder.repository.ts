@@ -1,5 +1,5 @@
 import { getPrismaClient } from '../config/database';
-import { CreateReminderInput, UpdateReminderInput, ReminderStatus } from '../types';
+import { CreateReminderInput, UpdateReminderInput, ReminderDeliveryChannel, ReminderStatus } from '../types';
 import { Reminder } from '@prisma/client';
 
 export class ReminderRepository {
@@ -11,6 +11,7 @@ export class ReminderRepository {
         userId: input.userId,
         reminderText: input.reminderText,
         scheduledTime: input.scheduledTime,
+        recurrence: input.recurrence,
         metadata: input.metadata as any,
       },
     });
@@ -22,6 +23,12 @@ export class ReminderRepository {
     });
   }
 
+  async findByWhatsappMsgId(whatsappMsgId: string): Promise<Reminder | null> {
+    return this.prisma.reminder.findFirst({
+      where: { whatsappMsgId },
+    });
+  }
+
   async findByUserId(userId: string, status?: ReminderStatus): Promise<Reminder[]> {
     return this.prisma.reminder.findMany({
       where: {
@@ -45,7 +52,10 @@ export class ReminderRepository {
   async update(id: string, data: UpdateReminderInput): Promise<Reminder> {
     return this.prisma.reminder.update({
       where: { id },
-      data,
+      data: {
+        ...data,
+        metadata: data.metadata as any,
+      },
     });
   }
 
@@ -53,18 +63,54 @@ export class ReminderRepository {
     return this.update(id, { status: 'cancelled' });
   }
 
-  async markAsSent(id: string, whatsappMsgId: string): Promise<Reminder> {
+  async markAsSent(id: string, whatsappMsgId: string, deliveryChannel: ReminderDeliveryChannel): Promise<Reminder> {
     return this.update(id, {
       status: 'sent',
       sentAt: new Date(),
       whatsappMsgId,
+      deliveryChannel,
     });
   }
 
-  async markAsDelivered(id: string): Promise<Reminder> {
+  async markAsDelivered(id: string, deliveredAt: Date = new Date()): Promise<Reminder> {
     return this.update(id, {
       status: 'delivered',
-      deliveredAt: new Date(),
+      deliveredAt,
+    });
+  }
+
+  async markAsRead(id: string, readAt: Date = new Date()): Promise<Reminder> {
+    return this.update(id, {
+      status: 'read',
+      readAt,
+    });
+  }
+
+  /**
+   * Push a reminder back: reschedule it and record the snooze
+   */
+  async snooze(id: string, snoozedUntil: Date): Promise<Reminder> {
+    const [, reminder] = await this.prisma.$transaction([
+      this.prisma.reminderSnooze.create({
+        data: { reminderId: id, snoozedUntil },
+      }),
+      this.prisma.reminder.update({
+        where: { id },
+        data: {
+          status: 'pending',
+          scheduledTime: snoozedUntil,
+          snoozeCount: { increment: 1 },
+        },
+      }),
+    ]);
+
+    return reminder;
+  }
+
+  async markAsCompleted(id: string): Promise<Reminder> {
+    return this.update(id, {
+      status: 'completed',
+      completedAt: new Date(),
     });
   }
 
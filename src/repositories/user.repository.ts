@@ -1,5 +1,5 @@
 import { getPrismaClient } from '../config/database';
-import { CreateUserInput } from '../types';
+import { CreateUserInput, UpdateUserInput } from '../types';
 import { User } from '@prisma/client';
 
 export class UserRepository {
@@ -27,7 +27,7 @@ export class UserRepository {
     });
   }
 
-  async update(id: string, data: Partial<CreateUserInput>): Promise<User> {
+  async update(id: string, data: UpdateUserInput): Promise<User> {
     return this.prisma.user.update({
       where: { id },
       data,
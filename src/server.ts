@@ -6,6 +6,7 @@ import { disconnectRedis } from './config/redis';
 import { WebhookController } from './controllers/webhook.controller';
 import { AdminController } from './controllers/admin.controller';
 import { verifyWebhookSignature, handleWebhookVerification } from './middleware/webhook-verification';
+import { requireAdmin } from './middleware/admin-auth';
 import { ReminderWorker } from './jobs/reminder-worker';
 import { ReminderScheduler } from './jobs/scheduler';
 
@@ -18,8 +19,11 @@ app.use(express.json({
   }
 }));
 
-// Serve static files from public directory
-app.use(express.static('src/public'));
+// Admin dashboard - kept out of any static directory, so this guarded route is the only way to fetch it.
+// Browsers get a Basic auth prompt (any username, admin token as the password).
+app.get(['/admin.html', '/admin'], requireAdmin('stats:read', { browser: true }), (_req: Request, res: Response) => {
+  res.sendFile('admin.html', { root: 'src/views' });
+});
 
 // Health check endpoint
 app.get('/health', (_req: Request, res: Response) => {
@@ -41,38 +45,56 @@ app.post(
   (req: Request, res: Response) => webhookController.handleWebhook(req, res)
 );
 
-// Admin endpoints
+// Admin endpoints - every route requires a token (Authorization: Bearer <token>) with the route's scope
 const adminController = new AdminController();
 
 // Delete user data (for testing) - DELETE method
-app.delete('/admin/delete/:phoneNumber', (req: Request, res: Response) =>
+app.delete('/admin/delete/:phoneNumber', requireAdmin('users:delete'), (req: Request, res: Response) =>
   adminController.deleteUserData(req, res)
 );
 
-// Delete user data (for testing) - GET method for easy browser access
-app.get('/admin/delete/:phoneNumber', (req: Request, res: Response) =>
-  adminController.deleteUserData(req, res)
+// Preview what deleting a user would remove - GET never deletes
+app.get('/admin/delete/:phoneNumber', requireAdmin('stats:read'), (req: Request, res: Response) =>
+  adminController.previewUserDeletion(req, res)
 );
 
 // Get user stats
-app.get('/admin/stats/:phoneNumber', (req: Request, res: Response) =>
+app.get('/admin/stats/:phoneNumber', requireAdmin('stats:read'), (req: Request, res: Response) =>
   adminController.getUserStats(req, res)
 );
 
+// Export a user's data (?format=csv|json&include=reminders,expenses,conversations)
+app.get('/admin/export/:phoneNumber', requireAdmin('users:export'), (req: Request, res: Response) =>
+  adminController.exportUserData(req, res)
+);
+
 // Bot configuration endpoints
-app.get('/admin/config', (req: Request, res: Response) =>
+app.get('/admin/config', requireAdmin('config:read'), (req: Request, res: Response) =>
   adminController.getConfig(req, res)
 );
 
-app.post('/admin/config', (req: Request, res: Response) =>
+app.post('/admin/config', requireAdmin('config:write'), (req: Request, res: Response) =>
   adminController.updateConfig(req, res)
 );
 
 // Dashboard statistics
-app.get('/admin/dashboard-stats', (req: Request, res: Response) =>
+app.get('/admin/dashboard-stats', requireAdmin('stats:read'), (req: Request, res: Response) =>
   adminController.getDashboardStats(req, res)
 );
 
+// Admin token management
+app.get('/admin/tokens', requireAdmin('tokens:manage'), (req: Request, res: Response) =>
+  adminController.listTokens(req, res)
+);
+
+app.post('/admin/tokens', requireAdmin('tokens:manage'), (req: Request, res: Response) =>
+  adminController.createToken(req, res)
+);
+
+app.delete('/admin/tokens/:id', requireAdmin('tokens:manage'), (req: Request, res: Response) =>
+  adminController.revokeToken(req, res)
+);
+
 // Initialize background services
 let reminderWorker: ReminderWorker;
 let reminderScheduler: ReminderScheduler;
@@ -0,0 +1,119 @@
+import { AdminAuthService } from '../admin-auth.service';
+import { AdminTokenRepository } from '../../repositories/admin-token.repository';
+
+// Mock the repository
+jest.mock('../../repositories/admin-token.repository');
+
+const ROOT_TOKEN = 'root-token-for-tests-only';
+
+describe('AdminAuthService', () => {
+  let service: AdminAuthService;
+  let mockRepository: jest.Mocked<AdminTokenRepository>;
+
+  beforeEach(() => {
+    mockRepository = new AdminTokenRepository() as jest.Mocked<AdminTokenRepository>;
+    mockRepository.touch.mockResolvedValue(undefined);
+    service = new AdminAuthService(mockRepository, ROOT_TOKEN);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('should accept the root token with every scope', async () => {
+      const principal = await service.authenticate(ROOT_TOKEN);
+
+      expect(principal).toEqual({ tokenId: null, name: 'root', scopes: ['*'] });
+      expect(mockRepository.findByHash).not.toHaveBeenCalled();
+    });
+
+    it('should accept an issued token and return its scopes', async () => {
+      mockRepository.findByHash.mockResolvedValue({
+        id: 'token-1',
+        name: 'support',
+        tokenHash: 'hash',
+        scopes: ['stats:read'],
+        createdAt: new Date(),
+        lastUsedAt: null,
+        revokedAt: null,
+      });
+
+      const principal = await service.authenticate('pinme_issued');
+
+      expect(principal).toEqual({ tokenId: 'token-1', name: 'support', scopes: ['stats:read'] });
+      expect(mockRepository.touch).toHaveBeenCalledWith('token-1');
+    });
+
+    it('should reject revoked tokens', async () => {
+      mockRepository.findByHash.mockResolvedValue({
+        id: 'token-1',
+        name: 'support',
+        tokenHash: 'hash',
+        scopes: ['*'],
+        createdAt: new Date(),
+        lastUsedAt: null,
+        revokedAt: new Date(),
+      });
+
+      expect(await service.authenticate('pinme_revoked')).toBeNull();
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockRepository.findByHash.mockResolvedValue(null);
+
+      expect(await service.authenticate('nope')).toBeNull();
+    });
+
+    it('should not accept an empty token when no root token is configured', async () => {
+      const withoutRoot = new AdminAuthService(mockRepository, '');
+      mockRepository.findByHash.mockResolvedValue(null);
+
+      expect(await withoutRoot.authenticate('')).toBeNull();
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should allow listed scopes and wildcard tokens only', () => {
+      const reader = { tokenId: 't', name: 'reader', scopes: ['stats:read' as const] };
+      const root = { tokenId: null, name: 'root', scopes: ['*' as const] };
+
+      expect(service.hasScope(reader, 'stats:read')).toBe(true);
+      expect(service.hasScope(reader, 'users:delete')).toBe(false);
+      expect(service.hasScope(root, 'users:delete')).toBe(true);
+    });
+  });
+
+  describe('ungrantableScopes', () => {
+    const manager = { tokenId: 't', name: 'manager', scopes: ['tokens:manage' as const, 'stats:read' as const] };
+    const root = { tokenId: null, name: 'root', scopes: ['*' as const] };
+
+    it('should only let a token grant scopes it holds', () => {
+      expect(service.ungrantableScopes(manager, ['stats:read'])).toEqual([]);
+      expect(service.ungrantableScopes(manager, ['stats:read', 'users:delete'])).toEqual(['users:delete']);
+    });
+
+    it('should only let a wildcard token grant the wildcard', () => {
+      expect(service.ungrantableScopes(manager, ['*'])).toEqual(['*']);
+      expect(service.ungrantableScopes(root, ['*', 'users:delete', 'config:write'])).toEqual([]);
+    });
+  });
+
+  describe('createToken', () => {
+    it('should store only a hash of the issued token', async () => {
+      mockRepository.create.mockImplementation(async (input) => ({
+        id: 'token-2',
+        ...input,
+        createdAt: new Date(),
+        lastUsedAt: null,
+        revokedAt: null,
+      }));
+
+      const { token, record } = await service.createToken({ name: 'ci', scopes: ['config:read'] });
+
+      expect(token).toMatch(/^pinme_[0-9a-f]{48}$/);
+      expect(record.tokenHash).not.toContain(token);
+      expect(record.tokenHash).toHaveLength(64);
+    });
+  });
+});
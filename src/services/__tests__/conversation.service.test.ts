@@ -126,6 +126,44 @@ describe('ConversationService', () => {
     });
   });
 
+  describe('isSessionOpen', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const lastMessageAt = (timestamp: string) =>
+      mockRepository.findLastInboundMessage.mockResolvedValue({
+        id: 'conv-1',
+        userId: 'user-123',
+        direction: 'inbound',
+        messageText: 'remind me to pay rent on friday',
+        timestamp: new Date(timestamp),
+      } as any);
+
+    it('should be open within 24 hours of the last inbound message', async () => {
+      lastMessageAt('2026-03-09T13:00:00Z');
+
+      await expect(service.isSessionOpen('user-123', now)).resolves.toBe(true);
+      expect(mockRepository.findLastInboundMessage).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should be closed once 24 hours have passed', async () => {
+      lastMessageAt('2026-03-08T09:00:00Z');
+
+      await expect(service.isSessionOpen('user-123', now)).resolves.toBe(false);
+    });
+
+    it('should close a few minutes early so messages at the edge are not rejected', async () => {
+      lastMessageAt('2026-03-09T12:02:00Z');
+
+      await expect(service.isSessionOpen('user-123', now)).resolves.toBe(false);
+    });
+
+    it('should be closed when the user has never messaged', async () => {
+      mockRepository.findLastInboundMessage.mockResolvedValue(null);
+
+      await expect(service.isSessionOpen('user-123', now)).resolves.toBe(false);
+      await expect(service.getLastInboundAt('user-123')).resolves.toBeNull();
+    });
+  });
+
   describe('getActiveReminderContext', () => {
     it('should detect active reminder flow', async () => {
       const mockMessages = [
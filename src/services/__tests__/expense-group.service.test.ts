@@ -0,0 +1,97 @@
+import { ExpenseGroupService } from '../expense-group.service';
+import { ExpenseGroupRepository } from '../../repositories/expense-group.repository';
+
+// Mock the repository
+jest.mock('../../repositories/expense-group.repository');
+
+const group = (id: string, name: string, members: string[], archivedAt: Date | null = null) => ({
+  id,
+  userId: 'user-123',
+  name,
+  archivedAt,
+  createdAt: new Date(),
+  members: members.map((member, i) => ({ id: `${id}-${i}`, groupId: id, name: member })),
+});
+
+describe('ExpenseGroupService', () => {
+  let service: ExpenseGroupService;
+  let mockRepository: jest.Mocked<ExpenseGroupRepository>;
+
+  beforeEach(() => {
+    mockRepository = new ExpenseGroupRepository() as jest.Mocked<ExpenseGroupRepository>;
+    service = new ExpenseGroupService(mockRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createGroup', () => {
+    it('should tidy the name and drop repeated members', async () => {
+      mockRepository.create.mockResolvedValue(group('g1', 'Flatmates', ['Rahul', 'Priya']) as any);
+
+      await service.createGroup('user-123', 'flatmates group', ['Rahul', 'Priya', 'rahul']);
+
+      expect(mockRepository.create).toHaveBeenCalledWith({
+        userId: 'user-123',
+        name: 'Flatmates',
+        members: ['Rahul', 'Priya'],
+      });
+    });
+  });
+
+  describe('findGroup', () => {
+    it('should match the name case-insensitively, preferring an active group', async () => {
+      mockRepository.findByUserId.mockResolvedValue([
+        group('old', 'Goa trip', ['Rahul'], new Date('2025-01-10')),
+        group('new', 'Goa Trip', ['Rahul', 'Priya']),
+      ] as any);
+
+      const found = await service.findGroup('user-123', 'goa  trip');
+
+      expect(mockRepository.findByUserId).toHaveBeenCalledWith('user-123', true);
+      expect(found?.id).toBe('new');
+    });
+
+    it('should return null when there is no such group', async () => {
+      mockRepository.findByUserId.mockResolvedValue([group('g1', 'Flatmates', ['Rahul'])] as any);
+
+      expect(await service.findGroup('user-123', 'office lunch')).toBeNull();
+    });
+  });
+
+  describe('addMembers', () => {
+    it('should only add people who are not in the group yet', async () => {
+      const flatmates = group('g1', 'Flatmates', ['Rahul']);
+      mockRepository.addMembers.mockResolvedValue(group('g1', 'Flatmates', ['Rahul', 'Neha']) as any);
+
+      await service.addMembers(flatmates as any, ['rahul', 'Neha']);
+
+      expect(mockRepository.addMembers).toHaveBeenCalledWith('g1', ['Neha']);
+    });
+
+    it('should not touch the group when everyone is already in it', async () => {
+      const flatmates = group('g1', 'Flatmates', ['Rahul']);
+
+      expect(await service.addMembers(flatmates as any, ['Rahul'])).toBe(flatmates);
+      expect(mockRepository.addMembers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('mentionedIn', () => {
+    const groups = [{ name: 'Goa' }, { name: 'Goa trip' }, { name: 'Flatmates' }];
+
+    it.each([
+      ['split 2400 with flatmates', 'Flatmates'],
+      ['goa trip balances', 'Goa trip'],
+      ['paid 900 for dinner in Goa', 'Goa'],
+      ['split 500 with the flatmates group', 'Flatmates'],
+    ])('should find the group in "%s"', (message, expected) => {
+      expect(ExpenseGroupService.mentionedIn(message, groups)?.name).toBe(expected);
+    });
+
+    it('should not match part of a word', () => {
+      expect(ExpenseGroupService.mentionedIn('split 300 for goan food', groups)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,321 @@
+import { ExpenseService } from '../expense.service';
+import { ExpenseRepository } from '../../repositories/expense.repository';
+import { LLMService } from '../llm.service';
+
+// Mock the repository and the LLM
+jest.mock('../../repositories/expense.repository');
+jest.mock('../llm.service');
+
+const expense = (paidBy: string, totalAmount: number, shares: Record<string, number>, currency = 'INR') => ({
+  paidBy,
+  totalAmount,
+  currency,
+  participants: Object.entries(shares).map(([name, share]) => ({ name, share })),
+});
+
+describe('ExpenseService', () => {
+  let service: ExpenseService;
+  let mockRepository: jest.Mocked<ExpenseRepository>;
+  let mockLLM: jest.Mocked<LLMService>;
+
+  beforeEach(() => {
+    mockRepository = new ExpenseRepository() as jest.Mocked<ExpenseRepository>;
+    mockLLM = new LLMService() as jest.Mocked<LLMService>;
+    service = new ExpenseService(mockRepository, mockLLM);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('netBalances', () => {
+    it('should credit the payer and debit every participant', () => {
+      const balances = ExpenseService.netBalances(
+        [
+          expense('You', 1200, { You: 400, Rahul: 400, Priya: 400 }),
+          expense('Rahul', 600, { You: 300, Rahul: 300 }),
+        ],
+        []
+      );
+
+      expect(balances).toEqual([
+        { name: 'You', currency: 'INR', net: 500 },
+        { name: 'Rahul', currency: 'INR', net: -100 },
+        { name: 'Priya', currency: 'INR', net: -400 },
+      ]);
+    });
+
+    it('should apply repayments and leave out people who are square', () => {
+      const balances = ExpenseService.netBalances(
+        [expense('You', 1000, { You: 500, Rahul: 500 })],
+        [{ fromName: 'rahul', toName: 'You', amount: 500, currency: 'INR' }]
+      );
+
+      expect(balances).toEqual([]);
+    });
+
+    it('should match names case-insensitively', () => {
+      const balances = ExpenseService.netBalances(
+        [expense('You', 900, { You: 300, Rahul: 300, rahul: 300 })],
+        []
+      );
+
+      expect(balances).toEqual([
+        { name: 'You', currency: 'INR', net: 600 },
+        { name: 'Rahul', currency: 'INR', net: -600 },
+      ]);
+    });
+
+    it('should keep each currency separate', () => {
+      const balances = ExpenseService.netBalances(
+        [
+          expense('You', 1000, { You: 500, Rahul: 500 }),
+          expense('rahul', 40, { You: 20, Rahul: 20 }, 'USD'),
+        ],
+        []
+      );
+
+      expect(balances).toEqual([
+        { name: 'You', currency: 'INR', net: 500 },
+        { name: 'Rahul', currency: 'INR', net: -500 },
+        { name: 'Rahul', currency: 'USD', net: 20 },
+        { name: 'You', currency: 'USD', net: -20 },
+      ]);
+    });
+  });
+
+  describe('settleUp', () => {
+    it('should settle everyone in the fewest payments', () => {
+      expect(
+        ExpenseService.settleUp([
+          { name: 'You', currency: 'INR', net: 700 },
+          { name: 'Amit', currency: 'INR', net: 100 },
+          { name: 'Priya', currency: 'INR', net: -500 },
+          { name: 'Rahul', currency: 'INR', net: -300 },
+        ])
+      ).toEqual([
+        { from: 'Priya', to: 'You', currency: 'INR', amount: 500 },
+        { from: 'Rahul', to: 'You', currency: 'INR', amount: 200 },
+        { from: 'Rahul', to: 'Amit', currency: 'INR', amount: 100 },
+      ]);
+    });
+
+    it('should keep the paise exact', () => {
+      expect(
+        ExpenseService.settleUp([
+          { name: 'You', currency: 'INR', net: 66.67 },
+          { name: 'Amit', currency: 'INR', net: -33.34 },
+          { name: 'Rahul', currency: 'INR', net: -33.33 },
+        ])
+      ).toEqual([
+        { from: 'Amit', to: 'You', currency: 'INR', amount: 33.34 },
+        { from: 'Rahul', to: 'You', currency: 'INR', amount: 33.33 },
+      ]);
+    });
+
+    it('should settle each currency on its own', () => {
+      expect(
+        ExpenseService.settleUp([
+          { name: 'You', currency: 'USD', net: 20 },
+          { name: 'Rahul', currency: 'INR', net: 500 },
+          { name: 'Rahul', currency: 'USD', net: -20 },
+          { name: 'You', currency: 'INR', net: -500 },
+        ])
+      ).toEqual([
+        { from: 'You', to: 'Rahul', currency: 'INR', amount: 500 },
+        { from: 'Rahul', to: 'You', currency: 'USD', amount: 20 },
+      ]);
+    });
+
+    it('should return no payments when everyone is square', () => {
+      expect(ExpenseService.settleUp([])).toEqual([]);
+    });
+  });
+
+  describe('getSettleUp', () => {
+    it('should settle up the user\'s expenses and repayments', async () => {
+      mockRepository.findByUserId.mockResolvedValue([
+        expense('Priya', 1500, { You: 500, Rahul: 500, Priya: 500 }),
+      ] as any);
+      mockRepository.findSettlementsByUserId.mockResolvedValue([
+        { fromName: 'Rahul', toName: 'Priya', amount: 200, currency: 'INR' },
+      ] as any);
+
+      const transfers = await service.getSettleUp('user-123');
+
+      expect(mockRepository.findByUserId).toHaveBeenCalledWith('user-123');
+      expect(transfers).toEqual([
+        { from: 'You', to: 'Priya', currency: 'INR', amount: 500 },
+        { from: 'Rahul', to: 'Priya', currency: 'INR', amount: 300 },
+      ]);
+    });
+  });
+
+  describe('resplit', () => {
+    it('should split a new total the same way as before', () => {
+      const allocation = ExpenseService.resplit(
+        [
+          { name: 'You', splitType: 'percentage', splitValue: 60 },
+          { name: 'Priya', splitType: 'percentage', splitValue: 40 },
+        ],
+        1800
+      );
+
+      expect(allocation).toEqual({
+        success: true,
+        shares: [
+          { name: 'You', type: 'percentage', value: 60, amount: 1080 },
+          { name: 'Priya', type: 'percentage', value: 40, amount: 720 },
+        ],
+      });
+    });
+
+    it('should keep fixed amounts and let the rest take up the difference', () => {
+      const allocation = ExpenseService.resplit(
+        [
+          { name: 'Rahul', splitType: 'exact', splitValue: 600 },
+          { name: 'You', splitType: 'equal', splitValue: null },
+          { name: 'Priya', splitType: 'equal', splitValue: null },
+        ],
+        1800
+      );
+
+      expect(allocation.success && allocation.shares.map((share) => share.amount)).toEqual([600, 600, 600]);
+    });
+
+    it('should fail when fixed amounts no longer add up to the total', () => {
+      const allocation = ExpenseService.resplit(
+        [
+          { name: 'Rahul', splitType: 'exact', splitValue: 600 },
+          { name: 'You', splitType: 'exact', splitValue: 600 },
+        ],
+        1500
+      );
+
+      expect(allocation).toEqual({ success: false, error: 'under_total', allocated: 1200 });
+    });
+  });
+
+  describe('updateExpense', () => {
+    it('should not change the total without new shares', async () => {
+      await expect(service.updateExpense('expense-1', { totalAmount: 1800 })).rejects.toThrow();
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should save the new total with its shares', async () => {
+      const participants = [
+        { name: 'You', type: 'equal' as const, amount: 900 },
+        { name: 'Rahul', type: 'equal' as const, amount: 900 },
+      ];
+
+      await service.updateExpense('expense-1', { totalAmount: 1800, participants });
+
+      expect(mockRepository.update).toHaveBeenCalledWith('expense-1', { totalAmount: 1800, participants });
+    });
+  });
+
+  describe('categorize', () => {
+    it('should use the keyword rules before asking the LLM', async () => {
+      expect(await service.categorize('Dinner at Toit')).toBe('food');
+      expect(mockLLM.categorizeExpense).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the LLM, then to other', async () => {
+      mockLLM.categorizeExpense.mockResolvedValueOnce('shopping').mockResolvedValueOnce(null);
+
+      expect(await service.categorize('Diwali decorations')).toBe('shopping');
+      expect(await service.categorize('Misc')).toBe('other');
+    });
+  });
+
+  describe('summarize', () => {
+    const spent = (
+      description: string,
+      totalAmount: number,
+      shares: Record<string, number>,
+      category: string | null = null,
+      currency = 'INR'
+    ) => ({ ...expense('You', totalAmount, shares, currency), description, category });
+
+    it('should split the user\'s share by category and every bill by person', () => {
+      const [summary] = ExpenseService.summarize([
+        spent('Dinner', 1500, { You: 500, Rahul: 500, Priya: 500 }),
+        spent('Cab', 600, { You: 300, rahul: 300 }, 'travel'),
+        spent('Lunch', 400, { Rahul: 200, Priya: 200 }),
+      ]);
+
+      expect(summary).toEqual({
+        currency: 'INR',
+        expenseCount: 3,
+        total: 2500,
+        yourShare: 800,
+        byCategory: [
+          { category: 'food', amount: 500 },
+          { category: 'travel', amount: 300 },
+        ],
+        byParticipant: [
+          { name: 'Rahul', amount: 1000 },
+          { name: 'You', amount: 800 },
+          { name: 'Priya', amount: 700 },
+        ],
+      });
+    });
+
+    it('should keep each currency separate', () => {
+      const summaries = ExpenseService.summarize([
+        spent('Dinner', 1000, { You: 500, Rahul: 500 }),
+        spent('Museum', 40, { You: 20, Rahul: 20 }, 'entertainment', 'EUR'),
+      ]);
+
+      expect(summaries.map((summary) => [summary.currency, summary.yourShare])).toEqual([
+        ['EUR', 20],
+        ['INR', 500],
+      ]);
+    });
+  });
+
+  describe('getMonthlySpending', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2026-03-10T06:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should compare the month with the one before, in the user\'s timezone', async () => {
+      const at = (createdAt: string, total: number) => ({
+        ...expense('You', total, { You: total / 2, Rahul: total / 2 }),
+        description: 'Dinner',
+        category: 'food',
+        createdAt: new Date(createdAt),
+      });
+      mockRepository.findByUserIdBetween.mockResolvedValue([
+        at('2026-02-28T19:00:00Z', 800), // 1 March, 00:30 in Kolkata
+        at('2026-02-20T10:00:00Z', 400),
+      ] as any);
+
+      const spending = await service.getMonthlySpending('user-123', 'Asia/Kolkata');
+
+      expect(mockRepository.findByUserIdBetween).toHaveBeenCalledWith(
+        'user-123',
+        new Date('2026-01-31T18:30:00Z'),
+        new Date('2026-03-31T18:30:00Z')
+      );
+      expect(spending.month).toBe('March 2026');
+      expect(spending.previousMonth).toBe('February 2026');
+      expect(spending.current[0].yourShare).toBe(400);
+      expect(spending.previous[0].yourShare).toBe(200);
+    });
+
+    it('should go back a month for last month\'s spending', async () => {
+      mockRepository.findByUserIdBetween.mockResolvedValue([]);
+
+      const spending = await service.getMonthlySpending('user-123', 'Asia/Kolkata', 3);
+
+      expect(spending.month).toBe('December 2025');
+      expect(spending.previousMonth).toBe('November 2025');
+      expect(spending.current).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { ExportService } from '../export.service';
+import { ReminderRepository } from '../../repositories/reminder.repository';
+import { ExpenseRepository } from '../../repositories/expense.repository';
+import { ConversationRepository } from '../../repositories/conversation.repository';
+
+// Mock the repositories
+jest.mock('../../repositories/reminder.repository');
+jest.mock('../../repositories/expense.repository');
+jest.mock('../../repositories/conversation.repository');
+
+const reminder = {
+  id: 'r1',
+  userId: 'user-123',
+  reminderText: 'pay rent, before 5th',
+  scheduledTime: new Date('2026-03-01T04:30:00Z'),
+  recurrence: null,
+  status: 'pending',
+  snoozeCount: 0,
+  createdAt: new Date('2026-02-20T10:00:00Z'),
+  sentAt: null,
+  deliveredAt: null,
+  readAt: null,
+  completedAt: null,
+};
+
+const expense = (id: string, createdAt: string, description: string) => ({
+  id,
+  userId: 'user-123',
+  description,
+  category: 'food',
+  totalAmount: 1200,
+  currency: 'INR',
+  paidBy: 'You',
+  groupId: null,
+  group: null,
+  createdAt: new Date(createdAt),
+  participants: [
+    { id: `${id}-p1`, expenseId: id, name: 'You', share: 600, splitType: 'equal', splitValue: null },
+    { id: `${id}-p2`, expenseId: id, name: 'Rahul', share: 600, splitType: 'equal', splitValue: null },
+  ],
+});
+
+describe('ExportService', () => {
+  let service: ExportService;
+  let mockReminders: jest.Mocked<ReminderRepository>;
+  let mockExpenses: jest.Mocked<ExpenseRepository>;
+  let mockConversations: jest.Mocked<ConversationRepository>;
+
+  beforeEach(() => {
+    mockReminders = new ReminderRepository() as jest.Mocked<ReminderRepository>;
+    mockExpenses = new ExpenseRepository() as jest.Mocked<ExpenseRepository>;
+    mockConversations = new ConversationRepository() as jest.Mocked<ConversationRepository>;
+    service = new ExportService(mockReminders, mockExpenses, mockConversations);
+
+    mockReminders.findByUserId.mockResolvedValue([reminder] as any);
+    mockExpenses.findByUserId.mockResolvedValue([
+      expense('e2', '2026-02-25T12:00:00Z', 'Cab'),
+      expense('e1', '2026-02-21T12:00:00Z', 'Dinner at Toit'),
+    ] as any);
+    mockConversations.findAllByUserId.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportUserData', () => {
+    it('should write a CSV file per dataset', async () => {
+      const files = await service.exportUserData('user-123', 'csv', ['reminders', 'expenses']);
+
+      expect(files.map((file) => file.mimeType)).toEqual(['text/csv', 'text/csv']);
+      expect(files[0].filename).toMatch(/^pin-me-reminders-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(files[1].filename).toMatch(/^pin-me-expenses-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(files.map((file) => file.records)).toEqual([1, 2]);
+    });
+
+    it('should only read the datasets asked for', async () => {
+      await service.exportUserData('user-123', 'csv', ['expenses']);
+
+      expect(mockExpenses.findByUserId).toHaveBeenCalledWith('user-123');
+      expect(mockReminders.findByUserId).not.toHaveBeenCalled();
+      expect(mockConversations.findAllByUserId).not.toHaveBeenCalled();
+    });
+
+    it('should write a row per expense participant, oldest expense first', async () => {
+      const [file] = await service.exportUserData('user-123', 'csv', ['expenses']);
+      const lines = file.content.trim().split('\r\n');
+
+      expect(lines[0]).toBe(
+        'expenseId,createdAt,description,category,totalAmount,currency,paidBy,group,participant,share,splitType,splitValue'
+      );
+      expect(lines).toHaveLength(5);
+      expect(lines[1]).toBe('e1,2026-02-21T12:00:00.000Z,Dinner at Toit,food,1200,INR,You,,You,600,equal,');
+      expect(lines[4]).toBe('e2,2026-02-25T12:00:00.000Z,Cab,food,1200,INR,You,,Rahul,600,equal,');
+    });
+
+    it('should quote reminder text with commas', async () => {
+      const [file] = await service.exportUserData('user-123', 'csv', ['reminders']);
+
+      expect(file.content).toContain('r1,"pay rent, before 5th",2026-03-01T04:30:00.000Z,,pending,0,');
+    });
+
+    it('should put every dataset in one JSON file with participants nested', async () => {
+      const files = await service.exportUserData('user-123', 'json', ['reminders', 'expenses', 'conversations']);
+
+      expect(files).toHaveLength(1);
+      expect(files[0].mimeType).toBe('application/json');
+      expect(files[0].records).toBe(3);
+
+      const data = JSON.parse(files[0].content);
+      expect(data.reminders).toHaveLength(1);
+      expect(data.conversations).toEqual([]);
+      expect(data.expenses[0]).toMatchObject({
+        id: 'e1',
+        totalAmount: 1200,
+        group: null,
+        participants: [
+          { name: 'You', share: 600, splitType: 'equal', splitValue: null },
+          { name: 'Rahul', share: 600, splitType: 'equal', splitValue: null },
+        ],
+      });
+    });
+
+    it('should leave out datasets that were not asked for in JSON', async () => {
+      const [file] = await service.exportUserData('user-123', 'json', ['expenses']);
+      const data = JSON.parse(file.content);
+
+      expect(data).not.toHaveProperty('reminders');
+      expect(data).not.toHaveProperty('conversations');
+    });
+  });
+});
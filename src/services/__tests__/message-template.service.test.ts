@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MessageTemplateService } from '../message-template.service';
+
+const baseConfig = {
+  botName: 'Pin Me',
+  greetingMessage: `hey, I'm {BOT_NAME}. what should I call you?`,
+  returningUserMessage: 'hey {NAME}!',
+  confirmationMessage: 'Reminder set for {TIME}: {TASK}',
+  reminderNotification: 'Your time is up, {TASK}',
+};
+
+describe('MessageTemplateService', () => {
+  let dir: string;
+  let configPath: string;
+  let service: MessageTemplateService;
+
+  const writeConfig = (config: unknown, mtime: Date) => {
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    fs.utimesSync(configPath, mtime, mtime);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bot-config-'));
+    configPath = path.join(dir, 'bot-config.json');
+    writeConfig(baseConfig, new Date('2025-01-01T00:00:00Z'));
+    service = new MessageTemplateService(configPath);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('render', () => {
+    it('should interpolate placeholders and the bot name', () => {
+      expect(service.render('greetingMessage')).toBe(`hey, I'm Pin Me. what should I call you?`);
+      expect(service.render('confirmationMessage', { TIME: 'today at 7:00 pm', TASK: 'call mom' })).toBe(
+        'Reminder set for today at 7:00 pm: call mom'
+      );
+    });
+
+    it('should fall back to default templates for messages not in the config', () => {
+      expect(service.render('reminderCancelled', { TASK: 'pay rent' })).toBe('done. cancelled: "pay rent"');
+    });
+
+    it('should leave placeholders without a value untouched', () => {
+      expect(service.render('confirmationMessage', { TIME: '7pm' })).toBe('Reminder set for 7pm: {TASK}');
+    });
+
+    it('should pick one of several variants', () => {
+      writeConfig({ ...baseConfig, messages: { thanks: ['a', 'b'] } }, new Date('2025-01-02T00:00:00Z'));
+
+      expect(['a', 'b']).toContain(service.render('thanks'));
+    });
+  });
+
+  describe('hot reload', () => {
+    it('should pick up changes to the file', () => {
+      writeConfig({ ...baseConfig, botName: 'Remi' }, new Date('2025-01-02T00:00:00Z'));
+
+      expect(service.render('greetingMessage')).toBe(`hey, I'm Remi. what should I call you?`);
+    });
+
+    it('should keep the last valid config when the file becomes invalid', () => {
+      service.render('greetingMessage');
+      fs.writeFileSync(configPath, '{ not json');
+      fs.utimesSync(configPath, new Date('2025-01-03T00:00:00Z'), new Date('2025-01-03T00:00:00Z'));
+
+      expect(service.render('greetingMessage')).toBe(`hey, I'm Pin Me. what should I call you?`);
+    });
+  });
+
+  describe('validate', () => {
+    it('should reject unknown messages and placeholders', () => {
+      const result = MessageTemplateService.validate({
+        ...baseConfig,
+        reminderNotification: 'Your time is up, {TASKS}',
+        messages: { notARealMessage: 'hi' },
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.errors).toEqual([
+          expect.stringContaining('reminderNotification: unknown placeholder {TASKS}'),
+          'messages.notARealMessage: unknown message',
+        ]);
+      }
+    });
+
+    it('should reject missing fields', () => {
+      const { botName: _botName, ...withoutName } = baseConfig;
+
+      expect(MessageTemplateService.validate(withoutName).success).toBe(false);
+    });
+  });
+
+  describe('save', () => {
+    it('should merge updates into the file and apply them immediately', () => {
+      const result = service.save({ botName: 'Remi' });
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf8')).confirmationMessage).toBe(baseConfig.confirmationMessage);
+      expect(service.render('greetingMessage')).toBe(`hey, I'm Remi. what should I call you?`);
+    });
+
+    it('should not write an invalid update', () => {
+      const result = service.save({ confirmationMessage: 'set for {WHEN}' });
+
+      expect(result.success).toBe(false);
+      expect(JSON.parse(fs.readFileSync(configPath, 'utf8'))).toEqual(baseConfig);
+    });
+  });
+});
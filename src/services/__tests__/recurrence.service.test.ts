@@ -0,0 +1,113 @@
+import { RecurrenceService } from '../recurrence.service';
+
+// Kolkata is UTC+5:30, so 9:00 local is 03:30 UTC
+describe('RecurrenceService', () => {
+  let service: RecurrenceService;
+
+  beforeEach(() => {
+    service = new RecurrenceService();
+  });
+
+  describe('parse / format', () => {
+    it('should round-trip a weekly rule', () => {
+      const rule = service.parse('RRULE:FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0');
+
+      expect(rule).toEqual({ freq: 'WEEKLY', interval: 1, byDay: [1, 3], byHour: 9, byMinute: 0 });
+      expect(service.format(rule!)).toBe('FREQ=WEEKLY;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0');
+    });
+
+    it('should reject unsupported frequencies and bad values', () => {
+      expect(service.parse('FREQ=HOURLY')).toBeNull();
+      expect(service.parse('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+      expect(service.parse('FREQ=MONTHLY;BYMONTHDAY=40')).toBeNull();
+    });
+  });
+
+  describe('withTime', () => {
+    it('should move the schedule to a new time of day and keep the rest', () => {
+      expect(service.withTime('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=9;BYMINUTE=0', 10, 30)).toBe(
+        'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;BYHOUR=10;BYMINUTE=30'
+      );
+    });
+
+    it('should add a time to a rule that had none', () => {
+      expect(service.withTime('FREQ=DAILY', 7, 0)).toBe('FREQ=DAILY;BYHOUR=7;BYMINUTE=0');
+    });
+
+    it('should return null for rules it cannot read', () => {
+      expect(service.withTime('FREQ=HOURLY', 7, 0)).toBeNull();
+    });
+  });
+
+  describe('describe', () => {
+    it.each([
+      ['FREQ=DAILY', 'every day'],
+      ['FREQ=DAILY;INTERVAL=3', 'every 3 days'],
+      ['FREQ=WEEKLY;BYDAY=MO', 'every monday'],
+      ['FREQ=WEEKLY;BYDAY=TU,TH', 'every tuesday and thursday'],
+      ['FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR', 'every weekday'],
+      ['FREQ=WEEKLY;INTERVAL=2;BYDAY=FR', 'every 2 weeks on friday'],
+      ['FREQ=MONTHLY;BYMONTHDAY=1', 'on the 1st of every month'],
+    ])('should describe %s as "%s"', (rrule, expected) => {
+      expect(service.describe(rrule)).toBe(expected);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should move a daily reminder to the same time tomorrow', () => {
+      const previous = new Date('2025-03-10T03:30:00Z'); // Mon 9:00 IST
+      const next = service.getNextOccurrence('FREQ=DAILY;BYHOUR=9;BYMINUTE=0', previous, previous);
+
+      expect(next?.toISOString()).toBe('2025-03-11T03:30:00.000Z');
+    });
+
+    it('should respect the interval from the previous occurrence', () => {
+      const previous = new Date('2025-03-10T03:30:00Z');
+      const next = service.getNextOccurrence('FREQ=DAILY;INTERVAL=3', previous, previous);
+
+      expect(next?.toISOString()).toBe('2025-03-13T03:30:00.000Z');
+    });
+
+    it('should find the next matching weekday', () => {
+      const previous = new Date('2025-03-10T03:30:00Z'); // Monday
+      const next = service.getNextOccurrence('FREQ=WEEKLY;BYDAY=MO,TH;BYHOUR=9;BYMINUTE=0', previous, previous);
+
+      expect(next?.toISOString()).toBe('2025-03-13T03:30:00.000Z'); // Thursday
+    });
+
+    it('should skip weeks for bi-weekly rules', () => {
+      const previous = new Date('2025-03-14T03:30:00Z'); // Friday
+      const next = service.getNextOccurrence('FREQ=WEEKLY;INTERVAL=2;BYDAY=FR', previous, previous);
+
+      expect(next?.toISOString()).toBe('2025-03-28T03:30:00.000Z');
+    });
+
+    it('should clamp monthly rules to the end of short months', () => {
+      const previous = new Date('2025-01-31T03:30:00Z');
+      const february = service.getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=31', previous, previous);
+      const march = service.getNextOccurrence('FREQ=MONTHLY;BYMONTHDAY=31', february!, february!);
+
+      expect(february?.toISOString()).toBe('2025-02-28T03:30:00.000Z');
+      expect(march?.toISOString()).toBe('2025-03-31T03:30:00.000Z');
+    });
+
+    it('should return the first occurrence later today when there is no anchor', () => {
+      const now = new Date('2025-03-10T02:00:00Z'); // 7:30 IST
+      const next = service.getNextOccurrence('FREQ=DAILY;BYHOUR=9;BYMINUTE=0', now);
+
+      expect(next?.toISOString()).toBe('2025-03-10T03:30:00.000Z');
+    });
+
+    it('should catch up past missed occurrences', () => {
+      const previous = new Date('2025-03-10T03:30:00Z');
+      const now = new Date('2025-03-12T12:00:00Z');
+      const next = service.getNextOccurrence('FREQ=DAILY;BYHOUR=9;BYMINUTE=0', now, previous);
+
+      expect(next?.toISOString()).toBe('2025-03-13T03:30:00.000Z');
+    });
+
+    it('should return null for an invalid rule', () => {
+      expect(service.getNextOccurrence('FREQ=YEARLY', new Date())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { TimeService } from '../time.service';
+
+describe('TimeService', () => {
+  describe('createDateTimeOn', () => {
+    it('should resolve wall-clock times in a fixed-offset timezone', () => {
+      const dubai = new TimeService('Asia/Dubai');
+
+      expect(dubai.createDateTimeOn(2025, 3, 10, 9, 0).toISOString()).toBe('2025-03-10T05:00:00.000Z');
+    });
+
+    it('should apply the offset in effect on each side of a DST change', () => {
+      const london = new TimeService('Europe/London');
+
+      // Clocks go forward on 2025-03-30
+      expect(london.createDateTimeOn(2025, 3, 29, 9, 0).toISOString()).toBe('2025-03-29T09:00:00.000Z');
+      expect(london.createDateTimeOn(2025, 3, 30, 9, 0).toISOString()).toBe('2025-03-30T08:00:00.000Z');
+    });
+
+    it('should roll day overflow into the next month', () => {
+      const kolkata = new TimeService('Asia/Kolkata');
+
+      expect(kolkata.createDateTimeOn(2025, 1, 32, 9, 0).toISOString()).toBe('2025-02-01T03:30:00.000Z');
+    });
+  });
+
+  describe('getComponents', () => {
+    it('should report midnight as hour 0', () => {
+      const kolkata = new TimeService('Asia/Kolkata');
+      const components = kolkata.getComponents(new Date('2025-03-09T18:30:00Z'));
+
+      expect(components).toMatchObject({ year: 2025, month: 3, day: 10, hours: 0, minutes: 0 });
+    });
+  });
+
+  describe('constructor', () => {
+    it('should fall back to the default timezone for invalid names', () => {
+      expect(new TimeService('Mars/Olympus').getTimezone()).toBe(TimeService.DEFAULT_TIMEZONE);
+    });
+  });
+
+  describe('resolveTimezone', () => {
+    it.each([
+      ['set my timezone to Europe/London', 'Europe/London'],
+      ["I'm in Dubai now", 'Asia/Dubai'],
+      ['moved to new york', 'America/New_York'],
+      ['back in india', 'Asia/Kolkata'],
+      ['what is my timezone', null],
+    ])('should resolve "%s" to %s', (input, expected) => {
+      expect(TimeService.resolveTimezone(input)).toBe(expected);
+    });
+  });
+});
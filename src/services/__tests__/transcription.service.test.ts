@@ -0,0 +1,67 @@
+import { TranscriptionService, TranscriptionProvider } from '../transcription.service';
+import { WhatsAppService } from '../whatsapp.service';
+
+// Mock the WhatsApp API client
+jest.mock('../whatsapp.service');
+
+/**
+ * Offline stand-in for a speech-to-text backend
+ */
+class StubTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'stub';
+  transcribe = jest.fn<Promise<string>, [Buffer, string]>();
+}
+
+describe('TranscriptionService', () => {
+  let service: TranscriptionService;
+  let provider: StubTranscriptionProvider;
+  let mockWhatsAppService: jest.Mocked<WhatsAppService>;
+
+  const audio = Buffer.from('OggS-voice-note');
+
+  beforeEach(() => {
+    provider = new StubTranscriptionProvider();
+    mockWhatsAppService = new WhatsAppService() as jest.Mocked<WhatsAppService>;
+    mockWhatsAppService.downloadMedia.mockResolvedValue({ data: audio, mimeType: 'audio/ogg; codecs=opus' });
+    service = new TranscriptionService(provider, mockWhatsAppService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('transcribeVoiceNote', () => {
+    it('should download the media and transcribe it with the provider', async () => {
+      provider.transcribe.mockResolvedValue(' Remind me to call mom at 7pm. ');
+
+      const result = await service.transcribeVoiceNote('media-123');
+
+      expect(mockWhatsAppService.downloadMedia).toHaveBeenCalledWith('media-123');
+      expect(provider.transcribe).toHaveBeenCalledWith(audio, 'audio/ogg; codecs=opus');
+      expect(result).toEqual({
+        mediaId: 'media-123',
+        transcript: 'Remind me to call mom at 7pm.',
+        provider: 'stub',
+      });
+    });
+
+    it('should return null for an empty transcript', async () => {
+      provider.transcribe.mockResolvedValue('   ');
+
+      expect(await service.transcribeVoiceNote('media-123')).toBeNull();
+    });
+
+    it('should return null when the media cannot be downloaded', async () => {
+      mockWhatsAppService.downloadMedia.mockRejectedValue(new Error('WhatsApp API error: media expired'));
+
+      expect(await service.transcribeVoiceNote('media-123')).toBeNull();
+      expect(provider.transcribe).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the provider fails', async () => {
+      provider.transcribe.mockRejectedValue(new Error('timeout'));
+
+      expect(await service.transcribeVoiceNote('media-123')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { AdminToken } from '@prisma/client';
+import { AdminTokenRepository } from '../repositories/admin-token.repository';
+import { AdminPrincipal, AdminScope, CreateAdminTokenInput } from '../types';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+
+/**
+ * Admin Auth Service
+ *
+ * Authenticates admin API callers:
+ * - ADMIN_TOKEN from the environment is a root token with every scope
+ * - Further tokens are issued with a name and a list of scopes, stored hashed,
+ *   and can be revoked at any time
+ */
+export class AdminAuthService {
+  static readonly SCOPES: AdminScope[] = [
+    'stats:read',
+    'users:export',
+    'users:delete',
+    'config:read',
+    'config:write',
+    'tokens:manage',
+    '*',
+  ];
+
+  private repository: AdminTokenRepository;
+  private rootToken?: string;
+
+  constructor(repository?: AdminTokenRepository, rootToken: string | undefined = env.ADMIN_TOKEN) {
+    this.repository = repository || new AdminTokenRepository();
+    this.rootToken = rootToken || undefined;
+  }
+
+  /**
+   * Resolve a presented token to the admin it belongs to
+   *
+   * @returns Principal with its scopes, or null if the token is unknown or revoked
+   */
+  async authenticate(token: string): Promise<AdminPrincipal | null> {
+    if (!token) {
+      return null;
+    }
+
+    const tokenHash = this.hashToken(token);
+
+    if (this.rootToken && this.safeEqual(tokenHash, this.hashToken(this.rootToken))) {
+      return { tokenId: null, name: 'root', scopes: ['*'] };
+    }
+
+    const record = await this.repository.findByHash(tokenHash);
+    if (!record || record.revokedAt) {
+      return null;
+    }
+
+    // Usage tracking must never block the request
+    this.repository.touch(record.id).catch((error) => {
+      logger.warn({ error, tokenId: record.id }, 'Failed to record admin token usage');
+    });
+
+    return { tokenId: record.id, name: record.name, scopes: record.scopes as AdminScope[] };
+  }
+
+  /**
+   * Check whether a principal may perform an action
+   */
+  hasScope(principal: AdminPrincipal, scope: AdminScope): boolean {
+    return principal.scopes.includes('*') || principal.scopes.includes(scope);
+  }
+
+  /**
+   * Scopes a principal may not hand out: any it doesn't hold itself, and "*" unless it has "*"
+   * Keeps "tokens:manage" from minting a token more powerful than the one issuing it.
+   */
+  ungrantableScopes(principal: AdminPrincipal, scopes: AdminScope[]): AdminScope[] {
+    return scopes.filter((scope) =>
+      scope === '*' ? !principal.scopes.includes('*') : !this.hasScope(principal, scope)
+    );
+  }
+
+  /**
+   * Issue a new token. The plain token is only ever returned here.
+   */
+  async createToken(input: CreateAdminTokenInput): Promise<{ token: string; record: AdminToken }> {
+    const token = `pinme_${crypto.randomBytes(24).toString('hex')}`;
+    const record = await this.repository.create({
+      name: input.name,
+      tokenHash: this.hashToken(token),
+      scopes: input.scopes,
+    });
+
+    logger.info({ tokenId: record.id, name: record.name, scopes: record.scopes }, 'Admin token created');
+
+    return { token, record };
+  }
+
+  async listTokens(): Promise<AdminToken[]> {
+    return this.repository.findAll();
+  }
+
+  async revokeToken(id: string): Promise<AdminToken> {
+    logger.info({ tokenId: id }, 'Revoking admin token');
+    return this.repository.revoke(id);
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    return a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+  }
+}
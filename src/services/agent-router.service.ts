@@ -1,7 +1,9 @@
 import { User } from '@prisma/client';
+import { InteractiveReplyData } from '../types';
 import { AgentType, AgentContext, IAgent, RoutingDecision } from '../types/agents';
 import { AgentStateService } from './agent-state.service';
 import { ConversationService } from './conversation.service';
+import { IntentDetectionResult, LLMService } from './llm.service';
 import { logger } from '../config/logger';
 
 /**
@@ -14,13 +16,21 @@ import { logger } from '../config/logger';
  * 4. Manages agent state transitions
  */
 export class AgentRouter {
+  /**
+   * Order in which agents are asked if they can handle a message.
+   * Specialists come first; the conversation agent is the catch-all default.
+   */
+  private static readonly AGENT_PRIORITY: AgentType[] = ['splitwise', 'conversation'];
+
   private agents: Map<AgentType, IAgent> = new Map();
   private agentStateService: AgentStateService;
   private conversationService: ConversationService;
+  private llmService: LLMService;
 
   constructor() {
     this.agentStateService = new AgentStateService();
     this.conversationService = new ConversationService();
+    this.llmService = new LLMService();
   }
 
   /**
@@ -33,12 +43,20 @@ export class AgentRouter {
 
   /**
    * Main routing logic
+   *
+   * @param detectedIntent - Intent already detected for this message (when it's routed a second time)
    */
-  async route(user: User, message: string): Promise<{ agent: IAgent; context: AgentContext }> {
+  async route(
+    user: User,
+    message: string,
+    interactiveReply?: InteractiveReplyData,
+    detectedIntent?: IntentDetectionResult
+  ): Promise<{ agent: IAgent; context: AgentContext }> {
     logger.info({ userId: user.id, message }, 'Routing message');
 
     // Build context
-    const context = await this.buildContext(user, message);
+    const context = await this.buildContext(user, message, interactiveReply);
+    context.detectedIntent = detectedIntent;
 
     // Get current agent state
     const currentState = await this.agentStateService.getState(user.id);
@@ -50,6 +68,14 @@ export class AgentRouter {
       // Always route to onboarding if not complete
       selectedAgent = this.getAgent('onboarding');
       logger.info({ userId: user.id }, 'Routing to onboarding - not complete');
+    } else if (interactiveReply) {
+      // A tapped button can belong to any earlier message, so route on its ID even mid-flow
+      const decision = await this.determineAgent(context);
+      selectedAgent = this.getAgent(decision.agent);
+      logger.info(
+        { userId: user.id, agent: decision.agent, replyId: interactiveReply.id },
+        'Routing interactive reply'
+      );
     } else if (currentState?.activeFlow) {
       // User is in the middle of a flow - stick with current agent
       const currentAgentType = currentState.currentAgent as AgentType;
@@ -79,7 +105,11 @@ export class AgentRouter {
   /**
    * Build agent context from user and message
    */
-  private async buildContext(user: User, message: string): Promise<AgentContext> {
+  private async buildContext(
+    user: User,
+    message: string,
+    interactiveReply?: InteractiveReplyData
+  ): Promise<AgentContext> {
     // Get conversation history
     const historyData = await this.conversationService.getContext(user.id, 10);
 
@@ -92,26 +122,36 @@ export class AgentRouter {
       conversationHistory: historyData.recentMessages,
       currentFlow: state?.activeFlow || undefined,
       flowData: (state?.flowData as Record<string, any>) || undefined,
+      interactiveReply,
     };
   }
 
   /**
    * Determine which agent should handle the message
    *
-   * After onboarding, ALL messages go to ConversationAgent (main orchestrator)
-   * ConversationAgent internally handles intent detection and routing
+   * Intent is detected once here and attached to the context, so agents can
+   * decide (and handle) without classifying the message again.
+   * Agents are then asked in AGENT_PRIORITY order; ConversationAgent is the default.
+   * Interactive replies skip intent detection - the reply ID already says what to do.
    */
   private async determineAgent(context: AgentContext): Promise<RoutingDecision> {
-    // Ask each agent if they can handle
-    for (const [type, agent] of this.agents) {
-      if (type === 'onboarding') continue; // Skip onboarding
+    if (!context.interactiveReply && !context.detectedIntent) {
+      const recentMessages = context.conversationHistory.slice(-5).map((m) => m.messageText);
+      context.detectedIntent = await this.llmService.detectIntent(context.message, recentMessages);
+    }
+
+    for (const type of AgentRouter.AGENT_PRIORITY) {
+      const agent = this.agents.get(type);
+      if (!agent) continue; // Not registered
 
       const canHandle = await agent.canHandle(context);
       if (canHandle) {
         return {
           agent: type,
-          confidence: 1.0,
-          reason: `Agent ${agent.name} can handle`,
+          confidence: context.detectedIntent?.confidence ?? 1.0,
+          reason: `Agent ${agent.name} can handle (${
+            context.detectedIntent ? `intent: ${context.detectedIntent.intent}` : `reply: ${context.interactiveReply?.id}`
+          })`,
         };
       }
     }
@@ -3,10 +3,19 @@ import {
   CreateConversationInput,
   ConversationContext,
   DetectedIntent,
+  UpdateConversationDeliveryInput,
+  UpdateDeliveryStatusInput,
 } from '../types';
+import { DeliveryStatus } from '../utils/delivery-status';
 import { logger } from '../config/logger';
 import { Conversation } from '@prisma/client';
 
+// WhatsApp only delivers free-form messages within 24 hours of the user's last message
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Close the window a little early, so a message queued right at the edge doesn't get rejected
+const SESSION_WINDOW_MARGIN_MS = 5 * 60 * 1000;
+
 export class ConversationService {
   private repository: ConversationRepository;
 
@@ -31,6 +40,42 @@ export class ConversationService {
     return this.repository.create(input);
   }
 
+  /**
+   * Apply a WhatsApp status webhook to the stored outbound message
+   *
+   * @returns Updated message, or null if we have no message with this ID
+   */
+  async recordDeliveryStatus(
+    whatsappMessageId: string,
+    update: UpdateDeliveryStatusInput
+  ): Promise<Conversation | null> {
+    const message = await this.repository.findByWhatsappMessageId(whatsappMessageId);
+    if (!message) {
+      return null;
+    }
+
+    const data: UpdateConversationDeliveryInput = {};
+
+    if (DeliveryStatus.shouldAdvance(message.deliveryStatus, update.status)) {
+      data.deliveryStatus = update.status;
+    }
+    if ((update.status === 'delivered' || update.status === 'read') && !message.deliveredAt) {
+      data.deliveredAt = update.at;
+    }
+    if (update.status === 'read' && !message.readAt) {
+      data.readAt = update.at;
+    }
+    if (update.status === 'failed') {
+      data.failureReason = update.failureReason;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return message;
+    }
+
+    return this.repository.updateDelivery(message.id, data);
+  }
+
   /**
    * Get conversation context for a user
    * Returns recent messages, last intent, active flow, etc.
@@ -49,6 +94,7 @@ export class ConversationService {
         messageText: msg.messageText,
         timestamp: msg.timestamp,
         detectedIntent: msg.detectedIntent as DetectedIntent | undefined,
+        relatedReminderId: msg.relatedReminderId || undefined,
       })),
       lastIntent,
       lastActiveFlow: lastActiveFlow || undefined,
@@ -63,6 +109,26 @@ export class ConversationService {
     return this.repository.findLastInboundMessage(userId);
   }
 
+  /**
+   * When the user last sent us anything, or null if they never have
+   */
+  async getLastInboundAt(userId: string): Promise<Date | null> {
+    const lastMessage = await this.repository.findLastInboundMessage(userId);
+    return lastMessage?.timestamp ?? null;
+  }
+
+  /**
+   * Whether a free-form message can still reach the user, or it has to be an approved template
+   */
+  async isSessionOpen(userId: string, at: Date = new Date()): Promise<boolean> {
+    const lastInboundAt = await this.getLastInboundAt(userId);
+    if (!lastInboundAt) {
+      return false;
+    }
+
+    return at.getTime() - lastInboundAt.getTime() < SESSION_WINDOW_MS - SESSION_WINDOW_MARGIN_MS;
+  }
+
   /**
    * Find messages in a specific conversational flow
    * Useful for multi-step conversations
@@ -0,0 +1,108 @@
+import { ExpenseGroupRepository, ExpenseGroupWithMembers } from '../repositories/expense-group.repository';
+import { ExpenseGroup } from '@prisma/client';
+import { logger } from '../config/logger';
+
+/**
+ * Expense Group Service
+ *
+ * Named sets of people a user splits bills with ("Flatmates", "Goa trip"), so they can say
+ * "split 2400 with flatmates" instead of typing everyone out. Groups are archived rather than
+ * deleted when a trip ends, keeping their expenses and balances.
+ */
+export class ExpenseGroupService {
+  private repository: ExpenseGroupRepository;
+
+  constructor(repository?: ExpenseGroupRepository) {
+    this.repository = repository || new ExpenseGroupRepository();
+  }
+
+  async createGroup(userId: string, name: string, members: string[]): Promise<ExpenseGroupWithMembers> {
+    logger.info({ userId, name, memberCount: members.length }, 'Creating expense group');
+
+    return this.repository.create({
+      userId,
+      name: ExpenseGroupService.displayName(name),
+      members: ExpenseGroupService.uniqueNames(members),
+    });
+  }
+
+  async getGroups(userId: string, includeArchived: boolean = false): Promise<ExpenseGroupWithMembers[]> {
+    return this.repository.findByUserId(userId, includeArchived);
+  }
+
+  /**
+   * Find a group by name (case-insensitive), preferring an active group over an archived one
+   */
+  async findGroup(
+    userId: string,
+    name: string,
+    includeArchived: boolean = true
+  ): Promise<ExpenseGroupWithMembers | null> {
+    const groups = await this.repository.findByUserId(userId, includeArchived);
+    const wanted = ExpenseGroupService.normalize(name);
+    const matches = groups.filter((group) => ExpenseGroupService.normalize(group.name) === wanted);
+
+    return matches.find((group) => !group.archivedAt) || matches[0] || null;
+  }
+
+  async addMembers(group: ExpenseGroupWithMembers, names: string[]): Promise<ExpenseGroupWithMembers> {
+    const existing = new Set(group.members.map((member) => member.name.toLowerCase()));
+    const added = ExpenseGroupService.uniqueNames(names).filter((name) => !existing.has(name.toLowerCase()));
+
+    logger.info({ groupId: group.id, added }, 'Adding expense group members');
+
+    return added.length > 0 ? this.repository.addMembers(group.id, added) : group;
+  }
+
+  async archiveGroup(groupId: string): Promise<ExpenseGroup> {
+    logger.info({ groupId }, 'Archiving expense group');
+    return this.repository.archive(groupId);
+  }
+
+  /**
+   * The group a message talks about ("split 2400 with flatmates"), longest name first
+   */
+  static mentionedIn<T extends Pick<ExpenseGroup, 'name'>>(message: string, groups: T[]): T | null {
+    const byLength = [...groups].sort((a, b) => b.name.length - a.name.length);
+    return byLength.find((group) => ExpenseGroupService.mentionPattern(group.name).test(message)) || null;
+  }
+
+  /**
+   * Matches a mention of a group, with the word leading into it:
+   * "with flatmates", "for the goa trip group", "in Goa trip"
+   *
+   * Group 1 is the leading word ("with", "for", ...), if any.
+   */
+  static mentionPattern(name: string): RegExp {
+    const words = name
+      .trim()
+      .split(/\s+/)
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\\s+');
+    return new RegExp(`(?:\\b(with|for|in|from|on|to)\\s+)?(?:the\\s+)?\\b${words}(?:\\s+group)?\\b`, 'i');
+  }
+
+  /**
+   * "flatmates" -> "Flatmates", "goa trip" -> "Goa trip"
+   */
+  static displayName(name: string): string {
+    const trimmed = name.trim().replace(/^["']|["']$/g, '').replace(/\s+group$/i, '').trim();
+    return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+  }
+
+  private static normalize(name: string): string {
+    return ExpenseGroupService.displayName(name).toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private static uniqueNames(names: string[]): string[] {
+    const seen = new Set<string>();
+    return names.filter((name) => {
+      const key = name.toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,388 @@
+import { ExpenseRepository, ExpenseWithParticipants } from '../repositories/expense.repository';
+import { LLMService } from './llm.service';
+import { TimeService } from './time.service';
+import {
+  Balance,
+  CreateExpenseInput,
+  CreateSettlementInput,
+  MonthlySpending,
+  SpendingSummary,
+  SplitType,
+  Transfer,
+  UpdateExpenseInput,
+} from '../types';
+import { ExpenseSplit, SplitAllocation } from '../utils/expense-split';
+import { ExpenseCategory, ExpenseCategoryName } from '../utils/expense-category';
+import { Settlement } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { logger } from '../config/logger';
+
+type Amount = Decimal | number;
+
+interface LedgerExpense {
+  paidBy: string;
+  totalAmount: Amount;
+  currency: string;
+  participants: Array<{ name: string; share: Amount }>;
+}
+
+interface SpendingExpense extends LedgerExpense {
+  description: string | null;
+  category: string | null;
+}
+
+interface SplitParticipant {
+  name: string;
+  splitType: string;
+  splitValue: Amount | null;
+}
+
+interface LedgerSettlement {
+  fromName: string;
+  toName: string;
+  amount: Amount;
+  currency: string;
+}
+
+/**
+ * Expense Service
+ *
+ * Records expenses and repayments, and keeps the running ledger between the people in them:
+ * who is owed what overall, and the fewest payments that would settle everyone up.
+ * Expenses are sorted into categories as they're saved, for monthly spending summaries.
+ */
+export class ExpenseService {
+  private repository: ExpenseRepository;
+  private llmService: LLMService;
+
+  constructor(repository?: ExpenseRepository, llmService?: LLMService) {
+    this.repository = repository || new ExpenseRepository();
+    this.llmService = llmService || new LLMService();
+  }
+
+  async createExpense(input: CreateExpenseInput): Promise<ExpenseWithParticipants> {
+    const category = input.category || (await this.categorize(input.description));
+
+    logger.info(
+      {
+        userId: input.userId,
+        totalAmount: input.totalAmount,
+        paidBy: input.paidBy,
+        category,
+      },
+      'Creating expense'
+    );
+
+    return this.repository.create({ ...input, category });
+  }
+
+  /**
+   * Category for what an expense was for: keyword rules first, then the LLM, else "other"
+   */
+  async categorize(description: string): Promise<ExpenseCategoryName> {
+    if (!description.trim()) {
+      return ExpenseCategory.OTHER;
+    }
+
+    const category =
+      ExpenseCategory.fromDescription(description) || (await this.llmService.categorizeExpense(description));
+    return category || ExpenseCategory.OTHER;
+  }
+
+  async getUserExpenses(userId: string, limit?: number): Promise<ExpenseWithParticipants[]> {
+    return this.repository.findByUserId(userId, limit);
+  }
+
+  async getExpense(id: string): Promise<ExpenseWithParticipants | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Fix an expense's amount, currency or description
+   * A new total has to come with the new shares, so balances stay in step with the bill.
+   */
+  async updateExpense(id: string, input: UpdateExpenseInput): Promise<ExpenseWithParticipants> {
+    if (input.totalAmount !== undefined && !input.participants) {
+      throw new Error('Changing an expense total needs the new shares');
+    }
+
+    // A new description may mean a new category
+    if (input.description !== undefined && !input.category) {
+      input = { ...input, category: await this.categorize(input.description) };
+    }
+
+    logger.info(
+      {
+        expenseId: id,
+        totalAmount: input.totalAmount,
+        currency: input.currency,
+        description: input.description,
+      },
+      'Updating expense'
+    );
+
+    return this.repository.update(id, input);
+  }
+
+  /**
+   * Delete an expense; its participants go with it, so it drops out of everyone's balances
+   */
+  async deleteExpense(id: string): Promise<void> {
+    logger.info({ expenseId: id }, 'Deleting expense');
+    await this.repository.delete(id);
+  }
+
+  async recordSettlement(input: CreateSettlementInput): Promise<Settlement> {
+    logger.info(
+      {
+        userId: input.userId,
+        from: input.fromName,
+        to: input.toName,
+        amount: input.amount,
+      },
+      'Recording settlement'
+    );
+
+    return this.repository.createSettlement(input);
+  }
+
+  /**
+   * Net balance of everyone across all of the user's expenses and settlements
+   */
+  async getBalances(userId: string): Promise<Balance[]> {
+    const [expenses, settlements] = await Promise.all([
+      this.repository.findByUserId(userId),
+      this.repository.findSettlementsByUserId(userId),
+    ]);
+
+    return ExpenseService.netBalances(expenses, settlements);
+  }
+
+  /**
+   * Payments that would settle up everyone in the user's ledger
+   */
+  async getSettleUp(userId: string): Promise<Transfer[]> {
+    return ExpenseService.settleUp(await this.getBalances(userId));
+  }
+
+  /**
+   * Net balances from one group's expenses and the repayments made in it
+   */
+  async getGroupBalances(groupId: string): Promise<Balance[]> {
+    const [expenses, settlements] = await Promise.all([
+      this.repository.findByGroupId(groupId),
+      this.repository.findSettlementsByGroupId(groupId),
+    ]);
+
+    return ExpenseService.netBalances(expenses, settlements);
+  }
+
+  async getGroupSettleUp(groupId: string): Promise<Transfer[]> {
+    return ExpenseService.settleUp(await this.getGroupBalances(groupId));
+  }
+
+  /**
+   * Spending in a calendar month of the user's timezone, next to the month before
+   *
+   * @param monthsAgo - 0 for this month, 1 for last month
+   */
+  async getMonthlySpending(userId: string, timezone: string, monthsAgo: number = 0): Promise<MonthlySpending> {
+    const time = new TimeService(timezone);
+    const { year, month } = time.getCurrentComponents();
+
+    // Month overflow is fine: month 0 is December of the year before
+    const previousStart = time.createDateTimeOn(year, month - monthsAgo - 1, 1, 0, 0);
+    const start = time.createDateTimeOn(year, month - monthsAgo, 1, 0, 0);
+    const end = time.createDateTimeOn(year, month - monthsAgo + 1, 1, 0, 0);
+
+    const expenses = await this.repository.findByUserIdBetween(userId, previousStart, end);
+    const monthName = (date: Date) =>
+      date.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: time.getTimezone() });
+
+    return {
+      month: monthName(start),
+      previousMonth: monthName(previousStart),
+      current: ExpenseService.summarize(expenses.filter((expense) => expense.createdAt >= start)),
+      previous: ExpenseService.summarize(expenses.filter((expense) => expense.createdAt < start)),
+    };
+  }
+
+  /**
+   * Add up a set of expenses, one summary per currency
+   *
+   * The user's share is what they spent, so categories split that; people split the whole of each
+   * bill. Names are matched case-insensitively, keeping the spelling first seen.
+   */
+  static summarize(expenses: SpendingExpense[]): SpendingSummary[] {
+    const currencies = [...new Set(expenses.map((expense) => expense.currency))].sort();
+
+    return currencies.map((currency) => {
+      const inCurrency = expenses.filter((expense) => expense.currency === currency);
+      const categories = new Map<string, number>();
+      const people = new Map<string, { name: string; paise: number }>();
+      let totalPaise = 0;
+      let yourPaise = 0;
+
+      for (const expense of inCurrency) {
+        totalPaise += Math.round(Number(expense.totalAmount) * 100);
+
+        for (const participant of expense.participants) {
+          const paise = Math.round(Number(participant.share) * 100);
+          const key = participant.name.trim().toLowerCase();
+          const person = people.get(key) || { name: participant.name.trim(), paise: 0 };
+          person.paise += paise;
+          people.set(key, person);
+
+          if (participant.name === ExpenseSplit.YOU) {
+            const category = ExpenseService.categoryOf(expense);
+            yourPaise += paise;
+            categories.set(category, (categories.get(category) || 0) + paise);
+          }
+        }
+      }
+
+      const biggestFirst = <T extends { amount: number }>(items: T[], label: (item: T) => string) =>
+        items
+          .filter((item) => item.amount !== 0)
+          .sort((a, b) => b.amount - a.amount || label(a).localeCompare(label(b)));
+
+      return {
+        currency,
+        expenseCount: inCurrency.length,
+        total: totalPaise / 100,
+        yourShare: yourPaise / 100,
+        byCategory: biggestFirst(
+          [...categories.entries()].map(([category, paise]) => ({ category, amount: paise / 100 })),
+          (item) => item.category
+        ),
+        byParticipant: biggestFirst(
+          [...people.values()].map((person) => ({ name: person.name, amount: person.paise / 100 })),
+          (item) => item.name
+        ),
+      };
+    });
+  }
+
+  /**
+   * An expense's category; ones saved before categories existed are worked out from the description
+   */
+  static categoryOf(expense: Pick<SpendingExpense, 'category' | 'description'>): ExpenseCategoryName {
+    if (ExpenseCategory.isCategory(expense.category)) {
+      return expense.category;
+    }
+    return ExpenseCategory.fromDescription(expense.description) || ExpenseCategory.OTHER;
+  }
+
+  /**
+   * Work out where everyone stands
+   *
+   * Whoever paid a bill is owed its total, and every participant owes their share of it;
+   * a repayment from A to B moves A up and B down by the amount. Names are matched
+   * case-insensitively, keeping the spelling first seen. Each currency is a separate
+   * balance - nothing is converted. People who are square are left out.
+   *
+   * @returns Balances by currency, biggest creditor first
+   */
+  static netBalances(expenses: LedgerExpense[], settlements: LedgerSettlement[]): Balance[] {
+    const ledger = new Map<string, { name: string; currency: string; paise: number }>();
+    const add = (name: string, currency: string, amount: number) => {
+      const key = `${currency}:${name.trim().toLowerCase()}`;
+      const entry = ledger.get(key) || { name: name.trim(), currency, paise: 0 };
+      entry.paise += Math.round(amount * 100);
+      ledger.set(key, entry);
+    };
+
+    for (const expense of expenses) {
+      add(expense.paidBy, expense.currency, Number(expense.totalAmount));
+      for (const participant of expense.participants) {
+        add(participant.name, expense.currency, -Number(participant.share));
+      }
+    }
+
+    for (const settlement of settlements) {
+      add(settlement.fromName, settlement.currency, Number(settlement.amount));
+      add(settlement.toName, settlement.currency, -Number(settlement.amount));
+    }
+
+    // Keep the spelling first seen for a name in any currency
+    const names = new Map<string, string>();
+    for (const entry of ledger.values()) {
+      const key = entry.name.toLowerCase();
+      entry.name = names.get(key) || entry.name;
+      names.set(key, entry.name);
+    }
+
+    return [...ledger.values()]
+      .filter((entry) => entry.paise !== 0)
+      .sort((a, b) => a.currency.localeCompare(b.currency) || b.paise - a.paise || a.name.localeCompare(b.name))
+      .map((entry) => ({ name: entry.name, currency: entry.currency, net: entry.paise / 100 }));
+  }
+
+  /**
+   * Split a new total the way an expense was split before
+   * Same people, percentages and shares; fixed amounts stay fixed, so the split can stop adding up.
+   */
+  static resplit(participants: SplitParticipant[], total: number): SplitAllocation {
+    return ExpenseSplit.allocate(
+      total,
+      participants.map((participant) => ({
+        name: participant.name,
+        type: participant.splitType as SplitType,
+        ...(participant.splitValue !== null && { value: Number(participant.splitValue) }),
+      }))
+    );
+  }
+
+  /**
+   * Fewest payments that settle a set of balances
+   *
+   * Greedy, one currency at a time: the biggest debtor pays the biggest creditor as much as they
+   * can, until nobody is owed anything. That never takes more payments than one fewer than the
+   * people involved. Ties go by name, so the same balances always give the same payments.
+   */
+  static settleUp(balances: Balance[]): Transfer[] {
+    const currencies = [...new Set(balances.map((balance) => balance.currency))].sort();
+
+    return currencies.flatMap((currency) =>
+      ExpenseService.settleCurrency(
+        currency,
+        balances.filter((balance) => balance.currency === currency)
+      )
+    );
+  }
+
+  private static settleCurrency(currency: string, balances: Balance[]): Transfer[] {
+    const byAmount = (a: { name: string; paise: number }, b: { name: string; paise: number }) =>
+      b.paise - a.paise || a.name.localeCompare(b.name);
+
+    const creditors = balances
+      .filter((balance) => balance.net > 0)
+      .map((balance) => ({ name: balance.name, paise: Math.round(balance.net * 100) }));
+    const debtors = balances
+      .filter((balance) => balance.net < 0)
+      .map((balance) => ({ name: balance.name, paise: Math.round(-balance.net * 100) }));
+
+    const transfers: Transfer[] = [];
+    while (creditors.length > 0 && debtors.length > 0) {
+      creditors.sort(byAmount);
+      debtors.sort(byAmount);
+
+      const creditor = creditors[0];
+      const debtor = debtors[0];
+      const paise = Math.min(creditor.paise, debtor.paise);
+
+      transfers.push({ from: debtor.name, to: creditor.name, currency, amount: paise / 100 });
+
+      creditor.paise -= paise;
+      debtor.paise -= paise;
+      if (creditor.paise === 0) {
+        creditors.shift();
+      }
+      if (debtor.paise === 0) {
+        debtors.shift();
+      }
+    }
+
+    return transfers;
+  }
+}
@@ -0,0 +1,212 @@
+import { ReminderRepository } from '../repositories/reminder.repository';
+import { ExpenseRepository, ExpenseWithParticipants } from '../repositories/expense.repository';
+import { ConversationRepository } from '../repositories/conversation.repository';
+import { Conversation, Reminder } from '@prisma/client';
+import { ExportDataset, ExportFile, ExportFormat } from '../types';
+import { Csv } from '../utils/csv';
+import { logger } from '../config/logger';
+
+/**
+ * Everything being exported, by dataset
+ */
+interface ExportData {
+  reminders?: Reminder[];
+  expenses?: ExpenseWithParticipants[];
+  conversations?: Conversation[];
+}
+
+const REMINDER_COLUMNS = [
+  'id',
+  'reminderText',
+  'scheduledTime',
+  'recurrence',
+  'status',
+  'snoozeCount',
+  'createdAt',
+  'sentAt',
+  'deliveredAt',
+  'readAt',
+  'completedAt',
+] as const;
+
+// One row per participant, with the expense repeated on each
+const EXPENSE_COLUMNS = [
+  'expenseId',
+  'createdAt',
+  'description',
+  'category',
+  'totalAmount',
+  'currency',
+  'paidBy',
+  'group',
+  'participant',
+  'share',
+  'splitType',
+  'splitValue',
+] as const;
+
+const CONVERSATION_COLUMNS = [
+  'id',
+  'timestamp',
+  'direction',
+  'messageText',
+  'detectedIntent',
+  'deliveryStatus',
+] as const;
+
+/**
+ * Export Service
+ *
+ * Copies of a user's data for them or for support: reminders, expenses with their
+ * participants and, when asked for, the conversation history. CSV is one file per
+ * dataset; JSON is a single file with all of them.
+ */
+export class ExportService {
+  static readonly DATASETS: ExportDataset[] = ['reminders', 'expenses', 'conversations'];
+
+  private reminderRepository: ReminderRepository;
+  private expenseRepository: ExpenseRepository;
+  private conversationRepository: ConversationRepository;
+
+  constructor(
+    reminderRepository?: ReminderRepository,
+    expenseRepository?: ExpenseRepository,
+    conversationRepository?: ConversationRepository
+  ) {
+    this.reminderRepository = reminderRepository || new ReminderRepository();
+    this.expenseRepository = expenseRepository || new ExpenseRepository();
+    this.conversationRepository = conversationRepository || new ConversationRepository();
+  }
+
+  async exportUserData(userId: string, format: ExportFormat, datasets: ExportDataset[]): Promise<ExportFile[]> {
+    logger.info({ userId, format, datasets }, 'Exporting user data');
+
+    const data = await this.collect(userId, datasets);
+    const date = new Date().toISOString().slice(0, 10);
+    const records = (dataset: ExportDataset) => data[dataset]?.length ?? 0;
+
+    if (format === 'json') {
+      return [
+        {
+          filename: `pin-me-export-${date}.json`,
+          mimeType: 'application/json',
+          content: ExportService.toJson(data),
+          records: datasets.reduce((total, dataset) => total + records(dataset), 0),
+        },
+      ];
+    }
+
+    return datasets.map((dataset) => ({
+      filename: `pin-me-${dataset}-${date}.csv`,
+      mimeType: 'text/csv',
+      content: ExportService.toCsv(dataset, data),
+      records: records(dataset),
+    }));
+  }
+
+  private async collect(userId: string, datasets: ExportDataset[]): Promise<ExportData> {
+    const [reminders, expenses, conversations] = await Promise.all([
+      datasets.includes('reminders') ? this.reminderRepository.findByUserId(userId) : undefined,
+      datasets.includes('expenses') ? this.expenseRepository.findByUserId(userId) : undefined,
+      datasets.includes('conversations') ? this.conversationRepository.findAllByUserId(userId) : undefined,
+    ]);
+
+    return {
+      ...(reminders && { reminders }),
+      // Oldest first, like the other datasets
+      ...(expenses && { expenses: [...expenses].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()) }),
+      ...(conversations && { conversations }),
+    };
+  }
+
+  /**
+   * One dataset as CSV; expenses get a row per participant
+   */
+  static toCsv(dataset: ExportDataset, data: ExportData): string {
+    switch (dataset) {
+      case 'reminders':
+        return Csv.stringify([...REMINDER_COLUMNS], (data.reminders || []).map(ExportService.reminderRecord));
+
+      case 'expenses':
+        return Csv.stringify(
+          [...EXPENSE_COLUMNS],
+          (data.expenses || []).map(ExportService.expenseRecord).flatMap(({ id, participants, ...expense }) =>
+            participants.map(({ name, ...participant }) => ({
+              expenseId: id,
+              ...expense,
+              participant: name,
+              ...participant,
+            }))
+          )
+        );
+
+      case 'conversations':
+        return Csv.stringify(
+          [...CONVERSATION_COLUMNS],
+          (data.conversations || []).map(ExportService.conversationRecord)
+        );
+    }
+  }
+
+  /**
+   * Every dataset in one JSON document, expenses with their participants nested
+   */
+  static toJson(data: ExportData): string {
+    return JSON.stringify(
+      {
+        exportedAt: new Date().toISOString(),
+        ...(data.reminders && { reminders: data.reminders.map(ExportService.reminderRecord) }),
+        ...(data.expenses && { expenses: data.expenses.map(ExportService.expenseRecord) }),
+        ...(data.conversations && { conversations: data.conversations.map(ExportService.conversationRecord) }),
+      },
+      null,
+      2
+    );
+  }
+
+  private static reminderRecord(reminder: Reminder) {
+    return {
+      id: reminder.id,
+      reminderText: reminder.reminderText,
+      scheduledTime: reminder.scheduledTime,
+      recurrence: reminder.recurrence,
+      status: reminder.status,
+      snoozeCount: reminder.snoozeCount,
+      createdAt: reminder.createdAt,
+      sentAt: reminder.sentAt,
+      deliveredAt: reminder.deliveredAt,
+      readAt: reminder.readAt,
+      completedAt: reminder.completedAt,
+    };
+  }
+
+  private static expenseRecord(expense: ExpenseWithParticipants) {
+    return {
+      id: expense.id,
+      createdAt: expense.createdAt,
+      description: expense.description,
+      category: expense.category,
+      totalAmount: Number(expense.totalAmount),
+      currency: expense.currency,
+      paidBy: expense.paidBy,
+      group: expense.group?.name ?? null,
+      participants: expense.participants.map((participant) => ({
+        name: participant.name,
+        share: Number(participant.share),
+        splitType: participant.splitType,
+        splitValue: participant.splitValue === null ? null : Number(participant.splitValue),
+      })),
+    };
+  }
+
+  private static conversationRecord(conversation: Conversation) {
+    return {
+      id: conversation.id,
+      timestamp: conversation.timestamp,
+      direction: conversation.direction,
+      messageText: conversation.messageText,
+      detectedIntent: conversation.detectedIntent,
+      deliveryStatus: conversation.deliveryStatus,
+    };
+  }
+}
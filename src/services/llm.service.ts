@@ -1,9 +1,10 @@
 import OpenAI from 'openai';
 import { env } from '../config/env';
 import { logger } from '../config/logger';
+import { ExpenseCategory, ExpenseCategoryName } from '../utils/expense-category';
 
 export interface IntentDetectionResult {
-  intent: 'create_reminder' | 'list_reminders' | 'delete_reminder' | 'help' | 'greeting' | 'thanks' | 'unclear';
+  intent: 'create_reminder' | 'list_reminders' | 'edit_reminder' | 'delete_reminder' | 'set_timezone' | 'split_expense' | 'list_expenses' | 'expense_summary' | 'edit_expense' | 'delete_expense' | 'expense_balances' | 'record_repayment' | 'expense_group' | 'upi_id' | 'export_data' | 'help' | 'greeting' | 'thanks' | 'unclear';
   confidence: number;
   reasoning?: string;
 }
@@ -15,6 +16,14 @@ export interface ReminderExtractionResult {
   confidence: number;
 }
 
+export interface ReminderEditExtractionResult {
+  reminderNumber?: number;
+  reminderReference?: string;
+  timeExpression?: string;
+  newTask?: string;
+  confidence: number;
+}
+
 export class LLMService {
   private client: OpenAI;
 
@@ -32,13 +41,29 @@ export class LLMService {
       const systemPrompt = `You are an intent classifier for Pin Me, a WhatsApp reminder bot.
 Analyze the user's message and classify it into ONE of these intents:
 
-1. **create_reminder** - User wants to set a reminder (e.g., "remind me to call mom", "tomorrow at 7pm meeting", "don't forget to pay bills")
+1. **create_reminder** - User wants to set a reminder (e.g., "remind me to call mom", "tomorrow at 7pm meeting", "don't forget to pay bills", "kal subah 8 baje yaad dilana")
 2. **list_reminders** - User wants to see their reminders (e.g., "show my reminders", "what do I have pinned", "list all")
-3. **delete_reminder** - User wants to cancel a reminder (e.g., "cancel reminder", "delete the first one", "remove all")
-4. **help** - User needs help or asking what you can do (e.g., "what can you do", "help", "how does this work")
-5. **greeting** - Simple greeting (e.g., "hi", "hello", "hey")
-6. **thanks** - Thanking or appreciation (e.g., "thanks", "thank you", "appreciate it")
-7. **unclear** - Message doesn't fit any category or is ambiguous
+3. **edit_reminder** - User wants to change or reschedule an existing reminder (e.g., "move reminder 2 to 8pm", "change the rent one to Friday", "push the gym reminder to tomorrow")
+4. **delete_reminder** - User wants to cancel a reminder (e.g., "cancel reminder", "delete the first one", "remove all")
+5. **set_timezone** - User wants to see or change their timezone (e.g., "I'm in Dubai now", "set my timezone to Europe/London", "what's my timezone")
+6. **split_expense** - User wants to record or split a bill/expense (e.g., "split ₹1200 dinner", "paid 500 for cab with Rahul", "spent 3000 on groceries", "split $42.50 with Priya")
+7. **list_expenses** - User wants to see their recorded expenses (e.g., "show my expenses", "list bills")
+8. **expense_summary** - User wants to know how much they spent in a month, by category or compared with before (e.g., "how much did I spend this month?", "what did I spend", "last month's spending")
+9. **edit_expense** - User wants to fix a recorded expense's amount or description (e.g., "change expense 2 to 1800", "rename expense 1 to team lunch", "fix the dinner expense to $40")
+10. **delete_expense** - User wants to remove a recorded expense (e.g., "delete expense 3", "remove the cab expense", "delete last expense")
+11. **expense_balances** - User wants to know who owes whom or how to settle up (e.g., "who owes me?", "what do I owe", "settle up", "show balances")
+12. **record_repayment** - Someone paid back money owed from split bills (e.g., "Rahul paid me back 500", "I paid Priya back 300", "got 200 from Amit")
+13. **expense_group** - User wants to create, change, list or archive a group of people they split bills with (e.g., "create group flatmates with Rahul and Priya", "add Neha to goa trip", "archive goa trip", "my groups")
+14. **upi_id** - User wants to save, check or remove the UPI ID friends can pay them at (e.g., "my UPI ID is yash@okhdfc", "what's my upi id", "remove my upi")
+15. **export_data** - User wants a copy of their reminders, expenses or chat history as a file (e.g., "export my expenses", "download my data as csv", "export everything as json")
+16. **help** - User needs help or asking what you can do (e.g., "what can you do", "help", "how does this work")
+17. **greeting** - Simple greeting (e.g., "hi", "hello", "hey")
+18. **thanks** - Thanking or appreciation (e.g., "thanks", "thank you", "appreciate it")
+19. **unclear** - Message doesn't fit any category or is ambiguous
+
+Changing or deleting an expense or bill (e.g., "delete expense 2") is **edit_expense** / **delete_expense**, not edit_reminder / delete_reminder.
+Splitting a bill with a group (e.g., "split 2400 with flatmates") is still **split_expense**.
+Money mentioned inside a reminder (e.g., "remind me to pay rent 15000 on the 1st") is still **create_reminder**.
 
 Respond ONLY with valid JSON in this format:
 {"intent": "create_reminder", "confidence": 0.95, "reasoning": "brief explanation"}`;
@@ -88,7 +113,17 @@ Examples:
 - "pay bills on the 15th" → task: "pay bills", time: "on the 15th"
 - "don't forget to buy groceries in 2 hours" → task: "buy groceries", time: "in 2 hours"
 - "meeting at 3pm" → task: "meeting", time: "at 3pm"
+- "every monday at 9am team standup" → task: "team standup", time: "every monday at 9am"
+- "remind me to pay rent on the 1st of every month" → task: "pay rent", time: "on the 1st of every month"
 - "remind me about the doctor" → task: "about the doctor", hasTime: false
+- "kal subah 8 baje doodh lana hai" → task: "doodh lana", time: "kal subah 8 baje"
+- "2 ghante baad mummy ko call karna yaad dilana" → task: "mummy ko call karna", time: "2 ghante baad"
+- "aaj raat 10 baje dawai" → task: "dawai", time: "aaj raat 10 baje"
+- "कल शाम 6 बजे मीटिंग" → task: "मीटिंग", time: "कल शाम 6 बजे"
+
+Keep repeat words like "every", "daily", "weekly" or "monthly" inside the time expression.
+Users often write in Hindi or Hinglish: copy the time expression exactly as written (don't translate it),
+and keep the task in the user's own words, without "yaad dilana" / "remind me".
 
 Respond ONLY with valid JSON in this format:
 {"task": "extracted task", "timeExpression": "time expression or null", "hasTime": true/false, "confidence": 0.9}`;
@@ -120,6 +155,109 @@ Respond ONLY with valid JSON in this format:
     }
   }
 
+  /**
+   * Extract which reminder to edit and what to change using GPT-4
+   */
+  async extractReminderEdit(message: string): Promise<ReminderEditExtractionResult> {
+    try {
+      const systemPrompt = `You are a reminder edit parser for Pin Me, a WhatsApp reminder bot.
+The user wants to change one of their existing reminders. Extract:
+- reminderNumber: the reminder's position in their list, if they gave one
+- reminderReference: words describing the reminder, if they didn't give a number
+- timeExpression: the new time/date, if they want to reschedule
+- newTask: the new reminder text, if they want to rename it
+
+Examples:
+- "move reminder 2 to 8pm" → reminderNumber: 2, timeExpression: "8pm"
+- "change the rent one to Friday" → reminderReference: "rent", timeExpression: "Friday"
+- "push the gym reminder to tomorrow 7am" → reminderReference: "gym", timeExpression: "tomorrow 7am"
+- "rename reminder 1 to call dad" → reminderNumber: 1, newTask: "call dad"
+
+Respond ONLY with valid JSON in this format:
+{"reminderNumber": 2, "reminderReference": null, "timeExpression": "8pm", "newTask": null, "confidence": 0.9}`;
+
+      const response = await this.client.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Message: "${message}"` },
+        ],
+        temperature: 0.2,
+        max_tokens: 150,
+        response_format: { type: 'json_object' },
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        logger.warn('Empty response from OpenAI for reminder edit extraction');
+        return { confidence: 0 };
+      }
+
+      const parsed = JSON.parse(content);
+      const result: ReminderEditExtractionResult = {
+        reminderNumber: typeof parsed.reminderNumber === 'number' ? parsed.reminderNumber : undefined,
+        reminderReference: parsed.reminderReference || undefined,
+        timeExpression: parsed.timeExpression || undefined,
+        newTask: parsed.newTask || undefined,
+        confidence: parsed.confidence ?? 0,
+      };
+      logger.info({ message, result }, 'Reminder edit extracted via LLM');
+
+      return result;
+    } catch (error) {
+      logger.error({ error, message }, 'Error extracting reminder edit with LLM');
+      return { confidence: 0 };
+    }
+  }
+
+  /**
+   * Pick a category for an expense the keyword rules couldn't place
+   *
+   * @returns null if the LLM fails or answers with something that isn't a category
+   */
+  async categorizeExpense(description: string): Promise<ExpenseCategoryName | null> {
+    try {
+      const systemPrompt = `You sort expenses for Pin Me, a WhatsApp bot that splits bills between friends.
+Put the expense into ONE of these categories: ${ExpenseCategory.NAMES.join(', ')}
+
+Examples:
+- "Dinner at Toit" → food
+- "Goa villa" → travel
+- "Diwali decorations" → shopping
+- "Society maintenance" → utilities
+
+Use "other" if none of them fit.
+
+Respond ONLY with valid JSON in this format:
+{"category": "food"}`;
+
+      const response = await this.client.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: `Expense: "${description}"` },
+        ],
+        temperature: 0,
+        max_tokens: 20,
+        response_format: { type: 'json_object' },
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        logger.warn('Empty response from OpenAI for expense categorisation');
+        return null;
+      }
+
+      const { category } = JSON.parse(content);
+      logger.info({ description, category }, 'Expense categorised via LLM');
+
+      return ExpenseCategory.isCategory(category) ? category : null;
+    } catch (error) {
+      logger.error({ error, description }, 'Error categorising expense with LLM');
+      return null;
+    }
+  }
+
   /**
    * Generate a natural, contextual response
    */
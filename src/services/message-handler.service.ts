@@ -1,9 +1,14 @@
 import { User } from '@prisma/client';
+import { WhatsAppStatusUpdate, InteractiveReplyData, DetectedIntent } from '../types';
 import { ConversationService } from './conversation.service';
 import { AgentRouter } from './agent-router.service';
 import { OnboardingAgent } from '../agents/onboarding-agent';
 import { ConversationAgent } from '../agents/conversation-agent';
+import { SplitwiseAgent } from '../agents/splitwise-agent';
 import { AgentStateService } from './agent-state.service';
+import { ReminderService } from './reminder.service';
+import { MessageTemplateService } from './message-template.service';
+import { DeliveryStatus } from '../utils/delivery-status';
 import { logger } from '../config/logger';
 
 /**
@@ -12,47 +17,55 @@ import { logger } from '../config/logger';
  *
  * Agent Architecture:
  * 1. OnboardingAgent - Handles first-time user setup only
- * 2. ConversationAgent - Main orchestrator, handles ALL user interaction after onboarding
+ * 2. SplitwiseAgent - Expense tracking, bill splitting, groups and settling up (split_expense /
+ *    list_expenses / expense_summary / edit_expense / delete_expense / expense_balances /
+ *    record_repayment / expense_group intents)
+ * 3. ConversationAgent - Main orchestrator, handles everything else after onboarding
  *    - Uses DateTimeAgent internally for time parsing
  *    - Uses ReminderAgent internally for storage (CRUD)
+ *
+ * While an agent has an active flow (e.g. split_expense), the router keeps
+ * sending messages to that agent until the flow completes or is cancelled.
+ * An agent that drops its flow because the message is about something else
+ * asks for it to be routed again, so the right agent gets it.
  */
 export class MessageHandler {
   private conversationService: ConversationService;
   private agentRouter: AgentRouter;
   private agentStateService: AgentStateService;
+  private reminderService: ReminderService;
 
   constructor() {
     this.conversationService = new ConversationService();
     this.agentRouter = new AgentRouter();
     this.agentStateService = new AgentStateService();
+    this.reminderService = new ReminderService();
 
     // Register user-facing agents only
     // Onboarding has highest priority (checks if user setup is complete)
     this.agentRouter.registerAgent(new OnboardingAgent());
 
-    // Conversation agent is the main orchestrator (handles everything after onboarding)
+    // Splitwise agent claims expense messages before the catch-all conversation agent
+    this.agentRouter.registerAgent(new SplitwiseAgent());
+
+    // Conversation agent is the main orchestrator (handles everything else after onboarding)
     this.agentRouter.registerAgent(new ConversationAgent());
 
-    logger.info('Message handler initialized with OnboardingAgent and ConversationAgent');
+    logger.info('Message handler initialized with OnboardingAgent, SplitwiseAgent and ConversationAgent');
   }
 
   /**
    * Handle incoming user message
    * Routes to appropriate agent based on context and message content
    */
-  async handleUserMessage(user: User, messageText: string): Promise<void> {
+  async handleUserMessage(user: User, messageText: string, interactiveReply?: InteractiveReplyData): Promise<void> {
     logger.info({ userId: user.id, messageText }, 'Handling user message');
 
     try {
-      // Store inbound message
-      await this.conversationService.storeMessage({
-        userId: user.id,
-        direction: 'inbound',
-        messageText,
-      });
+      // The inbound message is already stored by WebhookController (with its WhatsApp ID / transcript)
 
       // Route to appropriate agent
-      const { agent, context } = await this.agentRouter.route(user, messageText);
+      const { agent, context } = await this.agentRouter.route(user, messageText, interactiveReply);
 
       logger.info(
         { userId: user.id, agentType: agent.type, agentName: agent.name },
@@ -60,7 +73,17 @@ export class MessageHandler {
       );
 
       // Agent processes the message
-      const response = await agent.handle(context);
+      let response = await agent.handle(context);
+
+      // The agent dropped its flow without using the message - route it again (once), as a new message
+      if (response.reroute) {
+        const rerouted = await this.agentRouter.route(user, messageText, interactiveReply, context.detectedIntent);
+        logger.info(
+          { userId: user.id, from: agent.type, agentType: rerouted.agent.type },
+          'Message rerouted after flow was dropped'
+        );
+        response = await rerouted.agent.handle(rerouted.context);
+      }
 
       // Handle agent switching if requested
       if (response.shouldSwitchAgent) {
@@ -98,22 +121,82 @@ export class MessageHandler {
       const service = new WhatsAppService();
       await service.sendTextMessage({
         to: user.phoneNumber,
-        message: "Sorry, something went wrong. Please try again.",
+        message: new MessageTemplateService().render('unexpectedError'),
+      });
+    }
+  }
+
+  /**
+   * Handle an inbound message we can't read (voice note, photo, sticker, location...)
+   * Replies so the user isn't left wondering; the agents and any active flow are left untouched.
+   *
+   * @param label - What the user sent, as in "I can't open that {label}"
+   */
+  async handleUnsupportedMessage(user: User, label: string): Promise<void> {
+    logger.info({ userId: user.id, label }, 'Handling unsupported message');
+
+    await this.sendNotice(user, new MessageTemplateService().render('unsupportedMessage', { TYPE: label }), 'unsupported_message');
+  }
+
+  /**
+   * Handle a voice note that couldn't be downloaded or transcribed
+   */
+  async handleUnreadableVoiceNote(user: User): Promise<void> {
+    logger.info({ userId: user.id }, 'Handling unreadable voice note');
+
+    await this.sendNotice(user, new MessageTemplateService().render('voiceNoteUnclear'), 'voice_note_unclear');
+  }
+
+  /**
+   * Send a reply that doesn't go through the agents, and record it in conversation history
+   */
+  private async sendNotice(user: User, message: string, intent: DetectedIntent): Promise<void> {
+    try {
+      const { WhatsAppService } = await import('./whatsapp.service');
+      const result = await new WhatsAppService().sendTextMessage({
+        to: user.phoneNumber,
+        message,
+      });
+
+      await this.conversationService.storeMessage({
+        userId: user.id,
+        direction: 'outbound',
+        messageText: message,
+        whatsappMessageId: result.messageId,
+        detectedIntent: intent,
       });
+    } catch (error) {
+      logger.error({ userId: user.id, intent, error }, 'Failed to send notice');
     }
   }
 
   /**
-   * Handle WhatsApp message status updates
+   * Handle WhatsApp message status updates (sent / delivered / read / failed)
+   * Updates the outbound conversation message and, if it was a reminder, the reminder itself
    */
-  async handleStatusUpdate(messageId: string, status: string): Promise<void> {
+  async handleStatusUpdate(statusUpdate: WhatsAppStatusUpdate): Promise<void> {
+    const { id: messageId, status } = statusUpdate;
     logger.debug({ messageId, status }, 'Handling status update');
 
-    // Update reminder status if this is a reminder notification
-    // This could be enhanced to track delivery/read status
-    if (status === 'delivered' || status === 'read') {
-      // Find reminder by whatsapp message ID and update status
-      // Implementation can be added based on requirements
+    const update = {
+      status,
+      at: DeliveryStatus.parseTimestamp(statusUpdate.timestamp),
+      failureReason: status === 'failed' ? DeliveryStatus.describeFailure(statusUpdate.errors) : undefined,
+    };
+
+    const [message, reminder] = await Promise.all([
+      this.conversationService.recordDeliveryStatus(messageId, update),
+      this.reminderService.recordDeliveryStatus(messageId, update),
+    ]);
+
+    if (!message && !reminder) {
+      logger.debug({ messageId, status }, 'Status update for unknown message');
+      return;
     }
+
+    logger.info(
+      { messageId, status, conversationId: message?.id, reminderId: reminder?.id },
+      'Delivery status recorded'
+    );
   }
 }
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { DEFAULT_TEMPLATES, MessageKey, TOP_LEVEL_TEMPLATE_KEYS } from '../config/message-templates';
+import { logger } from '../config/logger';
+
+const templateSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+const botConfigSchema = z
+  .object({
+    botName: z.string().min(1),
+    greetingMessage: z.string().min(1),
+    returningUserMessage: z.string().min(1),
+    confirmationMessage: z.string().min(1),
+    reminderNotification: z.string().min(1),
+    messages: z.record(templateSchema).optional(),
+  })
+  .strict();
+
+export type BotConfig = z.infer<typeof botConfigSchema>;
+export type Template = string | string[];
+export type TemplateVariables = Record<string, string | number>;
+
+interface CachedConfig {
+  mtimeMs: number;
+  config: BotConfig;
+}
+
+const PLACEHOLDER_PATTERN = /\{([A-Z_]+)\}/g;
+
+/**
+ * Message Template Service
+ *
+ * Renders every outbound message from bot-config.json:
+ * - Loads and validates the config, falling back to DEFAULT_TEMPLATES for missing keys
+ * - Hot-reloads when the file changes on disk (checked on each render, no restart needed)
+ * - Keeps serving the last valid config if an edit breaks the file
+ * - Interpolates {PLACEHOLDER}s, with {BOT_NAME} always available
+ */
+export class MessageTemplateService {
+  static readonly CONFIG_PATH = path.join(__dirname, '../config/bot-config.json');
+
+  // Shared across instances so every agent sees the same, once-loaded config
+  private static cache: Map<string, CachedConfig> = new Map();
+
+  private configPath: string;
+
+  constructor(configPath: string = MessageTemplateService.CONFIG_PATH) {
+    this.configPath = configPath;
+  }
+
+  /**
+   * Validate a bot config object
+   * Rejects unknown template keys and placeholders the template can't be given
+   */
+  static validate(raw: unknown): { success: true; config: BotConfig } | { success: false; errors: string[] } {
+    const parsed = botConfigSchema.safeParse(raw);
+    if (!parsed.success) {
+      return {
+        success: false,
+        errors: parsed.error.errors.map((e) => `${e.path.join('.') || 'config'}: ${e.message}`),
+      };
+    }
+
+    const config = parsed.data;
+    const errors: string[] = [];
+
+    const overrides: Array<[string, Template]> = [
+      ...TOP_LEVEL_TEMPLATE_KEYS.map((key): [string, Template] => [key, config[key as keyof BotConfig] as string]),
+      ...Object.entries(config.messages || {}),
+    ];
+
+    for (const [key, template] of overrides) {
+      if (!(key in DEFAULT_TEMPLATES)) {
+        errors.push(`messages.${key}: unknown message`);
+        continue;
+      }
+
+      const allowed = new Set([
+        'BOT_NAME',
+        ...MessageTemplateService.placeholdersOf(DEFAULT_TEMPLATES[key as MessageKey]),
+      ]);
+      const unknown = MessageTemplateService.placeholdersOf(template).filter((name) => !allowed.has(name));
+      if (unknown.length > 0) {
+        errors.push(
+          `${key}: unknown placeholder ${unknown.map((name) => `{${name}}`).join(', ')} ` +
+            `(available: ${[...allowed].map((name) => `{${name}}`).join(', ')})`
+        );
+      }
+    }
+
+    return errors.length > 0 ? { success: false, errors } : { success: true, config };
+  }
+
+  /**
+   * Current config (reloaded if the file changed since the last read)
+   */
+  getConfig(): BotConfig {
+    const cached = MessageTemplateService.cache.get(this.configPath);
+
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.configPath).mtimeMs;
+    } catch (error) {
+      if (!cached) {
+        logger.error({ error, configPath: this.configPath }, 'Bot config not found, using default templates');
+      }
+      return cached?.config || this.defaultConfig();
+    }
+
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.config;
+    }
+
+    const config = this.load() || cached?.config || this.defaultConfig();
+    MessageTemplateService.cache.set(this.configPath, { mtimeMs, config });
+    return config;
+  }
+
+  /**
+   * Config with every template filled in, as shown to admins
+   */
+  getEffectiveConfig(): BotConfig {
+    const config = this.getConfig();
+    const messages: Record<string, Template> = {};
+
+    for (const key of Object.keys(DEFAULT_TEMPLATES) as MessageKey[]) {
+      if (!TOP_LEVEL_TEMPLATE_KEYS.includes(key)) {
+        messages[key] = config.messages?.[key] ?? DEFAULT_TEMPLATES[key];
+      }
+    }
+
+    return { ...config, messages };
+  }
+
+  /**
+   * Merge a partial update into the config file after validating it
+   * Written via a temp file and rename so readers never see a half-written file
+   */
+  save(update: Partial<BotConfig>): { success: true; config: BotConfig } | { success: false; errors: string[] } {
+    const current = this.getConfig();
+    const merged = {
+      ...current,
+      ...update,
+      messages: { ...current.messages, ...update.messages },
+    };
+
+    const result = MessageTemplateService.validate(merged);
+    if (!result.success) {
+      return result;
+    }
+
+    const tempPath = `${this.configPath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(result.config, null, 2) + '\n');
+    fs.renameSync(tempPath, this.configPath);
+
+    MessageTemplateService.cache.delete(this.configPath);
+    logger.info({ configPath: this.configPath }, 'Bot config saved');
+
+    return result;
+  }
+
+  /**
+   * Render a message, e.g. render('confirmationMessage', { TASK: 'call mom', TIME: 'today at 7:00 pm' })
+   * Unknown placeholders are left as-is so a bad template is visible instead of silently blank.
+   */
+  render(key: MessageKey, variables: TemplateVariables = {}): string {
+    const config = this.getConfig();
+    const template = this.getTemplate(config, key);
+    const text = Array.isArray(template)
+      ? template[Math.floor(Math.random() * template.length)]
+      : template;
+
+    const values: TemplateVariables = { BOT_NAME: config.botName, ...variables };
+
+    return text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+      values[name] !== undefined ? String(values[name]) : match
+    );
+  }
+
+  private getTemplate(config: BotConfig, key: MessageKey): Template {
+    if (TOP_LEVEL_TEMPLATE_KEYS.includes(key)) {
+      return (config[key as keyof BotConfig] as string | undefined) || DEFAULT_TEMPLATES[key];
+    }
+    return config.messages?.[key] ?? DEFAULT_TEMPLATES[key];
+  }
+
+  /**
+   * Read and validate the config file
+   * Returns null (and logs why) if it can't be used
+   */
+  private load(): BotConfig | null {
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.configPath, 'utf8'));
+      const result = MessageTemplateService.validate(raw);
+
+      if (!result.success) {
+        logger.error({ configPath: this.configPath, errors: result.errors }, 'Invalid bot config, keeping previous templates');
+        return null;
+      }
+
+      logger.info({ configPath: this.configPath }, 'Bot config loaded');
+      return result.config;
+    } catch (error) {
+      logger.error({ error, configPath: this.configPath }, 'Failed to read bot config, keeping previous templates');
+      return null;
+    }
+  }
+
+  private defaultConfig(): BotConfig {
+    return {
+      botName: 'Pin Me',
+      greetingMessage: DEFAULT_TEMPLATES.greetingMessage,
+      returningUserMessage: DEFAULT_TEMPLATES.returningUserMessage,
+      confirmationMessage: DEFAULT_TEMPLATES.confirmationMessage,
+      reminderNotification: DEFAULT_TEMPLATES.reminderNotification,
+    };
+  }
+
+  private static placeholdersOf(template: Template): string[] {
+    const texts = Array.isArray(template) ? template : [template];
+    const names = new Set<string>();
+    for (const text of texts) {
+      for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+      }
+    }
+    return [...names];
+  }
+}
@@ -0,0 +1,310 @@
+import { TimeService } from './time.service';
+
+/**
+ * Recurrence Frequency
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * Recurrence Rule
+ * Structured form of the RRULE subset we support
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: number[]; // 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number; // 1-31, clamped to the length of the month
+  byHour?: number;
+  byMinute?: number;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Recurrence Service
+ *
+ * Handles recurring reminder rules stored as RRULE strings
+ * (e.g. "FREQ=WEEKLY;BYDAY=MO;BYHOUR=9;BYMINUTE=0"):
+ * - Parses and formats the supported RRULE subset
+ * - Describes rules in plain language for confirmations
+ * - Computes the next occurrence in the user's local calendar
+ */
+export class RecurrenceService {
+  private timeService: TimeService;
+
+  constructor(timeService?: TimeService) {
+    this.timeService = timeService || new TimeService();
+  }
+
+  /**
+   * Parse an RRULE string into a structured rule
+   * Returns null for unsupported or malformed rules
+   */
+  parse(rrule: string): RecurrenceRule | null {
+    const parts = rrule
+      .trim()
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter((part) => part.length > 0);
+
+    const values: Record<string, string> = {};
+    for (const part of parts) {
+      const [key, value] = part.split('=');
+      if (!key || value === undefined) {
+        return null;
+      }
+      values[key.toUpperCase()] = value.toUpperCase();
+    }
+
+    const freq = values.FREQ as RecurrenceFrequency;
+    if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) {
+      return null;
+    }
+
+    const rule: RecurrenceRule = {
+      freq,
+      interval: values.INTERVAL ? parseInt(values.INTERVAL, 10) : 1,
+    };
+
+    if (isNaN(rule.interval) || rule.interval < 1) {
+      return null;
+    }
+
+    if (values.BYDAY) {
+      const days = values.BYDAY.split(',').map((code) => WEEKDAY_CODES.indexOf(code));
+      if (days.some((day) => day < 0)) {
+        return null;
+      }
+      rule.byDay = days.sort((a, b) => a - b);
+    }
+
+    if (values.BYMONTHDAY) {
+      const day = parseInt(values.BYMONTHDAY, 10);
+      if (isNaN(day) || day < 1 || day > 31) {
+        return null;
+      }
+      rule.byMonthDay = day;
+    }
+
+    if (values.BYHOUR) {
+      const hour = parseInt(values.BYHOUR, 10);
+      if (isNaN(hour) || hour < 0 || hour > 23) {
+        return null;
+      }
+      rule.byHour = hour;
+    }
+
+    if (values.BYMINUTE) {
+      const minute = parseInt(values.BYMINUTE, 10);
+      if (isNaN(minute) || minute < 0 || minute > 59) {
+        return null;
+      }
+      rule.byMinute = minute;
+    }
+
+    return rule;
+  }
+
+  /**
+   * Format a structured rule as an RRULE string
+   */
+  format(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.byDay && rule.byDay.length > 0) {
+      parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAY_CODES[day]).join(',')}`);
+    }
+    if (rule.byMonthDay !== undefined) {
+      parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+    }
+    if (rule.byHour !== undefined) {
+      parts.push(`BYHOUR=${rule.byHour}`);
+    }
+    if (rule.byMinute !== undefined) {
+      parts.push(`BYMINUTE=${rule.byMinute}`);
+    }
+
+    return parts.join(';');
+  }
+
+  /**
+   * The same schedule at a different time of day ("every monday at 9" -> "every monday at 10:30")
+   * Returns null for unsupported or malformed rules
+   */
+  withTime(rrule: string, hours: number, minutes: number): string | null {
+    const rule = this.parse(rrule);
+    return rule ? this.format({ ...rule, byHour: hours, byMinute: minutes }) : null;
+  }
+
+  /**
+   * Describe a rule in plain language, e.g. "every monday" or "on the 1st of every month"
+   */
+  describe(rrule: string | RecurrenceRule): string {
+    const rule = typeof rrule === 'string' ? this.parse(rrule) : rrule;
+    if (!rule) {
+      return 'on repeat';
+    }
+
+    switch (rule.freq) {
+      case 'DAILY':
+        return rule.interval > 1 ? `every ${rule.interval} days` : 'every day';
+
+      case 'WEEKLY': {
+        const every = rule.interval > 1 ? `every ${rule.interval} weeks` : 'every week';
+        if (!rule.byDay || rule.byDay.length === 0) {
+          return every;
+        }
+        if (rule.byDay.join(',') === '1,2,3,4,5') {
+          return rule.interval > 1 ? `${every} on weekdays` : 'every weekday';
+        }
+        if (rule.byDay.join(',') === '0,6') {
+          return rule.interval > 1 ? `${every} on weekends` : 'every weekend';
+        }
+        const days = rule.byDay.map((day) => WEEKDAY_NAMES[day]);
+        const dayList = days.length > 1
+          ? `${days.slice(0, -1).join(', ')} and ${days[days.length - 1]}`
+          : days[0];
+        return rule.interval > 1 ? `${every} on ${dayList}` : `every ${dayList}`;
+      }
+
+      case 'MONTHLY': {
+        const every = rule.interval > 1 ? `every ${rule.interval} months` : 'every month';
+        return rule.byMonthDay !== undefined
+          ? `on the ${this.ordinal(rule.byMonthDay)} of ${every}`
+          : every;
+      }
+    }
+  }
+
+  /**
+   * Compute the next occurrence strictly after `after`
+   *
+   * @param rrule - RRULE string or structured rule
+   * @param after - Occurrences at or before this instant are skipped
+   * @param anchor - Previous occurrence; used for INTERVAL and as the default time of day
+   * @returns Next occurrence, or null if the rule is invalid
+   */
+  getNextOccurrence(rrule: string | RecurrenceRule, after: Date, anchor?: Date): Date | null {
+    const rule = typeof rrule === 'string' ? this.parse(rrule) : rrule;
+    if (!rule) {
+      return null;
+    }
+
+    const afterParts = this.timeService.getComponents(after);
+    const anchorParts = anchor ? this.timeService.getComponents(anchor) : null;
+    const base = anchorParts || afterParts;
+
+    const hours = rule.byHour ?? base.hours;
+    const minutes = rule.byMinute ?? base.minutes;
+    const anchorDay = anchorParts
+      ? this.toDayNumber(anchorParts.year, anchorParts.month, anchorParts.day)
+      : null;
+
+    // Walk forward one local calendar day at a time; a year plus one interval is always enough
+    const startDay = this.toDayNumber(afterParts.year, afterParts.month, afterParts.day);
+    const maxDays = 366 * rule.interval + 31;
+
+    for (let offset = 0; offset <= maxDays; offset++) {
+      const dayNumber = startDay + offset;
+      if (!this.matchesDay(rule, dayNumber, anchorDay, base.day)) {
+        continue;
+      }
+
+      const { year, month, day } = this.fromDayNumber(dayNumber);
+      const candidate = this.timeService.createDateTimeOn(year, month, day, hours, minutes);
+
+      if (candidate.getTime() > after.getTime()) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check whether a local calendar day satisfies the rule
+   */
+  private matchesDay(
+    rule: RecurrenceRule,
+    dayNumber: number,
+    anchorDay: number | null,
+    defaultMonthDay: number
+  ): boolean {
+    const { year, month, day } = this.fromDayNumber(dayNumber);
+
+    switch (rule.freq) {
+      case 'DAILY':
+        return anchorDay === null || (dayNumber - anchorDay) % rule.interval === 0;
+
+      case 'WEEKLY': {
+        const weekday = this.weekdayOf(dayNumber);
+        const days = rule.byDay && rule.byDay.length > 0
+          ? rule.byDay
+          : [anchorDay !== null ? this.weekdayOf(anchorDay) : weekday];
+
+        if (!days.includes(weekday)) {
+          return false;
+        }
+        if (anchorDay === null) {
+          return true;
+        }
+
+        const weeksApart = Math.round((this.startOfWeek(dayNumber) - this.startOfWeek(anchorDay)) / 7);
+        return weeksApart % rule.interval === 0;
+      }
+
+      case 'MONTHLY': {
+        const targetDay = Math.min(rule.byMonthDay ?? defaultMonthDay, this.daysInMonth(year, month));
+        if (day !== targetDay) {
+          return false;
+        }
+        if (anchorDay === null) {
+          return true;
+        }
+
+        const anchor = this.fromDayNumber(anchorDay);
+        const monthsApart = (year - anchor.year) * 12 + (month - anchor.month);
+        return monthsApart % rule.interval === 0;
+      }
+    }
+  }
+
+  /**
+   * Days since epoch for a calendar date (timezone independent)
+   */
+  private toDayNumber(year: number, month: number, day: number): number {
+    return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+  }
+
+  private fromDayNumber(dayNumber: number): { year: number; month: number; day: number } {
+    const date = new Date(dayNumber * MS_PER_DAY);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+    };
+  }
+
+  private weekdayOf(dayNumber: number): number {
+    return new Date(dayNumber * MS_PER_DAY).getUTCDay();
+  }
+
+  private startOfWeek(dayNumber: number): number {
+    return dayNumber - this.weekdayOf(dayNumber);
+  }
+
+  private daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+  }
+
+  private ordinal(n: number): string {
+    const suffixes = ['th', 'st', 'nd', 'rd'];
+    const v = n % 100;
+    return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+  }
+}
@@ -1,6 +1,13 @@
 import { ReminderRepository } from '../repositories/reminder.repository';
-import { CreateReminderInput, ReminderStatus } from '../types';
+import {
+  CreateReminderInput,
+  UpdateReminderInput,
+  ReminderDeliveryChannel,
+  ReminderStatus,
+  UpdateDeliveryStatusInput,
+} from '../types';
 import { Reminder } from '@prisma/client';
+import { DeliveryStatus } from '../utils/delivery-status';
 import { logger } from '../config/logger';
 
 export class ReminderService {
@@ -40,13 +47,87 @@ export class ReminderService {
     return this.repository.cancel(id);
   }
 
-  async markAsSent(id: string, whatsappMsgId: string): Promise<Reminder> {
-    logger.info({ reminderId: id, whatsappMsgId }, 'Marking reminder as sent');
-    return this.repository.markAsSent(id, whatsappMsgId);
+  async updateReminder(id: string, data: UpdateReminderInput): Promise<Reminder> {
+    logger.info({ reminderId: id }, 'Updating reminder');
+    return this.repository.update(id, data);
   }
 
-  async markAsDelivered(id: string): Promise<Reminder> {
-    return this.repository.markAsDelivered(id);
+  async markAsSent(id: string, whatsappMsgId: string, deliveryChannel: ReminderDeliveryChannel): Promise<Reminder> {
+    logger.info({ reminderId: id, whatsappMsgId, deliveryChannel }, 'Marking reminder as sent');
+    return this.repository.markAsSent(id, whatsappMsgId, deliveryChannel);
+  }
+
+  async markAsDelivered(id: string, deliveredAt?: Date): Promise<Reminder> {
+    return this.repository.markAsDelivered(id, deliveredAt);
+  }
+
+  async markAsRead(id: string, readAt?: Date): Promise<Reminder> {
+    return this.repository.markAsRead(id, readAt);
+  }
+
+  /**
+   * Apply a WhatsApp status webhook to the reminder sent as that message
+   * Timestamps are recorded once; the status only moves forward while the
+   * reminder is still in its delivery lifecycle (so snoozed or completed reminders keep their status)
+   *
+   * @returns Updated reminder, or null if no reminder was sent with this message ID
+   */
+  async recordDeliveryStatus(
+    whatsappMsgId: string,
+    update: UpdateDeliveryStatusInput
+  ): Promise<Reminder | null> {
+    const reminder = await this.repository.findByWhatsappMsgId(whatsappMsgId);
+    if (!reminder) {
+      return null;
+    }
+
+    const advance = DeliveryStatus.shouldAdvance(reminder.status, update.status);
+
+    switch (update.status) {
+      case 'delivered':
+        if (advance) {
+          return this.repository.markAsDelivered(reminder.id, update.at);
+        }
+        if (!reminder.deliveredAt) {
+          return this.repository.update(reminder.id, { deliveredAt: update.at });
+        }
+        return reminder;
+
+      case 'read':
+        if (advance) {
+          // A read receipt implies delivery, even if the delivered webhook never arrived
+          if (!reminder.deliveredAt) {
+            await this.repository.update(reminder.id, { deliveredAt: update.at });
+          }
+          return this.repository.markAsRead(reminder.id, update.at);
+        }
+        if (!reminder.readAt) {
+          return this.repository.update(reminder.id, { readAt: update.at });
+        }
+        return reminder;
+
+      case 'failed': {
+        const reason = update.failureReason || 'Unknown delivery failure';
+        logger.error({ reminderId: reminder.id, whatsappMsgId, reason }, 'Reminder delivery failed');
+        return advance
+          ? this.repository.markAsFailed(reminder.id, reason)
+          : this.repository.update(reminder.id, { failureReason: reason });
+      }
+
+      default:
+        // 'sent' is already recorded when the worker hands the message to WhatsApp
+        return reminder;
+    }
+  }
+
+  async snoozeReminder(id: string, snoozedUntil: Date): Promise<Reminder> {
+    logger.info({ reminderId: id, snoozedUntil }, 'Snoozing reminder');
+    return this.repository.snooze(id, snoozedUntil);
+  }
+
+  async markAsCompleted(id: string): Promise<Reminder> {
+    logger.info({ reminderId: id }, 'Marking reminder as completed');
+    return this.repository.markAsCompleted(id);
   }
 
   async markAsFailed(id: string, reason: string): Promise<Reminder> {
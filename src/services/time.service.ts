@@ -1,34 +1,155 @@
+/**
+ * Date/time components in a specific timezone
+ */
+export interface TimeComponents {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/**
+ * Common city / country / abbreviation names mapped to IANA timezones
+ * Used when users type "I'm in Dubai" instead of "Asia/Dubai"
+ */
+const TIMEZONE_ALIASES: Record<string, string> = {
+  india: 'Asia/Kolkata',
+  ist: 'Asia/Kolkata',
+  kolkata: 'Asia/Kolkata',
+  calcutta: 'Asia/Kolkata',
+  mumbai: 'Asia/Kolkata',
+  bombay: 'Asia/Kolkata',
+  delhi: 'Asia/Kolkata',
+  'new delhi': 'Asia/Kolkata',
+  bangalore: 'Asia/Kolkata',
+  bengaluru: 'Asia/Kolkata',
+  chennai: 'Asia/Kolkata',
+  hyderabad: 'Asia/Kolkata',
+  pune: 'Asia/Kolkata',
+  dubai: 'Asia/Dubai',
+  'abu dhabi': 'Asia/Dubai',
+  uae: 'Asia/Dubai',
+  gst: 'Asia/Dubai',
+  london: 'Europe/London',
+  uk: 'Europe/London',
+  england: 'Europe/London',
+  bst: 'Europe/London',
+  gmt: 'Europe/London',
+  'new york': 'America/New_York',
+  nyc: 'America/New_York',
+  boston: 'America/New_York',
+  est: 'America/New_York',
+  edt: 'America/New_York',
+  eastern: 'America/New_York',
+  chicago: 'America/Chicago',
+  cst: 'America/Chicago',
+  cdt: 'America/Chicago',
+  central: 'America/Chicago',
+  denver: 'America/Denver',
+  mst: 'America/Denver',
+  mountain: 'America/Denver',
+  'los angeles': 'America/Los_Angeles',
+  la: 'America/Los_Angeles',
+  'san francisco': 'America/Los_Angeles',
+  sf: 'America/Los_Angeles',
+  seattle: 'America/Los_Angeles',
+  pst: 'America/Los_Angeles',
+  pdt: 'America/Los_Angeles',
+  pacific: 'America/Los_Angeles',
+  singapore: 'Asia/Singapore',
+  sydney: 'Australia/Sydney',
+  melbourne: 'Australia/Melbourne',
+  toronto: 'America/Toronto',
+  berlin: 'Europe/Berlin',
+  paris: 'Europe/Paris',
+  amsterdam: 'Europe/Amsterdam',
+  riyadh: 'Asia/Riyadh',
+  doha: 'Asia/Qatar',
+  qatar: 'Asia/Qatar',
+  kathmandu: 'Asia/Kathmandu',
+  nepal: 'Asia/Kathmandu',
+  dhaka: 'Asia/Dhaka',
+  karachi: 'Asia/Karachi',
+  tokyo: 'Asia/Tokyo',
+  'hong kong': 'Asia/Hong_Kong',
+  utc: 'UTC',
+};
+
 /**
  * Time Service
  *
  * Centralized service for handling all time-related operations
- * with proper timezone support for Asia/Kolkata
+ * in a single IANA timezone (one instance per timezone).
+ * Offsets are resolved per instant, so DST transitions are handled correctly.
  */
 export class TimeService {
-  private readonly timezone = 'Asia/Kolkata';
-  private readonly timezoneOffsetMinutes = 330; // UTC+5:30 = 330 minutes
+  static readonly DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+  private readonly timezone: string;
+
+  constructor(timezone: string = TimeService.DEFAULT_TIMEZONE) {
+    this.timezone = TimeService.isValidTimezone(timezone) ? timezone : TimeService.DEFAULT_TIMEZONE;
+  }
 
   /**
-   * Get current date/time in Kolkata timezone
+   * Check whether a string is an IANA timezone the runtime knows about
    */
-  getCurrentKolkataTime(): Date {
-    const now = new Date();
-    return now;
+  static isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * Get current date/time components in Kolkata timezone
+   * Resolve user input ("Europe/London", "london", "I'm in Dubai") to an IANA timezone
+   *
+   * @returns Canonical IANA name, or null if nothing matched
    */
-  getCurrentKolkataComponents(): {
-    year: number;
-    month: number;
-    day: number;
-    hours: number;
-    minutes: number;
-    seconds: number;
-  } {
-    const now = new Date();
-    const kolkataString = now.toLocaleString('en-US', {
+  static resolveTimezone(input: string): string | null {
+    const trimmed = input.trim();
+
+    // Explicit IANA name, e.g. "America/New_York"
+    const ianaMatch = trimmed.match(/\b[A-Za-z]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?\b/);
+    if (ianaMatch && TimeService.isValidTimezone(ianaMatch[0])) {
+      return new Intl.DateTimeFormat('en-US', { timeZone: ianaMatch[0] }).resolvedOptions().timeZone;
+    }
+
+    // Known alias anywhere in the text - longest first so "new york" beats "york"
+    const lowerInput = ` ${trimmed.toLowerCase().replace(/[^a-z\s]/g, ' ')} `;
+    const aliases = Object.keys(TIMEZONE_ALIASES).sort((a, b) => b.length - a.length);
+    for (const alias of aliases) {
+      if (lowerInput.includes(` ${alias} `)) {
+        return TIMEZONE_ALIASES[alias];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the IANA timezone this service operates in
+   */
+  getTimezone(): string {
+    return this.timezone;
+  }
+
+  /**
+   * Get current date/time components in this timezone
+   */
+  getCurrentComponents(): TimeComponents {
+    return this.getComponents(new Date());
+  }
+
+  /**
+   * Get date/time components for any Date object in this timezone
+   */
+  getComponents(date: Date): TimeComponents {
+    const localString = date.toLocaleString('en-US', {
       timeZone: this.timezone,
       year: 'numeric',
       month: '2-digit',
@@ -36,63 +157,76 @@ export class TimeService {
       hour: '2-digit',
       minute: '2-digit',
       second: '2-digit',
-      hour12: false,
+      hourCycle: 'h23',
     });
 
     // Parse: "MM/DD/YYYY, HH:MM:SS"
-    const [datePart, timePart] = kolkataString.split(', ');
+    const [datePart, timePart] = localString.split(', ');
     const [month, day, year] = datePart.split('/').map(Number);
     const [hours, minutes, seconds] = timePart.split(':').map(Number);
 
-    return {
-      year,
-      month,
-      day,
-      hours,
-      minutes,
-      seconds,
-    };
+    return { year, month, day, hours, minutes, seconds };
+  }
+
+  /**
+   * Get the UTC offset (in minutes) of this timezone at a given instant
+   * e.g. 330 for Asia/Kolkata, 60 for Europe/London in summer
+   */
+  getOffsetMinutes(date: Date = new Date()): number {
+    const c = this.getComponents(date);
+    const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hours, c.minutes, c.seconds);
+    const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+    return Math.round((asUtc - wholeSeconds) / 60000);
   }
 
   /**
-   * Create a Date object for a specific time today in Kolkata timezone
+   * Create a Date object for a specific time relative to today in this timezone
    *
    * @param hours - Hour in 24-hour format (0-23)
    * @param minutes - Minutes (0-59)
    * @param daysFromNow - Days from now (0 = today, 1 = tomorrow, etc.)
    * @returns Date object representing that time
    */
-  createKolkataDateTime(hours: number, minutes: number, daysFromNow: number = 0): Date {
-    const current = this.getCurrentKolkataComponents();
-
-    // Create a date object for today in Kolkata timezone
-    // We'll construct it as if we're in UTC, then adjust for timezone
-    const targetDate = new Date(Date.UTC(
-      current.year,
-      current.month - 1, // JS months are 0-indexed
-      current.day + daysFromNow,
-      hours,
-      minutes,
-      0,
-      0
-    ));
-
-    // Subtract the Kolkata offset to convert to UTC
-    // Kolkata is UTC+5:30, so we subtract 330 minutes to get UTC
-    targetDate.setMinutes(targetDate.getMinutes() - this.timezoneOffsetMinutes);
-
-    return targetDate;
+  createDateTime(hours: number, minutes: number, daysFromNow: number = 0): Date {
+    const current = this.getCurrentComponents();
+    return this.createDateTimeOn(current.year, current.month, current.day + daysFromNow, hours, minutes);
+  }
+
+  /**
+   * Create a Date object for a specific calendar day and time in this timezone
+   * Day overflow is allowed (e.g. day 32 rolls into the next month)
+   *
+   * @param year - Full year
+   * @param month - Month (1-12)
+   * @param day - Day of month
+   * @param hours - Hour in 24-hour format (0-23)
+   * @param minutes - Minutes (0-59)
+   * @returns Date object representing that time
+   */
+  createDateTimeOn(year: number, month: number, day: number, hours: number, minutes: number): Date {
+    // Treat the wall-clock time as UTC, then shift by the offset in effect at that moment.
+    // The offset is re-checked once because the guess may sit on the other side of a DST change.
+    const wallClock = Date.UTC(year, month - 1, day, hours, minutes, 0, 0);
+    const firstOffset = this.getOffsetMinutes(new Date(wallClock));
+    let result = wallClock - firstOffset * 60000;
+
+    const secondOffset = this.getOffsetMinutes(new Date(result));
+    if (secondOffset !== firstOffset) {
+      result = wallClock - secondOffset * 60000;
+    }
+
+    return new Date(result);
   }
 
   /**
-   * Check if a given time (hours:minutes) is in the past for today in Kolkata
+   * Check if a given time (hours:minutes) is in the past for today in this timezone
    *
    * @param hours - Hour in 24-hour format
    * @param minutes - Minutes
    * @returns true if the time has already passed today
    */
   isTimeInPastToday(hours: number, minutes: number): boolean {
-    const current = this.getCurrentKolkataComponents();
+    const current = this.getCurrentComponents();
 
     // Compare hours and minutes
     if (hours < current.hours) {
@@ -106,12 +240,12 @@ export class TimeService {
   }
 
   /**
-   * Format a Date object to a human-readable string in Kolkata timezone
+   * Format a Date object to a human-readable string in this timezone
    *
    * @param date - Date to format
    * @returns Formatted string like "Today at 7:05 PM" or "Tomorrow at 3:00 PM"
    */
-  formatKolkataDateTime(date: Date): string {
+  formatDateTime(date: Date): string {
     const dateStr = date.toLocaleDateString('en-US', {
       timeZone: this.timezone,
       weekday: 'short',
@@ -119,35 +253,15 @@ export class TimeService {
       day: 'numeric',
     });
 
-    const timeStr = date.toLocaleTimeString('en-US', {
-      timeZone: this.timezone,
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true,
-    });
+    const timeStr = this.formatTime(date);
 
-    const current = this.getCurrentKolkataComponents();
-    const targetComponents = this.getKolkataComponents(date);
+    const dayDiff = this.daysBetween(new Date(), date);
 
-    // Check if it's today
-    if (
-      current.year === targetComponents.year &&
-      current.month === targetComponents.month &&
-      current.day === targetComponents.day
-    ) {
+    if (dayDiff === 0) {
       return `Today at ${timeStr}`;
     }
 
-    // Check if it's tomorrow
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowComponents = this.getKolkataComponents(tomorrow);
-
-    if (
-      tomorrowComponents.year === targetComponents.year &&
-      tomorrowComponents.month === targetComponents.month &&
-      tomorrowComponents.day === targetComponents.day
-    ) {
+    if (dayDiff === 1) {
       return `Tomorrow at ${timeStr}`;
     }
 
@@ -155,29 +269,26 @@ export class TimeService {
   }
 
   /**
-   * Get date/time components for any Date object in Kolkata timezone
+   * Format just the time of day, e.g. "7:05 PM"
    */
-  private getKolkataComponents(date: Date): {
-    year: number;
-    month: number;
-    day: number;
-    hours: number;
-    minutes: number;
-  } {
-    const kolkataString = date.toLocaleString('en-US', {
+  formatTime(date: Date): string {
+    return date.toLocaleTimeString('en-US', {
       timeZone: this.timezone,
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
+      hour: 'numeric',
       minute: '2-digit',
-      hour12: false,
+      hour12: true,
     });
+  }
 
-    const [datePart, timePart] = kolkataString.split(', ');
-    const [month, day, year] = datePart.split('/').map(Number);
-    const [hours, minutes] = timePart.split(':').map(Number);
-
-    return { year, month, day, hours, minutes };
+  /**
+   * Number of local calendar days from `from` to `to` (0 = same day)
+   */
+  private daysBetween(from: Date, to: Date): number {
+    const a = this.getComponents(from);
+    const b = this.getComponents(to);
+    const msPerDay = 24 * 60 * 60 * 1000;
+    return Math.round(
+      (Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / msPerDay
+    );
   }
 }
@@ -0,0 +1,86 @@
+import OpenAI, { toFile } from 'openai';
+import { WhatsAppService } from './whatsapp.service';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+
+/**
+ * Speech-to-text backend
+ * Swap in a stub (tests) or an offline model by passing another implementation to TranscriptionService.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, mimeType: string): Promise<string>;
+}
+
+export interface VoiceNoteTranscript {
+  mediaId: string;
+  transcript: string;
+  provider: string;
+}
+
+/**
+ * Default provider: OpenAI's hosted Whisper model
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(private model: string = 'whisper-1') {
+    this.client = new OpenAI({
+      apiKey: env.OPENAI_API_KEY,
+    });
+  }
+
+  async transcribe(audio: Buffer, mimeType: string): Promise<string> {
+    // The API infers the format from the file name; WhatsApp voice notes are ogg/opus
+    const extension = mimeType.split(';')[0].split('/')[1] || 'ogg';
+    const file = await toFile(audio, `voice-note.${extension}`, { type: mimeType });
+
+    const result = await this.client.audio.transcriptions.create({
+      file,
+      model: this.model,
+    });
+
+    return result.text;
+  }
+}
+
+/**
+ * Transcription Service
+ *
+ * Turns an inbound voice note into text for the normal agent pipeline:
+ * downloads the media from WhatsApp, then runs it through the configured provider.
+ */
+export class TranscriptionService {
+  private provider: TranscriptionProvider;
+  private whatsappService: WhatsAppService;
+
+  constructor(provider?: TranscriptionProvider, whatsappService?: WhatsAppService) {
+    this.provider = provider || new OpenAITranscriptionProvider();
+    this.whatsappService = whatsappService || new WhatsAppService();
+  }
+
+  /**
+   * Transcribe a voice note by its WhatsApp media ID
+   *
+   * @returns Transcript, or null if the audio couldn't be fetched or had no recognisable speech
+   */
+  async transcribeVoiceNote(mediaId: string): Promise<VoiceNoteTranscript | null> {
+    try {
+      const { data, mimeType } = await this.whatsappService.downloadMedia(mediaId);
+      const transcript = (await this.provider.transcribe(data, mimeType)).trim();
+
+      if (!transcript) {
+        logger.warn({ mediaId, provider: this.provider.name }, 'Voice note transcript is empty');
+        return null;
+      }
+
+      logger.info({ mediaId, provider: this.provider.name, transcript }, 'Voice note transcribed');
+
+      return { mediaId, transcript, provider: this.provider.name };
+    } catch (error) {
+      logger.error({ error, mediaId, provider: this.provider.name }, 'Failed to transcribe voice note');
+      return null;
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { UserRepository } from '../repositories/user.repository';
-import { CreateUserInput } from '../types';
+import { PreferredLanguage, UpdateUserInput } from '../types';
 import { User } from '@prisma/client';
 import { logger } from '../config/logger';
 
@@ -27,8 +27,48 @@ export class UserService {
     return this.repository.findById(id);
   }
 
-  async updateUser(id: string, data: Partial<CreateUserInput>): Promise<User> {
+  async updateUser(id: string, data: UpdateUserInput): Promise<User> {
     logger.info({ userId: id, data }, 'Updating user');
     return this.repository.update(id, data);
   }
+
+  /**
+   * Language the user writes in (User.metadata.preferredLanguage), English until we've seen otherwise
+   */
+  static getPreferredLanguage(user: User): PreferredLanguage {
+    const metadata = user.metadata as Record<string, any> | null;
+    return metadata?.preferredLanguage || 'en';
+  }
+
+  /**
+   * Remember the language the user writes in
+   * Only writes when it changes, so most messages cost no extra query.
+   */
+  async setPreferredLanguage(user: User, language: PreferredLanguage): Promise<User> {
+    const metadata = (user.metadata as Record<string, any> | null) || {};
+    if (metadata.preferredLanguage === language) {
+      return user;
+    }
+
+    logger.info({ userId: user.id, language }, 'Updating preferred language');
+    return this.repository.update(user.id, { metadata: { ...metadata, preferredLanguage: language } });
+  }
+
+  /**
+   * UPI ID friends can pay the user at (User.metadata.upiId), if they've saved one
+   */
+  static getUpiId(user: User): string | null {
+    const metadata = user.metadata as Record<string, any> | null;
+    return metadata?.upiId || null;
+  }
+
+  /**
+   * Save the user's UPI ID, or forget it when given null
+   */
+  async setUpiId(user: User, upiId: string | null): Promise<User> {
+    const { upiId: _previous, ...metadata } = (user.metadata as Record<string, any> | null) || {};
+
+    logger.info({ userId: user.id, saved: upiId !== null }, 'Updating UPI ID');
+    return this.repository.update(user.id, { metadata: upiId ? { ...metadata, upiId } : metadata });
+  }
 }
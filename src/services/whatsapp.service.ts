@@ -1,7 +1,15 @@
 import axios, { AxiosInstance } from 'axios';
 import { env } from '../config/env';
 import { logger } from '../config/logger';
-import { SendMessageInput } from '../types';
+import { SendMessageInput, SendButtonMessageInput, SendListMessageInput, SendDocumentInput } from '../types';
+
+// Cloud API limits for interactive messages
+const MAX_BUTTONS = 3;
+const MAX_BUTTON_TITLE = 20;
+const MAX_LIST_ROWS = 10;
+const MAX_ROW_TITLE = 24;
+const MAX_ROW_DESCRIPTION = 72;
+const MAX_INTERACTIVE_BODY = 1024;
 
 export class WhatsAppService {
   private client: AxiosInstance;
@@ -60,13 +68,124 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Send a message with up to 3 reply buttons
+   * The tapped button comes back as an interactive "button_reply" with the button's ID
+   */
+  async sendButtonMessage(input: SendButtonMessageInput): Promise<{
+    messageId: string;
+    success: boolean;
+  }> {
+    if (input.buttons.length === 0 || input.buttons.length > MAX_BUTTONS) {
+      throw new Error(`Button messages need 1-${MAX_BUTTONS} buttons, got ${input.buttons.length}`);
+    }
+
+    return this.sendInteractive(input.to, {
+      type: 'button',
+      body: { text: this.truncate(input.message, MAX_INTERACTIVE_BODY) },
+      action: {
+        buttons: input.buttons.map((button) => ({
+          type: 'reply',
+          reply: {
+            id: button.id,
+            title: this.truncate(button.title, MAX_BUTTON_TITLE),
+          },
+        })),
+      },
+    });
+  }
+
+  /**
+   * Send a list message (a button that opens a picker of up to 10 rows)
+   * The picked row comes back as an interactive "list_reply" with the row's ID
+   */
+  async sendListMessage(input: SendListMessageInput): Promise<{
+    messageId: string;
+    success: boolean;
+  }> {
+    const rowCount = input.sections.reduce((total, section) => total + section.rows.length, 0);
+    if (rowCount === 0 || rowCount > MAX_LIST_ROWS) {
+      throw new Error(`List messages need 1-${MAX_LIST_ROWS} rows, got ${rowCount}`);
+    }
+
+    return this.sendInteractive(input.to, {
+      type: 'list',
+      body: { text: this.truncate(input.message, MAX_INTERACTIVE_BODY) },
+      action: {
+        button: this.truncate(input.buttonText, MAX_BUTTON_TITLE),
+        sections: input.sections.map((section) => ({
+          ...(section.title && { title: this.truncate(section.title, MAX_ROW_TITLE) }),
+          rows: section.rows.map((row) => ({
+            id: row.id,
+            title: this.truncate(row.title, MAX_ROW_TITLE),
+            ...(row.description && { description: this.truncate(row.description, MAX_ROW_DESCRIPTION) }),
+          })),
+        })),
+      },
+    });
+  }
+
+  /**
+   * Send a file as a document message
+   * The file is uploaded to WhatsApp's media store first; the message then refers to it by media ID.
+   */
+  async sendDocument(input: SendDocumentInput): Promise<{
+    messageId: string;
+    success: boolean;
+  }> {
+    try {
+      logger.info({ to: input.to, filename: input.filename, bytes: input.data.length }, 'Sending WhatsApp document');
+
+      const form = new FormData();
+      form.append('messaging_product', 'whatsapp');
+      form.append('type', input.mimeType);
+      form.append('file', new Blob([input.data], { type: input.mimeType }), input.filename);
+
+      const { data: media } = await this.client.post('/media', form, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+
+      const response = await this.client.post('/messages', {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: input.to,
+        type: 'document',
+        document: {
+          id: media.id,
+          filename: input.filename,
+          ...(input.caption && { caption: input.caption }),
+        },
+      });
+
+      const messageId = response.data.messages[0].id;
+
+      logger.info({ messageId, to: input.to, mediaId: media.id }, 'WhatsApp document sent successfully');
+
+      return {
+        messageId,
+        success: true,
+      };
+    } catch (error) {
+      logger.error({ error, to: input.to, filename: input.filename }, 'Failed to send WhatsApp document');
+
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `WhatsApp API error: ${error.response?.data?.error?.message || error.message}`
+        );
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * Send a template message (required for messages outside 24h window)
    */
   async sendTemplateMessage(
     to: string,
     templateName: string,
-    parameters: string[]
+    parameters: string[],
+    languageCode: string = 'en'
   ): Promise<{ messageId: string; success: boolean }> {
     try {
       logger.info({ to, templateName }, 'Sending WhatsApp template message');
@@ -78,7 +197,7 @@ export class WhatsAppService {
         template: {
           name: templateName,
           language: {
-            code: 'en',
+            code: languageCode,
           },
           components: [
             {
@@ -119,6 +238,86 @@ export class WhatsAppService {
     }
   }
 
+  /**
+   * Send an interactive message payload
+   */
+  private async sendInteractive(
+    to: string,
+    interactive: Record<string, any>
+  ): Promise<{ messageId: string; success: boolean }> {
+    try {
+      logger.info({ to, type: interactive.type }, 'Sending WhatsApp interactive message');
+
+      const response = await this.client.post('/messages', {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to,
+        type: 'interactive',
+        interactive,
+      });
+
+      const messageId = response.data.messages[0].id;
+
+      logger.info({ messageId, to }, 'WhatsApp interactive message sent successfully');
+
+      return {
+        messageId,
+        success: true,
+      };
+    } catch (error) {
+      logger.error({ error, to }, 'Failed to send WhatsApp interactive message');
+
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `WhatsApp API error: ${error.response?.data?.error?.message || error.message}`
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Shorten text to a Cloud API length limit
+   */
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  }
+
+  /**
+   * Download inbound media (voice notes, images...) by its media ID
+   * The Cloud API first resolves the ID to a short-lived URL, which also needs the access token.
+   */
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    try {
+      logger.info({ mediaId }, 'Downloading WhatsApp media');
+
+      // Media lives at the API root, not under the phone number
+      const { data: media } = await this.client.get(`${env.WHATSAPP_API_URL}/${mediaId}`);
+
+      const response = await this.client.get(media.url, {
+        responseType: 'arraybuffer',
+      });
+
+      logger.info({ mediaId, mimeType: media.mime_type, bytes: media.file_size }, 'WhatsApp media downloaded');
+
+      return {
+        data: Buffer.from(response.data),
+        mimeType: media.mime_type,
+      };
+    } catch (error) {
+      logger.error({ error, mediaId }, 'Failed to download WhatsApp media');
+
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `WhatsApp API error: ${error.response?.data?.error?.message || error.message}`
+        );
+      }
+
+      throw error;
+    }
+  }
+
   /**
    * Mark a message as read
    */
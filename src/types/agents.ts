@@ -1,4 +1,6 @@
 import { User } from '@prisma/client';
+import { IntentDetectionResult } from '../services/llm.service';
+import { InteractiveReplyData, ReplyButton, ListSection } from './index';
 
 /**
  * Agent Types
@@ -13,6 +15,7 @@ export interface AgentResponse {
   message: string;
   shouldSwitchAgent?: AgentType;
   flowComplete?: boolean;
+  reroute?: boolean; // The agent dropped its flow without using the message; route it again as a new one
   metadata?: Record<string, any>;
 }
 
@@ -28,11 +31,22 @@ export interface AgentContext {
     messageText: string;
     timestamp: Date;
     detectedIntent?: string;
+    relatedReminderId?: string;
   }>;
   currentFlow?: string;
   flowData?: Record<string, any>;
+  detectedIntent?: IntentDetectionResult; // Set by the router when it classified the message
+  interactiveReply?: InteractiveReplyData; // Set when the user tapped a reply button or list row
 }
 
+/**
+ * Tappable choices attached to an outbound message
+ * Buttons for up to 3 quick actions, or a list picker for up to 10 rows
+ */
+export type MessageChoices =
+  | { buttons: ReplyButton[] }
+  | { buttonText: string; sections: ListSection[] };
+
 /**
  * Base Agent Interface
  * All agents must implement this
@@ -5,22 +5,185 @@ export interface CreateUserInput {
   timezone?: string;
 }
 
+export interface UpdateUserInput extends Partial<CreateUserInput> {
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Language a user writes in, kept in User.metadata.preferredLanguage
+ * hinglish = Hindi typed in Latin script ("kal subah 8 baje")
+ */
+export type PreferredLanguage = 'en' | 'hi' | 'hinglish';
+
 // Reminder types
-export type ReminderStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'cancelled';
+export type ReminderStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled' | 'completed';
+
+/**
+ * How a reminder went out: a free-form message while the user's 24h session window was open,
+ * or an approved template once it had closed
+ */
+export type ReminderDeliveryChannel = 'session' | 'template';
 
 export interface CreateReminderInput {
   userId: string;
   reminderText: string;
   scheduledTime: Date;
+  recurrence?: string | null;
   metadata?: Record<string, any>;
 }
 
 export interface UpdateReminderInput {
+  reminderText?: string;
+  scheduledTime?: Date;
+  recurrence?: string | null;
   status?: ReminderStatus;
   sentAt?: Date;
   deliveredAt?: Date;
+  readAt?: Date;
+  completedAt?: Date;
   failureReason?: string;
   whatsappMsgId?: string;
+  deliveryChannel?: ReminderDeliveryChannel;
+  metadata?: Record<string, any>;
+}
+
+// Expense types
+
+/**
+ * How a participant's part of a bill was given
+ * - equal: an even part of whatever the fixed amounts leave over
+ * - exact: a fixed amount ("Rahul owes 600")
+ * - percentage: a percentage of the total ("Priya 40%")
+ * - shares: a weighted part of what's left ("Amit 2 shares")
+ */
+export type SplitType = 'equal' | 'exact' | 'percentage' | 'shares';
+
+export interface SplitEntry {
+  name: string;
+  type: SplitType;
+  value?: number; // Amount, percentage or share count; unused for equal
+}
+
+export interface ParticipantShare extends SplitEntry {
+  amount: number; // What this participant owes, in rupees (2 decimal places)
+}
+
+export type SplitError = 'over_total' | 'under_total' | 'percent_total' | 'ratio_mismatch' | 'too_few_people';
+
+export interface CreateExpenseInput {
+  userId: string;
+  totalAmount: number;
+  currency: string; // ISO 4217 code
+  description: string;
+  category?: string; // Worked out from the description when not given
+  paidBy: string; // Participant name of whoever paid the bill ("You" for the user)
+  participants: ParticipantShare[];
+  groupId?: string;
+}
+
+/**
+ * A fix to a recorded expense; a new total comes with the participants' new shares
+ */
+export interface UpdateExpenseInput {
+  totalAmount?: number;
+  currency?: string;
+  description?: string;
+  category?: string;
+  participants?: ParticipantShare[];
+}
+
+/**
+ * Money that changed hands outside an expense, e.g. "Rahul paid me back 500"
+ */
+export interface CreateSettlementInput {
+  userId: string;
+  fromName: string;
+  toName: string;
+  amount: number;
+  currency: string;
+  groupId?: string;
+}
+
+/**
+ * Where someone stands in one currency across all of a user's expenses and settlements
+ * net > 0: they are owed money; net < 0: they owe money
+ */
+export interface Balance {
+  name: string;
+  currency: string;
+  net: number;
+}
+
+/**
+ * What was spent in one currency over a period
+ * Categories add up to the user's own share; people add up to the total of the bills.
+ */
+export interface SpendingSummary {
+  currency: string;
+  expenseCount: number;
+  total: number; // All the bills
+  yourShare: number; // The user's part of them
+  byCategory: Array<{ category: string; amount: number }>; // The user's share, biggest first
+  byParticipant: Array<{ name: string; amount: number }>; // Everyone's share, biggest first
+}
+
+/**
+ * A calendar month's spending next to the month before, in the user's timezone
+ */
+export interface MonthlySpending {
+  month: string; // "March 2026"
+  previousMonth: string;
+  current: SpendingSummary[];
+  previous: SpendingSummary[];
+}
+
+export interface Transfer {
+  from: string;
+  to: string;
+  currency: string;
+  amount: number;
+}
+
+/**
+ * A named set of people the user splits bills with ("Flatmates", "Goa trip")
+ * The user is always in the group; members are everyone else.
+ */
+export interface CreateExpenseGroupInput {
+  userId: string;
+  name: string;
+  members: string[];
+}
+
+// Admin types
+export type AdminScope =
+  | 'stats:read'
+  | 'users:export'
+  | 'users:delete'
+  | 'config:read'
+  | 'config:write'
+  | 'tokens:manage'
+  | '*';
+
+export interface CreateAdminTokenInput {
+  name: string;
+  scopes: AdminScope[];
+}
+
+export interface AdminPrincipal {
+  tokenId: string | null; // null for the ADMIN_TOKEN environment token
+  name: string;
+  scopes: AdminScope[];
+}
+
+// Export types
+export type ExportDataset = 'reminders' | 'expenses' | 'conversations';
+export type ExportFormat = 'csv' | 'json';
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+  records: number; // Reminders, expenses or messages in the file
 }
 
 // Conversation types
@@ -31,7 +194,10 @@ export type DetectedIntent =
   | 'create_reminder'
   | 'list_reminders'
   | 'cancel_reminder'
+  | 'reminder_due'
   | 'help'
+  | 'unsupported_message'
+  | 'voice_note_unclear'
   | 'unknown';
 
 export interface CreateConversationInput {
@@ -39,6 +205,8 @@ export interface CreateConversationInput {
   direction: ConversationDirection;
   messageText: string;
   whatsappMessageId?: string;
+  mediaId?: string;
+  transcript?: string;
   detectedIntent?: DetectedIntent;
   extractedData?: Record<string, any>;
   activeFlow?: string;
@@ -52,6 +220,7 @@ export interface ConversationContext {
     messageText: string;
     timestamp: Date;
     detectedIntent?: DetectedIntent;
+    relatedReminderId?: string;
   }>;
   lastIntent?: DetectedIntent;
   lastActiveFlow?: string;
@@ -59,14 +228,209 @@ export interface ConversationContext {
 }
 
 // WhatsApp types
-export interface WhatsAppMessage {
+/**
+ * Inbound WhatsApp Cloud API message, discriminated on `type`
+ * Anything the API can't describe (or we don't model) arrives as 'unsupported'.
+ */
+export type WhatsAppMessage =
+  | WhatsAppTextMessage
+  | WhatsAppInteractiveMessage
+  | WhatsAppButtonMessage
+  | WhatsAppMediaMessage
+  | WhatsAppLocationMessage
+  | WhatsAppContactsMessage
+  | WhatsAppReactionMessage
+  | WhatsAppUnsupportedMessage;
+
+export type WhatsAppMessageType = WhatsAppMessage['type'];
+
+interface WhatsAppMessageBase {
   from: string;
   id: string;
   timestamp: string;
+  context?: {
+    from: string;
+    id: string; // wamid of the message being replied to
+  };
+}
+
+export interface WhatsAppTextMessage extends WhatsAppMessageBase {
+  type: 'text';
   text: {
     body: string;
   };
-  type: string;
+}
+
+export interface WhatsAppInteractiveMessage extends WhatsAppMessageBase {
+  type: 'interactive';
+  interactive: {
+    type: 'button_reply' | 'list_reply';
+    button_reply?: {
+      id: string;
+      title: string;
+    };
+    list_reply?: {
+      id: string;
+      title: string;
+      description?: string;
+    };
+  };
+}
+
+/**
+ * Tap on a quick-reply button of a template message
+ */
+export interface WhatsAppButtonMessage extends WhatsAppMessageBase {
+  type: 'button';
+  button: {
+    text: string;
+    payload: string;
+  };
+}
+
+export interface WhatsAppMedia {
+  id: string;
+  mime_type: string;
+  sha256?: string;
+  caption?: string;
+  filename?: string; // Documents only
+  voice?: boolean; // Audio only: true for voice notes
+  animated?: boolean; // Stickers only
+}
+
+export interface WhatsAppMediaMessage extends WhatsAppMessageBase {
+  type: 'audio' | 'image' | 'video' | 'document' | 'sticker';
+  audio?: WhatsAppMedia;
+  image?: WhatsAppMedia;
+  video?: WhatsAppMedia;
+  document?: WhatsAppMedia;
+  sticker?: WhatsAppMedia;
+}
+
+export interface WhatsAppLocationMessage extends WhatsAppMessageBase {
+  type: 'location';
+  location: {
+    latitude: number;
+    longitude: number;
+    name?: string;
+    address?: string;
+  };
+}
+
+export interface WhatsAppContactsMessage extends WhatsAppMessageBase {
+  type: 'contacts';
+  contacts: Array<{
+    name: {
+      formatted_name: string;
+    };
+    phones?: Array<{
+      phone: string;
+      wa_id?: string;
+    }>;
+  }>;
+}
+
+export interface WhatsAppReactionMessage extends WhatsAppMessageBase {
+  type: 'reaction';
+  reaction: {
+    message_id: string;
+    emoji?: string; // Missing when a reaction is removed
+  };
+}
+
+export interface WhatsAppUnsupportedMessage extends WhatsAppMessageBase {
+  type: 'unsupported';
+  errors?: Array<{
+    code: number;
+    title: string;
+  }>;
+}
+
+/**
+ * What we can do with an inbound message (see InboundMessage.read)
+ * - text: route through the agents (typed text, a tapped button, or a media caption)
+ * - audio: transcribe, then route the transcript like text
+ * - unsupported: reply that we only read text; `label` names the thing we couldn't read
+ */
+export type InboundContent =
+  | { kind: 'text'; text: string; interactiveReply?: InteractiveReplyData }
+  | { kind: 'audio'; mediaId: string }
+  | { kind: 'unsupported'; label: string };
+
+/**
+ * A tapped reply button or list row
+ * `id` is the ID we set when sending it (see InteractiveReply)
+ */
+export interface InteractiveReplyData {
+  id: string;
+  title: string;
+}
+
+export interface ReplyButton {
+  id: string;
+  title: string; // Max 20 characters
+}
+
+export interface ListRow {
+  id: string;
+  title: string; // Max 24 characters
+  description?: string; // Max 72 characters
+}
+
+export interface ListSection {
+  title?: string;
+  rows: ListRow[];
+}
+
+export interface SendButtonMessageInput {
+  to: string;
+  message: string;
+  buttons: ReplyButton[]; // 1-3 buttons
+}
+
+export interface SendDocumentInput {
+  to: string;
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+  caption?: string;
+}
+
+export interface SendListMessageInput {
+  to: string;
+  message: string;
+  buttonText: string; // Label of the button that opens the list, max 20 characters
+  sections: ListSection[]; // Max 10 rows in total
+}
+
+export type WhatsAppDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface WhatsAppStatusUpdate {
+  id: string; // wamid of the outbound message
+  status: WhatsAppDeliveryStatus;
+  timestamp: string; // Unix seconds
+  recipient_id: string;
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+    error_data?: {
+      details: string;
+    };
+  }>;
+}
+
+export interface UpdateDeliveryStatusInput {
+  status: WhatsAppDeliveryStatus;
+  at: Date;
+  failureReason?: string;
+}
+
+export interface UpdateConversationDeliveryInput {
+  deliveryStatus?: WhatsAppDeliveryStatus;
+  deliveredAt?: Date;
+  readAt?: Date;
+  failureReason?: string;
 }
 
 export interface WhatsAppWebhookPayload {
@@ -87,12 +451,7 @@ export interface WhatsAppWebhookPayload {
           wa_id: string;
         }>;
         messages?: WhatsAppMessage[];
-        statuses?: Array<{
-          id: string;
-          status: string;
-          timestamp: string;
-          recipient_id: string;
-        }>;
+        statuses?: WhatsAppStatusUpdate[];
       };
       field: string;
     }>;
@@ -106,6 +465,36 @@ export interface SendMessageInput {
 }
 
 // Parser types
+
+/**
+ * Something a time expression left us guessing about (see DateTimeParser)
+ * - meridiem: hour written without am/pm ("at 7")
+ * - bare_number: a lone number read as an hour ("call mom 7"), may not be a time at all
+ * - default_time: only a date was given, so a default time of day was used
+ * - time_passed: the time had already passed, so it was moved to the next day / week / month / year
+ * - next_weekday: "next friday" taken as next week's friday rather than the coming one
+ */
+export interface DateTimeAmbiguity {
+  type: 'meridiem' | 'bare_number' | 'default_time' | 'time_passed' | 'next_weekday';
+  raw: string; // The part of the message it's about
+  alternatives?: Date[]; // Other readings, when there are specific ones
+  recurrences?: string[]; // RRULEs for each alternative, when the reminder repeats
+}
+
+export interface ParsedDateTime {
+  scheduledTime: Date;
+  timeExpression: string;
+  dateExpression?: string;
+  confidence: number; // 0-1, lower the more we had to guess
+  ambiguities: DateTimeAmbiguity[];
+  recurrence?: string; // RRULE string for repeating reminders
+  metadata?: {
+    hours: number;
+    minutes: number;
+    daysFromNow: number;
+  };
+}
+
 export interface ParsedReminder {
   text: string;
   scheduledTime: Date;
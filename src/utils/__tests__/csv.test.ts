@@ -0,0 +1,47 @@
+import { Csv } from '../csv';
+
+describe('Csv', () => {
+  describe('stringify', () => {
+    it('should write a header and a line per row in column order', () => {
+      const csv = Csv.stringify(['name', 'amount'], [
+        { amount: 600, name: 'Rahul' },
+        { amount: 400, name: 'Priya' },
+      ]);
+
+      expect(csv).toBe('name,amount\r\nRahul,600\r\nPriya,400\r\n');
+    });
+
+    it('should write just the header when there are no rows', () => {
+      expect(Csv.stringify(['id', 'status'], [])).toBe('id,status\r\n');
+    });
+  });
+
+  describe('cell', () => {
+    it('should leave plain values as they are', () => {
+      expect(Csv.cell('Dinner at Toit')).toBe('Dinner at Toit');
+      expect(Csv.cell(1200.5)).toBe('1200.5');
+      expect(Csv.cell(true)).toBe('true');
+    });
+
+    it('should write missing values as empty cells', () => {
+      expect(Csv.cell(null)).toBe('');
+      expect(Csv.cell(undefined)).toBe('');
+    });
+
+    it('should write dates as ISO timestamps', () => {
+      expect(Csv.cell(new Date('2026-03-01T09:30:00Z'))).toBe('2026-03-01T09:30:00.000Z');
+    });
+
+    it('should quote commas, quotes and line breaks', () => {
+      expect(Csv.cell('cab, then dinner')).toBe('"cab, then dinner"');
+      expect(Csv.cell('the "good" cafe')).toBe('"the ""good"" cafe"');
+      expect(Csv.cell('call mom\nand dad')).toBe('"call mom\nand dad"');
+    });
+
+    it('should stop spreadsheets reading text as a formula', () => {
+      expect(Csv.cell('=SUM(A1:A3)')).toBe("'=SUM(A1:A3)");
+      expect(Csv.cell('@Rahul')).toBe("'@Rahul");
+      expect(Csv.cell('-500 refund, cab')).toBe(`"'-500 refund, cab"`);
+    });
+  });
+});
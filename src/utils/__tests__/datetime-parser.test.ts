@@ -0,0 +1,127 @@
+import { DateTimeParser } from '../datetime-parser';
+
+// Wednesday 12 March 2025, 12:00 in Asia/Kolkata
+const NOW = new Date('2025-03-12T06:30:00Z');
+
+describe('DateTimeParser', () => {
+  let parser: DateTimeParser;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    parser = new DateTimeParser('Asia/Kolkata');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('ambiguities', () => {
+    it.each([
+      ['tomorrow 7pm', []],
+      ['19:00', []],
+      ['in 45 minutes', []],
+      ['at 7', ['meridiem']],
+      ['7:30', ['meridiem']],
+      ['call mom 7', ['meridiem', 'bare_number']],
+      ['9am', ['time_passed']],
+      ['tomorrow', ['default_time']],
+      ['next friday 6pm', ['next_weekday']],
+      ['every day at 7', ['meridiem']],
+    ])('should report "%s" as %j', (input, expected) => {
+      const result = parser.parse(input);
+
+      expect(result?.ambiguities.map((ambiguity) => ambiguity.type)).toEqual(expected);
+    });
+
+    it.each([
+      ['12 noon', '2025-03-13T06:30:00.000Z'],
+      ['tomorrow 12 noon', '2025-03-13T06:30:00.000Z'],
+      ['12 midnight', '2025-03-12T18:30:00.000Z'],
+      ['call mom at 12:00 midnight', '2025-03-12T18:30:00.000Z'],
+    ])('should read "%s" as the named time without asking about am/pm', (input, expected) => {
+      const result = parser.parse(input);
+
+      expect(result?.scheduledTime.toISOString()).toBe(expected);
+      expect(result?.ambiguities.map((ambiguity) => ambiguity.type)).not.toContain('meridiem');
+      expect(result?.ambiguities.map((ambiguity) => ambiguity.type)).not.toContain('bare_number');
+    });
+
+    it('should pick the sooner reading of an hour without am/pm and offer the other', () => {
+      const result = parser.parse('at 7');
+
+      expect(result?.scheduledTime.toISOString()).toBe('2025-03-12T13:30:00.000Z');
+      expect(result?.ambiguities[0].alternatives?.map((date) => date.toISOString())).toEqual([
+        '2025-03-13T01:30:00.000Z',
+      ]);
+    });
+
+    it('should offer the coming weekday for "next friday"', () => {
+      const result = parser.parse('next friday 6pm');
+
+      expect(result?.scheduledTime.toISOString()).toBe('2025-03-21T12:30:00.000Z');
+      expect(result?.ambiguities[0].alternatives?.map((date) => date.toISOString())).toEqual([
+        '2025-03-14T12:30:00.000Z',
+      ]);
+    });
+
+    it('should take hours in repeating schedules as written and offer the other schedule', () => {
+      const result = parser.parse('every day at 7');
+
+      expect(result?.metadata).toMatchObject({ hours: 7, minutes: 0 });
+      expect(result?.ambiguities[0].alternatives?.map((date) => date.toISOString())).toEqual([
+        '2025-03-12T13:30:00.000Z',
+      ]);
+      expect(result?.ambiguities[0].recurrences).toEqual([expect.stringContaining('BYHOUR=19')]);
+    });
+  });
+
+  describe('hinglish', () => {
+    it.each([
+      ['kal subah 8 baje', '2025-03-13T02:30:00.000Z'],
+      ['कल सुबह 8 बजे', '2025-03-13T02:30:00.000Z'],
+      ['parso shaam ko', '2025-03-14T12:30:00.000Z'],
+      ['aaj raat 10 baje yaad dilana', '2025-03-12T16:30:00.000Z'],
+      ['raat 1 baje', '2025-03-12T19:30:00.000Z'],
+      ['kal saadhe 7 baje shaam', '2025-03-13T14:00:00.000Z'],
+      ['paune 6 baje shaam', '2025-03-12T12:15:00.000Z'],
+      ['dopahar 12 baje kal', '2025-03-13T06:30:00.000Z'],
+      ['2 ghante baad', '2025-03-12T08:30:00.000Z'],
+      ['aadhe ghante mein', '2025-03-12T07:00:00.000Z'],
+      ['dedh ghante baad', '2025-03-12T08:00:00.000Z'],
+      ['10 minute baad', '2025-03-12T06:40:00.000Z'],
+      ['3 din baad', '2025-03-15T03:30:00.000Z'],
+      ['agle hafte', '2025-03-19T03:30:00.000Z'],
+      ['somvar subah 9 baje', '2025-03-17T03:30:00.000Z'],
+      ['tomorrow morning at 8', '2025-03-13T02:30:00.000Z'],
+    ])('should parse "%s"', (input, expected) => {
+      expect(parser.parse(input)?.scheduledTime.toISOString()).toBe(expected);
+    });
+
+    it('should only ask about am/pm when no part of the day is given', () => {
+      expect(parser.parse('kal subah 8 baje')?.ambiguities).toEqual([]);
+      expect(parser.parse('kal 8 baje')?.ambiguities.map((ambiguity) => ambiguity.type)).toEqual(['meridiem']);
+    });
+
+    it('should read a Hinglish snooze duration', () => {
+      expect(parser.parseDuration('do ghante baad')).toEqual({ minutes: 120, raw: 'do ghante baad' });
+    });
+  });
+
+  describe('confidence', () => {
+    it('should drop as the expression gets vaguer', () => {
+      const confidences = ['tomorrow 7pm', 'tomorrow evening', 'tomorrow at 7', 'tomorrow'].map(
+        (input) => parser.parse(input)!.confidence
+      );
+
+      expect(confidences).toEqual([...confidences].sort((a, b) => b - a));
+      expect(new Set(confidences).size).toBe(confidences.length);
+    });
+
+    it('should stay between 0 and 1', () => {
+      const result = parser.parse('next friday 7');
+
+      expect(result?.confidence).toBeGreaterThan(0);
+      expect(result?.confidence).toBeLessThanOrEqual(1);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { DeliveryStatus } from '../delivery-status';
+
+describe('DeliveryStatus', () => {
+  describe('shouldAdvance', () => {
+    it.each([
+      [null, 'sent', true],
+      ['sent', 'delivered', true],
+      ['sent', 'read', true],
+      ['delivered', 'read', true],
+      ['read', 'delivered', false],
+      ['delivered', 'sent', false],
+      ['read', 'read', false],
+      ['sent', 'failed', true],
+      ['failed', 'delivered', false],
+      ['pending', 'read', false],
+      ['completed', 'delivered', false],
+    ] as const)('%s -> %s should be %s', (current, next, expected) => {
+      expect(DeliveryStatus.shouldAdvance(current, next)).toBe(expected);
+    });
+  });
+
+  describe('describeFailure', () => {
+    it('should include the error code, title and details', () => {
+      const reason = DeliveryStatus.describeFailure([
+        {
+          code: 131047,
+          title: 'Re-engagement message',
+          error_data: { details: 'More than 24 hours have passed since the customer last replied' },
+        },
+      ]);
+
+      expect(reason).toBe(
+        '131047 Re-engagement message: More than 24 hours have passed since the customer last replied'
+      );
+    });
+
+    it('should fall back when no errors are given', () => {
+      expect(DeliveryStatus.describeFailure(undefined)).toBe('Unknown delivery failure');
+    });
+  });
+
+  describe('parseTimestamp', () => {
+    it('should convert Unix seconds', () => {
+      expect(DeliveryStatus.parseTimestamp('1733565600').toISOString()).toBe('2024-12-07T10:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { ExpenseCategory } from '../expense-category';
+
+describe('ExpenseCategory', () => {
+  describe('fromDescription', () => {
+    it.each([
+      ['Dinner at Toit', 'food'],
+      ['swiggy order', 'food'],
+      ['Blinkit groceries', 'groceries'],
+      ['March rent', 'rent'],
+      ['electricity bill', 'utilities'],
+      ['Wifi', 'utilities'],
+      ['cabs to the airport', 'travel'],
+      ['Goa villa', 'travel'],
+      ['movies', 'entertainment'],
+      ['dinner on the goa trip', 'food'],
+    ])('should put "%s" in %s', (description, category) => {
+      expect(ExpenseCategory.fromDescription(description)).toBe(category);
+    });
+
+    it.each(['Expense', 'Diwali decorations', 'barbecue', ''])('should leave "%s" for the LLM', (description) => {
+      expect(ExpenseCategory.fromDescription(description)).toBeNull();
+    });
+  });
+
+  describe('isCategory', () => {
+    it('should only accept known categories', () => {
+      expect(ExpenseCategory.isCategory('food')).toBe(true);
+      expect(ExpenseCategory.isCategory('toString')).toBe(false);
+      expect(ExpenseCategory.isCategory(null)).toBe(false);
+    });
+  });
+
+  describe('label', () => {
+    it('should show unknown categories as other', () => {
+      expect(ExpenseCategory.label('travel')).toBe('🚕 Travel');
+      expect(ExpenseCategory.label('pets')).toBe('📦 Other');
+    });
+  });
+});
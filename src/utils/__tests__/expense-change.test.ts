@@ -0,0 +1,46 @@
+import { ExpenseChange } from '../expense-change';
+
+describe('ExpenseChange', () => {
+  describe('parse', () => {
+    it.each([
+      ['delete expense 2', { action: 'delete', expense: { index: 2 } }],
+      ['remove bill #3', { action: 'delete', expense: { index: 3 } }],
+      ['delete the last expense', { action: 'delete', expense: { last: true } }],
+      ['delete the dinner expense', { action: 'delete', expense: { search: 'dinner' } }],
+      ['remove expense for goa villa', { action: 'delete', expense: { search: 'goa villa' } }],
+    ])('should read "%s"', (message, expected) => {
+      expect(ExpenseChange.parse(message)).toEqual(expected);
+    });
+
+    it.each([
+      ['change expense 2 to 1800', { index: 2 }, 1800, undefined],
+      ['fix the dinner expense amount to $40', { search: 'dinner' }, 40, 'USD'],
+      ['update the total of expense 1 to 2.5k', { index: 1 }, 2500, undefined],
+      ['edit last expense to ₹950', { last: true }, 950, 'INR'],
+    ])('should read a new amount from "%s"', (message, expense, amount, currency) => {
+      const change = ExpenseChange.parse(message);
+      expect(change).toMatchObject({ action: 'edit', expense, amount: { amount } });
+      expect(change?.action === 'edit' && change.amount?.currency).toBe(currency);
+    });
+
+    it.each([
+      ['rename expense 3 to team lunch', { index: 3 }, 'team lunch'],
+      ['change expense 2 to "cab to airport"', { index: 2 }, 'cab to airport'],
+      ['change the description of expense 1 to 1st anniversary dinner', { index: 1 }, '1st anniversary dinner'],
+      ['change the cab expense name to airport cab', { search: 'cab' }, 'airport cab'],
+    ])('should read a new description from "%s"', (message, expense, description) => {
+      expect(ExpenseChange.parse(message)).toEqual({ action: 'edit', expense, description });
+    });
+
+    it.each([
+      'delete reminder 2',
+      'delete the bill reminder',
+      'change the rent reminder to 9pm',
+      'change the amount of expense 2 to lots',
+      'delete expense 0',
+      'split 1200 dinner',
+    ])('should not read "%s" as an expense change', (message) => {
+      expect(ExpenseChange.parse(message)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { ExpenseSplit } from '../expense-split';
+
+describe('ExpenseSplit', () => {
+  describe('parse', () => {
+    it('should read fixed amounts and split the rest equally', () => {
+      const result = ExpenseSplit.parse('I paid 1500, Rahul owes 600, rest split equally');
+
+      expect(result.entries).toEqual([
+        { name: 'You', type: 'equal' },
+        { name: 'Rahul', type: 'exact', value: 600 },
+      ]);
+      expect(result.unparsed).toEqual(['I paid 1500']);
+    });
+
+    it('should read a percentage ratio with the sender first', () => {
+      const result = ExpenseSplit.parse('split 2400 dinner 60/40 with Priya');
+
+      expect(result.entries).toEqual([
+        { name: 'You', type: 'percentage', value: 60 },
+        { name: 'Priya', type: 'percentage', value: 40 },
+      ]);
+      expect(result.unparsed).toEqual(['split 2400 dinner']);
+    });
+
+    it('should read a ratio that is not out of 100 as shares', () => {
+      expect(ExpenseSplit.parse('split 900 2:1 with Amit').entries).toEqual([
+        { name: 'You', type: 'shares', value: 2 },
+        { name: 'Amit', type: 'shares', value: 1 },
+      ]);
+    });
+
+    it('should split equally with everyone named', () => {
+      expect(ExpenseSplit.parse('split 1200 with Rahul, Priya and Amit for dinner').entries).toEqual([
+        { name: 'You', type: 'equal' },
+        { name: 'Rahul', type: 'equal' },
+        { name: 'Priya', type: 'equal' },
+        { name: 'Amit', type: 'equal' },
+      ]);
+    });
+
+    it.each([
+      'split 1000 with rahul, priya owes 300',
+      'split 1000 with rahul and priya owes 300',
+    ])('should end the "with" list at a name given its own part: "%s"', (message) => {
+      const result = ExpenseSplit.parse(message);
+
+      expect(result.entries).toEqual([
+        { name: 'You', type: 'equal' },
+        { name: 'Priya', type: 'exact', value: 300 },
+        { name: 'Rahul', type: 'equal' },
+      ]);
+      expect(result.unparsed).toEqual(['split 1000']);
+    });
+
+    it('should end the "with" list at a name given a percentage or shares', () => {
+      expect(ExpenseSplit.parse('split 900 with Rahul, Amit 2 shares').entries).toEqual([
+        { name: 'You', type: 'equal' },
+        { name: 'Amit', type: 'shares', value: 2 },
+        { name: 'Rahul', type: 'equal' },
+      ]);
+    });
+
+    it('should read decimal and shorthand amounts', () => {
+      const result = ExpenseSplit.parse('spent 1,250.75 on groceries, Rahul owes 250.75, Priya owes 0.5k');
+
+      expect(result.entries).toEqual([
+        { name: 'You', type: 'equal' },
+        { name: 'Rahul', type: 'exact', value: 250.75 },
+        { name: 'Priya', type: 'exact', value: 500 },
+      ]);
+      expect(result.unparsed).toEqual(['spent 1,250.75 on groceries']);
+    });
+
+    it('should report a ratio that does not match the people', () => {
+      expect(ExpenseSplit.parse('split 900 50/30/20 with Priya').error).toBe('ratio_mismatch');
+    });
+
+    it('should put whoever paid in the split', () => {
+      const result = ExpenseSplit.parse('Rahul paid 1500 for dinner, split with Priya');
+
+      expect(result.payer).toBe('Rahul');
+      expect(result.entries).toEqual([
+        { name: 'You', type: 'equal' },
+        { name: 'Priya', type: 'equal' },
+        { name: 'Rahul', type: 'equal' },
+      ]);
+    });
+
+    it('should take the sender as the payer unless someone else paid', () => {
+      expect(ExpenseSplit.parse('I paid 1500, Rahul owes 600').payer).toBe('You');
+      expect(ExpenseSplit.parse('split 1200 dinner, bill paid by card').payer).toBe('You');
+    });
+
+    it('should not read what the bill was for as a person', () => {
+      expect(ExpenseSplit.parse('dinner - 1200').entries).toEqual([]);
+    });
+  });
+
+  describe('parseLines', () => {
+    it('should read a participant per line', () => {
+      expect(ExpenseSplit.parseLines('me 2 shares\nRahul 600\nPriya 40%\nAmit')).toEqual([
+        { name: 'You', type: 'shares', value: 2 },
+        { name: 'Rahul', type: 'exact', value: 600 },
+        { name: 'Priya', type: 'percentage', value: 40 },
+        { name: 'Amit', type: 'equal' },
+      ]);
+    });
+  });
+
+  describe('allocate', () => {
+    const amounts = (result: ReturnType<typeof ExpenseSplit.allocate>) =>
+      result.success ? result.shares.map((share) => share.amount) : result.error;
+
+    it('should hand leftover paise to the first participants', () => {
+      expect(amounts(ExpenseSplit.allocate(100, [
+        { name: 'A', type: 'equal' },
+        { name: 'B', type: 'equal' },
+        { name: 'C', type: 'equal' },
+      ]))).toEqual([33.34, 33.33, 33.33]);
+    });
+
+    it('should take fixed amounts and percentages off before equal parts', () => {
+      expect(amounts(ExpenseSplit.allocate(1500, [
+        { name: 'You', type: 'equal' },
+        { name: 'Rahul', type: 'exact', value: 600 },
+        { name: 'Priya', type: 'percentage', value: 10 },
+        { name: 'Amit', type: 'equal' },
+      ]))).toEqual([375, 600, 150, 375]);
+    });
+
+    it('should split by shares and always add up to the total', () => {
+      const result = ExpenseSplit.allocate(1000, [
+        { name: 'You', type: 'shares', value: 2 },
+        { name: 'Amit', type: 'shares', value: 1 },
+      ]);
+
+      expect(amounts(result)).toEqual([666.67, 333.33]);
+    });
+
+    it('should round percentages by largest remainder', () => {
+      expect(amounts(ExpenseSplit.allocate(10, [
+        { name: 'A', type: 'percentage', value: 33.33 },
+        { name: 'B', type: 'percentage', value: 33.33 },
+        { name: 'C', type: 'percentage', value: 33.34 },
+      ]))).toEqual([3.33, 3.33, 3.34]);
+    });
+
+    it.each([
+      ['over_total', 1000, [{ name: 'A', type: 'exact', value: 800 }, { name: 'B', type: 'exact', value: 300 }]],
+      ['under_total', 1000, [{ name: 'A', type: 'exact', value: 500 }, { name: 'B', type: 'exact', value: 300 }]],
+      ['percent_total', 1000, [{ name: 'A', type: 'percentage', value: 60 }, { name: 'B', type: 'percentage', value: 30 }]],
+      ['too_few_people', 1000, [{ name: 'A', type: 'equal' }]],
+    ] as const)('should reject a split that is %s', (error, total, entries) => {
+      expect(ExpenseSplit.allocate(total, [...entries])).toMatchObject({ success: false, error });
+    });
+  });
+});
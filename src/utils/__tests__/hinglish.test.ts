@@ -0,0 +1,25 @@
+import { Hinglish } from '../hinglish';
+
+describe('Hinglish', () => {
+  describe('romanize', () => {
+    it('should spell Devanagari time words and digits the Hinglish way', () => {
+      expect(Hinglish.romanize('कल शाम ६ बजे मीटिंग')).toBe('kal shaam 6 baje मीटिंग');
+    });
+
+    it('should not touch words that only contain a time word', () => {
+      expect(Hinglish.romanize('निकलना')).toBe('निकलना');
+    });
+  });
+
+  describe('detectLanguage', () => {
+    it.each([
+      ['कल सुबह याद दिलाना', 'hi'],
+      ['kal subah 8 baje yaad dilana', 'hinglish'],
+      ['remind me tomorrow to call mom', 'en'],
+      ['ok', null],
+      ['8pm', null],
+    ])('should read "%s" as %s', (input, expected) => {
+      expect(Hinglish.detectLanguage(input)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { InboundMessage } from '../inbound-message';
+import { WhatsAppMessage } from '../../types';
+
+const base = { from: '919876543210', id: 'wamid.in', timestamp: '1733390000' };
+
+describe('InboundMessage', () => {
+  describe('read', () => {
+    it('should read text messages', () => {
+      const message: WhatsAppMessage = { ...base, type: 'text', text: { body: ' remind me at 7 ' } };
+
+      expect(InboundMessage.read(message)).toEqual({ kind: 'text', text: 'remind me at 7' });
+    });
+
+    it('should read tapped buttons as their title with the reply ID', () => {
+      const message: WhatsAppMessage = {
+        ...base,
+        type: 'interactive',
+        interactive: { type: 'button_reply', button_reply: { id: 'reminder_done:r1', title: 'Done ✅' } },
+      };
+
+      expect(InboundMessage.read(message)).toEqual({
+        kind: 'text',
+        text: 'Done ✅',
+        interactiveReply: { id: 'reminder_done:r1', title: 'Done ✅' },
+      });
+    });
+
+    it('should read media captions as text', () => {
+      const message: WhatsAppMessage = {
+        ...base,
+        type: 'image',
+        image: { id: 'media-1', mime_type: 'image/jpeg', caption: 'pay this bill on friday' },
+      };
+
+      expect(InboundMessage.read(message)).toEqual({ kind: 'text', text: 'pay this bill on friday' });
+    });
+
+    it('should read voice notes as audio to transcribe', () => {
+      const message: WhatsAppMessage = {
+        ...base,
+        type: 'audio',
+        audio: { id: 'media-2', mime_type: 'audio/ogg; codecs=opus', voice: true },
+      };
+
+      expect(InboundMessage.read(message)).toEqual({ kind: 'audio', mediaId: 'media-2' });
+    });
+
+    it.each<[string, WhatsAppMessage, string]>([
+      ['photos without a caption', { ...base, type: 'image', image: { id: 'm', mime_type: 'image/jpeg' } }, 'photo'],
+      ['stickers', { ...base, type: 'sticker', sticker: { id: 'm', mime_type: 'image/webp' } }, 'sticker'],
+      ['locations', { ...base, type: 'location', location: { latitude: 19.07, longitude: 72.87 } }, 'location'],
+      ['reactions', { ...base, type: 'reaction', reaction: { message_id: 'wamid.out', emoji: '👍' } }, 'reaction'],
+      ['unsupported messages', { ...base, type: 'unsupported' }, 'message'],
+    ])('should treat %s as unsupported', (_name, message, label) => {
+      expect(InboundMessage.read(message)).toEqual({ kind: 'unsupported', label });
+    });
+
+    it('should treat unknown message types as unsupported', () => {
+      const message = { ...base, type: 'order', order: {} } as unknown as WhatsAppMessage;
+
+      expect(InboundMessage.read(message)).toEqual({ kind: 'unsupported', label: 'message' });
+    });
+  });
+});
@@ -0,0 +1,14 @@
+import { InteractiveReply } from '../interactive-reply';
+
+describe('InteractiveReply', () => {
+  it('should round-trip an action and its arguments', () => {
+    const id = InteractiveReply.encode('reminder_snooze', 'c0ffee-1234', 10);
+
+    expect(id).toBe('reminder_snooze:c0ffee-1234:10');
+    expect(InteractiveReply.decode(id)).toEqual({ action: 'reminder_snooze', args: ['c0ffee-1234', '10'] });
+  });
+
+  it('should decode an ID without arguments', () => {
+    expect(InteractiveReply.decode('help')).toEqual({ action: 'help', args: [] });
+  });
+});
@@ -0,0 +1,46 @@
+import { Money } from '../money';
+
+describe('Money', () => {
+  describe('find', () => {
+    it.each([
+      ['split ₹1200 dinner', { amount: 1200, currency: 'INR', raw: '₹1200' }],
+      ['paid Rs. 500 for the cab', { amount: 500, currency: 'INR', raw: 'Rs. 500' }],
+      ['spent $12.50 on lunch', { amount: 12.5, currency: 'USD', raw: '$12.50' }],
+      ['€40 museum tickets', { amount: 40, currency: 'EUR', raw: '€40' }],
+      ['dinner 75 GBP with Amit', { amount: 75, currency: 'GBP', raw: '75 GBP' }],
+      ['AED 40 taxi', { amount: 40, currency: 'AED', raw: 'AED 40' }],
+      ['spent 1,250.75 on groceries', { amount: 1250.75, raw: '1,250.75' }],
+      ['rent 1,25,000 rupees', { amount: 125000, currency: 'INR', raw: '1,25,000 rupees' }],
+      ['split 1.2k dinner', { amount: 1200, raw: '1.2k' }],
+      ['goa villa 2 lakh', { amount: 200000, raw: '2 lakh' }],
+      ['paid 1.5L deposit', { amount: 150000, raw: '1.5L' }],
+    ])('should read "%s"', (message, expected) => {
+      expect(Money.find(message)).toEqual(expected);
+    });
+
+    it.each(['split 60/40 with Priya', 'meet at 5 for lunch', 'hello 500'])(
+      'should not find an amount in "%s"',
+      (message) => {
+        expect(Money.find(message)).toBeNull();
+      }
+    );
+  });
+
+  describe('read', () => {
+    it('should only read text that is an amount', () => {
+      expect(Money.read('2.5k')).toEqual({ amount: 2500, raw: '2.5k' });
+      expect(Money.read('40 eur')).toEqual({ amount: 40, currency: 'EUR', raw: '40 eur' });
+      expect(Money.read('40 people')).toBeNull();
+      expect(Money.read('0')).toBeNull();
+    });
+  });
+
+  describe('format', () => {
+    it('should write the amount with its currency', () => {
+      expect(Money.format(1200)).toBe('₹1200.00');
+      expect(Money.format(12.5, 'USD')).toBe('$12.50');
+      expect(Money.format(40, 'AED')).toBe('AED 40.00');
+      expect(Money.format(10, 'CHF')).toBe('CHF 10.00');
+    });
+  });
+});
@@ -1,4 +1,9 @@
 import { ReminderParser } from '../reminder-parser';
+import { TimeService } from '../../services/time.service';
+
+// Read clock times in the user's timezone, not the machine running the tests
+const timeService = new TimeService('Asia/Kolkata');
+const localTime = (date: Date | undefined) => date && timeService.getComponents(date);
 
 describe('ReminderParser', () => {
   let parser: ReminderParser;
@@ -13,8 +18,15 @@ describe('ReminderParser', () => {
 
       expect(result).not.toBeNull();
       expect(result?.text).toBe('call doctor');
-      expect(result?.scheduledTime.getHours()).toBe(9);
-      expect(result?.scheduledTime.getMinutes()).toBe(0);
+      expect(localTime(result?.scheduledTime)?.hours).toBe(9);
+      expect(localTime(result?.scheduledTime)?.minutes).toBe(0);
+    });
+
+    it('should parse Hinglish and leave the task', () => {
+      const result = parser.parse('kal subah 8 baje doodh lana yaad dilana');
+
+      expect(result?.text).toBe('doodh lana');
+      expect(localTime(result?.scheduledTime)?.hours).toBe(8);
     });
 
     it('should parse "7pm today"', () => {
@@ -22,7 +34,7 @@ describe('ReminderParser', () => {
 
       expect(result).not.toBeNull();
       expect(result?.text).toContain('Pay rent');
-      expect(result?.scheduledTime.getHours()).toBe(19);
+      expect(localTime(result?.scheduledTime)?.hours).toBe(19);
     });
 
     it('should parse "tomorrow morning"', () => {
@@ -30,15 +42,15 @@ describe('ReminderParser', () => {
 
       expect(result).not.toBeNull();
       expect(result?.text).toBe('Meeting');
-      expect(result?.scheduledTime.getHours()).toBe(9);
+      expect(localTime(result?.scheduledTime)?.hours).toBe(9);
     });
 
     it('should parse "5:30pm"', () => {
       const result = parser.parse('Remind me at 5:30pm to workout');
 
       expect(result).not.toBeNull();
-      expect(result?.scheduledTime.getHours()).toBe(17);
-      expect(result?.scheduledTime.getMinutes()).toBe(30);
+      expect(localTime(result?.scheduledTime)?.hours).toBe(17);
+      expect(localTime(result?.scheduledTime)?.minutes).toBe(30);
     });
 
     it('should return null for messages without time', () => {
@@ -52,7 +64,7 @@ describe('ReminderParser', () => {
 
       expect(result).not.toBeNull();
       expect(result?.text).toBe('Call mom');
-      expect(result?.scheduledTime.getHours()).toBe(18);
+      expect(localTime(result?.scheduledTime)?.hours).toBe(18);
     });
   });
 
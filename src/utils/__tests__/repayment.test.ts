@@ -0,0 +1,31 @@
+import { Repayment } from '../repayment';
+
+describe('Repayment', () => {
+  describe('parse', () => {
+    it.each([
+      ['Rahul paid me back 500', { from: 'Rahul', to: 'You', amount: 500 }],
+      ['rahul paid back ₹500', { from: 'Rahul', to: 'You', amount: 500, currency: 'INR' }],
+      ['Rahul gave me 250.50', { from: 'Rahul', to: 'You', amount: 250.5 }],
+      ['I paid Rahul back 500', { from: 'You', to: 'Rahul', amount: 500 }],
+      ['I paid back Rahul rs 500.', { from: 'You', to: 'Rahul', amount: 500, currency: 'INR' }],
+      ['Amit paid me back $20.50', { from: 'Amit', to: 'You', amount: 20.5, currency: 'USD' }],
+      ['Rahul paid me back 1.5k', { from: 'Rahul', to: 'You', amount: 1500 }],
+      ['Priya returned 300 to Amit', { from: 'Priya', to: 'Amit', amount: 300 }],
+      ['got 500 back from Rahul', { from: 'Rahul', to: 'You', amount: 500 }],
+      ['received ₹1200 from priya', { from: 'Priya', to: 'You', amount: 1200, currency: 'INR' }],
+    ])('should read "%s"', (message, expected) => {
+      expect(Repayment.parse(message)).toEqual(expected);
+    });
+
+    it.each([
+      'I paid 1500 for dinner',
+      'Rahul paid 1500',
+      'I paid 500, Rahul owes 200',
+      'I gave Rahul 500',
+      'Rahul paid me 500 for the cab',
+      'I paid myself back 500',
+    ])('should not read "%s" as a repayment', (message) => {
+      expect(Repayment.parse(message)).toBeNull();
+    });
+  });
+});
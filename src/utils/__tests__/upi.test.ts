@@ -0,0 +1,62 @@
+import { Upi } from '../upi';
+
+describe('Upi', () => {
+  describe('find', () => {
+    it('should find a UPI ID in a message', () => {
+      expect(Upi.find('my UPI ID is yash.k@okhdfc')).toBe('yash.k@okhdfc');
+      expect(Upi.find('upi id: 9876543210@ybl')).toBe('9876543210@ybl');
+    });
+
+    it('should lowercase the UPI ID', () => {
+      expect(Upi.find('my upi is Yash@OkAxis')).toBe('yash@okaxis');
+    });
+
+    it('should not read an email address as a UPI ID', () => {
+      expect(Upi.find('my upi id is yash@gmail.com')).toBeNull();
+    });
+
+    it('should return null when there is no UPI ID', () => {
+      expect(Upi.find('what is my upi id')).toBeNull();
+      expect(Upi.find('my upi id is yash')).toBeNull();
+    });
+  });
+
+  describe('isValid', () => {
+    it('should accept UPI IDs and nothing around them', () => {
+      expect(Upi.isValid('priya@paytm')).toBe(true);
+      expect(Upi.isValid('priya@paytm please')).toBe(false);
+      expect(Upi.isValid('priya@paytm.com')).toBe(false);
+      expect(Upi.isValid('@paytm')).toBe(false);
+    });
+  });
+
+  describe('paymentLink', () => {
+    it('should fill in the payee, amount, currency and note', () => {
+      const link = Upi.paymentLink({
+        payee: { upiId: 'yash@okhdfc', name: 'Yash Shah' },
+        amount: 600,
+        note: 'Goa trip settle-up',
+      });
+
+      expect(link).toBe('upi://pay?pa=yash%40okhdfc&pn=Yash%20Shah&am=600.00&cu=INR&tn=Goa%20trip%20settle-up');
+    });
+
+    it('should round the amount to paise', () => {
+      const link = Upi.paymentLink({ payee: { upiId: 'yash@okhdfc' }, amount: 333.336 });
+
+      expect(link).toContain('am=333.34');
+    });
+
+    it('should leave out the name and note when there are none', () => {
+      const link = Upi.paymentLink({ payee: { upiId: 'yash@okhdfc', name: null }, amount: 50 });
+
+      expect(link).toBe('upi://pay?pa=yash%40okhdfc&am=50.00&cu=INR');
+    });
+
+    it('should encode characters that would break the link', () => {
+      const link = Upi.paymentLink({ payee: { upiId: 'yash@okhdfc' }, amount: 50, note: 'Chai & snacks #2' });
+
+      expect(link).toContain('tn=Chai%20%26%20snacks%20%232');
+    });
+  });
+});
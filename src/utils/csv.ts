@@ -0,0 +1,35 @@
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * CSV helpers
+ *
+ * Writes rows as RFC 4180 CSV that opens cleanly in Excel and Google Sheets.
+ */
+export class Csv {
+  /**
+   * Write a header row and one line per row, taking each column from the row by key
+   */
+  static stringify<T extends Record<string, CsvValue>>(columns: Array<keyof T & string>, rows: T[]): string {
+    const lines = [columns, ...rows.map((row) => columns.map((column) => row[column]))];
+    return lines.map((line) => line.map((value) => Csv.cell(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * One cell: quoted when it holds a comma, quote or line break
+   * Text starting with =, +, - or @ gets a leading apostrophe so spreadsheets don't run it as a formula.
+   */
+  static cell(value: CsvValue): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value !== 'string') {
+      return String(value);
+    }
+
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
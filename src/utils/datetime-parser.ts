@@ -0,0 +1,933 @@
+import { DateTimeAmbiguity, ParsedDateTime } from '../types';
+import { TimeService, TimeComponents } from '../services/time.service';
+import { RecurrenceService, RecurrenceRule } from '../services/recurrence.service';
+import { Hinglish } from './hinglish';
+
+/**
+ * Calendar day picked out of a message, in the user's timezone
+ */
+interface DateMatch {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  raw: string;
+  // If the resulting time has already passed, move on by this much ("friday 9am" on a Friday at noon)
+  rollover?: 'day' | 'week' | 'month' | 'year';
+  // Time used when the message gives none ("tonight" = 9pm); otherwise 9am
+  defaultTime?: { hours: number; minutes: number };
+  // Other day the expression is commonly taken to mean ("next friday" = this coming friday)
+  alternative?: { year: number; month: number; day: number };
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_PATTERN =
+  '(sunday|monday|tuesday|wednesday|thursday|friday|saturday|sun|mon|tues?|wed|thu(?:rs?)?|fri|sat|' +
+  'somv?w?ar|mangalv?w?ar|budhv?w?ar|guruv?w?ar|brihaspativar|veerv?w?ar|shukrav?w?ar|shaniv?w?ar|raviv?w?ar|itv?w?aa?r)';
+
+// Hinglish weekday names, by the English abbreviation they stand for
+const HINDI_WEEKDAYS: Array<[RegExp, string]> = [
+  [/^som/, 'mon'],
+  [/^mangal/, 'tue'],
+  [/^budh/, 'wed'],
+  [/^(guru|brihaspati|veer)/, 'thu'],
+  [/^shukra/, 'fri'],
+  [/^shani/, 'sat'],
+  [/^(ravi|it)/, 'sun'],
+];
+
+// Hinglish counts: "do ghante baad" (2 hours), "dedh ghante" (1.5), "aadhe ghante" (half an hour)
+const HINDI_NUMBERS: Record<string, number> = {
+  ek: 1,
+  do: 2,
+  teen: 3,
+  char: 4,
+  paanch: 5,
+  aadha: 0.5,
+  aadhe: 0.5,
+  dedh: 1.5,
+  dhai: 2.5,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN =
+  '(january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sept?|oct|nov|dec)';
+
+const NAMED_TIMES: Record<string, { hours: number; minutes: number }> = {
+  morning: { hours: 9, minutes: 0 },
+  afternoon: { hours: 14, minutes: 0 },
+  evening: { hours: 18, minutes: 0 },
+  night: { hours: 21, minutes: 0 },
+  noon: { hours: 12, minutes: 0 },
+  midday: { hours: 12, minutes: 0 },
+  midnight: { hours: 0, minutes: 0 },
+  // Hinglish
+  subah: { hours: 9, minutes: 0 },
+  savere: { hours: 9, minutes: 0 },
+  dopahar: { hours: 14, minutes: 0 },
+  dopehar: { hours: 14, minutes: 0 },
+  shaam: { hours: 18, minutes: 0 },
+  sham: { hours: 18, minutes: 0 },
+  raat: { hours: 21, minutes: 0 },
+};
+
+/**
+ * Words that say which part of the day an hour is in ("subah 8 baje" = 8am, "8 in the evening" = 8pm)
+ */
+const DAY_PERIOD_PATTERN = '(morning|subah|savere|afternoon|dopahar|dopehar|evening|shaam|sham|night|tonight|raat)';
+const DAY_PERIODS: Record<string, 'morning' | 'afternoon' | 'evening' | 'night'> = {
+  morning: 'morning',
+  subah: 'morning',
+  savere: 'morning',
+  afternoon: 'afternoon',
+  dopahar: 'afternoon',
+  dopehar: 'afternoon',
+  evening: 'evening',
+  shaam: 'evening',
+  sham: 'evening',
+  night: 'night',
+  tonight: 'night',
+  raat: 'night',
+};
+
+/**
+ * Clock time picked out of a message
+ * kind says how it was written: "7pm" (meridiem), "19:00" / "7:30" (clock),
+ * "at 7" / "7" (bare) or "morning" (named)
+ */
+interface TimeMatch {
+  hours: number;
+  minutes: number;
+  raw: string;
+  kind: 'meridiem' | 'clock' | 'bare' | 'named';
+  // Bare numbers only: written without "at" / "by", so may not be a time at all
+  unanchored?: boolean;
+}
+
+/**
+ * How sure we are of each way a time can be written, before ambiguities are taken off
+ */
+const BASE_CONFIDENCE: Record<TimeMatch['kind'] | 'relative' | 'default', number> = {
+  relative: 0.95,
+  meridiem: 0.95,
+  clock: 0.9,
+  named: 0.8,
+  bare: 0.8,
+  default: 0.8,
+};
+
+const AMBIGUITY_PENALTY: Record<DateTimeAmbiguity['type'], number> = {
+  meridiem: 0.25,
+  bare_number: 0.2,
+  default_time: 0.3,
+  time_passed: 0.1,
+  next_weekday: 0.1,
+};
+
+/**
+ * Date/time parsing engine
+ *
+ * The one place natural-language times are understood; DateTimeAgent and
+ * ReminderParser both delegate here. Hinglish ("kal subah 8 baje", "2 ghante baad")
+ * is understood alongside English, and Devanagari is read via Hinglish.romanize. Besides the resolved time it reports:
+ * - ambiguities: readings we had to guess between ("7" = 7am or 7pm?), so callers can confirm
+ * - confidence: based on how the time was written and what we had to guess
+ *
+ * All times are resolved in the timezone of the given TimeService.
+ */
+export class DateTimeParser {
+  readonly timeService: TimeService;
+  private recurrenceService: RecurrenceService;
+
+  constructor(timezone: string = TimeService.DEFAULT_TIMEZONE) {
+    this.timeService = new TimeService(timezone);
+    this.recurrenceService = new RecurrenceService(this.timeService);
+  }
+
+  /**
+   * Parse a date/time expression, e.g. "tomorrow 7pm", "next friday", "in 45 minutes", "every monday at 9"
+   *
+   * @returns null if the message has no date or time in it
+   */
+  parse(message: string): ParsedDateTime | null {
+    const lowerMessage = Hinglish.romanize(message).toLowerCase().trim();
+
+    // Repeating schedules are parsed first so their numbers aren't read as times
+    const recurrenceMatch = this.extractRecurrence(lowerMessage);
+    if (recurrenceMatch) {
+      return this.buildRecurringDateTime(lowerMessage, recurrenceMatch);
+    }
+
+    // "in 45 minutes", "in 2 hours 30 mins"
+    const relativeMatch = this.extractRelativeDuration(lowerMessage);
+    if (relativeMatch) {
+      const scheduledTime = new Date(Date.now() + relativeMatch.minutes * 60 * 1000);
+      const components = this.timeService.getComponents(scheduledTime);
+
+      return {
+        scheduledTime,
+        timeExpression: relativeMatch.raw,
+        confidence: BASE_CONFIDENCE.relative,
+        ambiguities: [],
+        metadata: {
+          hours: components.hours,
+          minutes: components.minutes,
+          daysFromNow: this.daysFromToday(scheduledTime),
+        },
+      };
+    }
+
+    // Extract date, then look for the time in what's left so "15 march" isn't read as 15:00
+    const dateMatch = this.extractDate(lowerMessage);
+    const remaining = dateMatch ? lowerMessage.replace(dateMatch.raw, ' ') : lowerMessage;
+
+    const timeMatch = this.extractTime(remaining, lowerMessage);
+    if (!timeMatch && !dateMatch) {
+      return null;
+    }
+
+    const ambiguities: DateTimeAmbiguity[] = [];
+    let hours: number;
+    let minutes: number;
+    let scheduled: { date: Date; rolledOver: boolean };
+
+    if (!timeMatch) {
+      // A date on its own ("pay rent on 15th") gets the date's usual time, or 9am
+      ({ hours, minutes } = dateMatch!.defaultTime || { hours: 9, minutes: 0 });
+      scheduled = this.buildDateTime(dateMatch, hours, minutes);
+      ambiguities.push({ type: 'default_time', raw: dateMatch!.raw });
+    } else {
+      // "at 7" could be either; take whichever comes first and offer the other
+      const readings = this.readingsOf(timeMatch)
+        .map((reading) => ({ ...reading, scheduled: this.buildDateTime(dateMatch, reading.hours, reading.minutes) }))
+        .sort((a, b) => a.scheduled.date.getTime() - b.scheduled.date.getTime());
+
+      ({ hours, minutes, scheduled } = readings[0]);
+
+      if (readings.length > 1) {
+        ambiguities.push({
+          type: 'meridiem',
+          raw: timeMatch.raw,
+          alternatives: readings.slice(1).map((reading) => reading.scheduled.date),
+        });
+      }
+      if (timeMatch.unanchored) {
+        ambiguities.push({ type: 'bare_number', raw: timeMatch.raw });
+      }
+    }
+
+    if (scheduled.rolledOver) {
+      ambiguities.push({ type: 'time_passed', raw: [dateMatch?.raw, timeMatch?.raw].filter(Boolean).join(' ') });
+    }
+
+    if (dateMatch?.alternative) {
+      const { year, month, day } = dateMatch.alternative;
+      ambiguities.push({
+        type: 'next_weekday',
+        raw: dateMatch.raw,
+        alternatives: [this.timeService.createDateTimeOn(year, month, day, hours, minutes)],
+      });
+    }
+
+    return {
+      scheduledTime: scheduled.date,
+      timeExpression: timeMatch?.raw ?? '',
+      dateExpression: dateMatch?.raw,
+      confidence: this.confidenceOf(timeMatch ? timeMatch.kind : 'default', ambiguities),
+      ambiguities,
+      metadata: {
+        hours,
+        minutes,
+        daysFromNow: this.daysFromToday(scheduled.date),
+      },
+    };
+  }
+
+  /**
+   * Whether a message contains a clock time
+   */
+  hasTimeExpression(message: string): boolean {
+    return this.extractTime(Hinglish.romanize(message).toLowerCase()) !== null;
+  }
+
+  /**
+   * Extract a duration in minutes ("10 min", "an hour", "half an hour", "1.5 hrs")
+   */
+  parseDuration(message: string): { minutes: number; raw: string } | null {
+    const lowerMessage = Hinglish.romanize(message).toLowerCase();
+
+    const hinglishMatch = this.extractHinglishDuration(lowerMessage);
+    if (hinglishMatch) {
+      return hinglishMatch;
+    }
+
+    const halfHourMatch = lowerMessage.match(/half\s+an?\s+hour/);
+    if (halfHourMatch) {
+      return { minutes: 30, raw: halfHourMatch[0] };
+    }
+
+    const match = lowerMessage.match(
+      /(?:\b(\d+(?:\.\d+)?)\s*|\b(?:an?|one)\s+)(m|mins?|minutes?|h|hrs?|hours?)\b/
+    );
+    if (!match) {
+      return null;
+    }
+
+    const value = match[1] ? parseFloat(match[1]) : 1;
+    const unitMinutes = match[2].startsWith('h') ? 60 : 1;
+    const minutes = Math.round(value * unitMinutes);
+
+    return minutes > 0 ? { minutes, raw: match[0] } : null;
+  }
+
+  /**
+   * Build the first occurrence of a repeating schedule
+   * Recurring reminders without a time default to 9am; bare hours are taken as written ("every day at 7" = 7am)
+   */
+  private buildRecurringDateTime(
+    message: string,
+    recurrenceMatch: { rule: RecurrenceRule; raw: string }
+  ): ParsedDateTime | null {
+    const remaining = message.replace(recurrenceMatch.raw, ' ');
+    const timeMatch = this.extractTime(remaining, message);
+    const { hours, minutes } = timeMatch || { hours: 9, minutes: 0 };
+
+    // Repeating reminders take the hour as written ("every day at 7" = 7am) and offer the other reading
+    const [rule, ...alternativeRules] = (timeMatch ? this.readingsOf(timeMatch) : [{ hours, minutes }]).map(
+      (reading): RecurrenceRule => ({ ...recurrenceMatch.rule, byHour: reading.hours, byMinute: reading.minutes })
+    );
+
+    // Pin monthly rules to a day so short months don't shift the schedule
+    if (recurrenceMatch.rule.freq === 'MONTHLY' && recurrenceMatch.rule.byMonthDay === undefined) {
+      const today = this.timeService.getCurrentComponents().day;
+      for (const each of [rule, ...alternativeRules]) {
+        each.byMonthDay = today;
+      }
+    }
+
+    const scheduledTime = this.recurrenceService.getNextOccurrence(rule, new Date());
+    if (!scheduledTime) {
+      return null;
+    }
+
+    const ambiguities: DateTimeAmbiguity[] = [];
+    if (!timeMatch) {
+      ambiguities.push({ type: 'default_time', raw: recurrenceMatch.raw });
+    } else {
+      if (alternativeRules.length > 0) {
+        ambiguities.push({
+          type: 'meridiem',
+          raw: timeMatch.raw,
+          alternatives: alternativeRules.map((alternative) => this.recurrenceService.getNextOccurrence(alternative, new Date())!),
+          recurrences: alternativeRules.map((alternative) => this.recurrenceService.format(alternative)),
+        });
+      }
+      if (timeMatch.unanchored) {
+        ambiguities.push({ type: 'bare_number', raw: timeMatch.raw });
+      }
+    }
+
+    return {
+      scheduledTime,
+      timeExpression: timeMatch?.raw ?? '',
+      dateExpression: recurrenceMatch.raw,
+      confidence: this.confidenceOf(timeMatch ? timeMatch.kind : 'default', ambiguities),
+      ambiguities,
+      recurrence: this.recurrenceService.format(rule),
+      metadata: {
+        hours,
+        minutes,
+        daysFromNow: this.daysFromToday(scheduledTime),
+      },
+    };
+  }
+
+  /**
+   * Extract a repeating schedule from message
+   * Supports: every day/daily, every N days, every monday (and lists of days),
+   * weekdays/weekends, every week/weekly, every N weeks, monthly,
+   * "1st of every month", and raw RRULE strings
+   */
+  private extractRecurrence(message: string): { rule: RecurrenceRule; raw: string } | null {
+    const dayPattern = '(?:sun|mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?)(?:day)?s?';
+
+    // Raw RRULE: "RRULE:FREQ=WEEKLY;BYDAY=MO,WE"
+    const rruleMatch = message.match(/(?:rrule:)?freq=[a-z0-9=;,]+/i);
+    if (rruleMatch) {
+      const rule = this.recurrenceService.parse(rruleMatch[0]);
+      return rule ? { rule, raw: rruleMatch[0] } : null;
+    }
+
+    // Monthly on a specific day: "1st of every month", "every month on the 15th"
+    const monthDayMatch =
+      message.match(/(?:on\s+)?(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?\s+of\s+(?:every|each)\s+month/) ||
+      message.match(/(?:every|each)\s+month\s+on\s+(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?/) ||
+      message.match(/monthly\s+on\s+(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)?/);
+    if (monthDayMatch) {
+      const day = parseInt(monthDayMatch[1], 10);
+      if (day >= 1 && day <= 31) {
+        return { rule: { freq: 'MONTHLY', interval: 1, byMonthDay: day }, raw: monthDayMatch[0] };
+      }
+    }
+
+    // Every N months / every other month / monthly
+    const monthsMatch = message.match(/(?:every|each)\s+(\d+|other)\s+months?|(?:every|each)\s+month|monthly/);
+    if (monthsMatch) {
+      const interval = this.parseInterval(monthsMatch[1]);
+      return { rule: { freq: 'MONTHLY', interval }, raw: monthsMatch[0] };
+    }
+
+    // Weekdays / weekends
+    const weekdaysMatch = message.match(/(?:every|each|on)\s+weekdays?|weekdays/);
+    if (weekdaysMatch) {
+      return { rule: { freq: 'WEEKLY', interval: 1, byDay: [1, 2, 3, 4, 5] }, raw: weekdaysMatch[0] };
+    }
+
+    const weekendsMatch = message.match(/(?:every|each|on)\s+weekends?|weekends/);
+    if (weekendsMatch) {
+      return { rule: { freq: 'WEEKLY', interval: 1, byDay: [0, 6] }, raw: weekendsMatch[0] };
+    }
+
+    // Specific days: "every monday", "every tue and thu", "every other friday"
+    const daysMatch = message.match(
+      new RegExp(`(?:every|each)\\s+(other\\s+|\\d+\\s+weeks?\\s+on\\s+)?(${dayPattern}(?:\\s*(?:,|and|&)\\s*${dayPattern})*)\\b`)
+    );
+    if (daysMatch) {
+      const byDay = this.parseDayList(daysMatch[2]);
+      if (byDay.length > 0) {
+        const modifier = daysMatch[1] || '';
+        const interval = /other/.test(modifier) ? 2 : parseInt(modifier, 10) || 1;
+        return { rule: { freq: 'WEEKLY', interval, byDay }, raw: daysMatch[0] };
+      }
+    }
+
+    // Plural days: "mondays", "on fridays"
+    const pluralDayMatch = message.match(/(?:on\s+)?\b(sun|mon|tues|wednes|thurs|fri|satur)days\b/);
+    if (pluralDayMatch) {
+      const byDay = this.parseDayList(pluralDayMatch[1]);
+      return { rule: { freq: 'WEEKLY', interval: 1, byDay }, raw: pluralDayMatch[0] };
+    }
+
+    // Every N weeks / every other week / weekly
+    const weeksMatch = message.match(/(?:every|each)\s+(\d+|other)\s+weeks?|(?:every|each)\s+week|weekly/);
+    if (weeksMatch) {
+      const interval = this.parseInterval(weeksMatch[1]);
+      return { rule: { freq: 'WEEKLY', interval }, raw: weeksMatch[0] };
+    }
+
+    // Every N days / every other day / daily / every morning
+    const daysIntervalMatch = message.match(/(?:every|each)\s+(\d+|other)\s+days?/);
+    if (daysIntervalMatch) {
+      const interval = this.parseInterval(daysIntervalMatch[1]);
+      return { rule: { freq: 'DAILY', interval }, raw: daysIntervalMatch[0] };
+    }
+
+    const dailyMatch = message.match(/(?:every|each)\s*day|daily|(?:every|each)\s+(?=morning|afternoon|evening|night)/);
+    if (dailyMatch) {
+      return { rule: { freq: 'DAILY', interval: 1 }, raw: dailyMatch[0] };
+    }
+
+    return null;
+  }
+
+  /**
+   * Parse the N in "every N weeks" ("other" = 2, missing = 1)
+   */
+  private parseInterval(value: string | undefined): number {
+    if (!value) {
+      return 1;
+    }
+    return value === 'other' ? 2 : Math.max(1, parseInt(value, 10) || 1);
+  }
+
+  /**
+   * Turn "mon, wed and fri" into sorted weekday numbers (0 = Sunday)
+   */
+  private parseDayList(text: string): number[] {
+    const prefixes = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+    const days = text
+      .split(/\s*(?:,|and|&)\s*/)
+      .map((token) => prefixes.indexOf(token.trim().slice(0, 3)))
+      .filter((day) => day >= 0);
+
+    return Array.from(new Set(days)).sort((a, b) => a - b);
+  }
+
+  /**
+   * Extract time from message
+   *
+   * @param context - Whole message, checked for a part of the day ("subah", "evening") that
+   *   settles an hour written without am/pm; defaults to the message itself
+   */
+  private extractTime(message: string, context: string = message): TimeMatch | null {
+    const timeMatch = this.extractClockTime(message);
+    return timeMatch ? this.withDayPeriod(timeMatch, context) : null;
+  }
+
+  private extractClockTime(message: string): TimeMatch | null {
+    // Pattern priorities:
+    // 1. 12 with a named time: "12 noon", "12:00 midnight"
+    // 2. 12-hour with AM/PM: 7pm, 7:30pm, 1pm, 12:30am
+    // 3. Hinglish: "8 baje", "saadhe 8" (8:30), "sawa 8" (8:15), "paune 8" (7:45)
+    // 4. 24-hour format: 13:00, 14:30, 19:00, 20:15
+    // 5. Bare hours: "at 7", "20"
+    // 6. Named times: morning, afternoon, evening, night, noon, midnight, subah, shaam, raat
+    const numberedNamedMatch = message.match(/\b12(?:[:.]00)?\s*(noon|midday|midnight)\b/i);
+    if (numberedNamedMatch) {
+      return { ...NAMED_TIMES[numberedNamedMatch[1].toLowerCase()], raw: numberedNamedMatch[0], kind: 'named' };
+    }
+
+    const meridiemMatch =
+      message.match(/(\d{1,2})[:.](\d{2})\s*(am|pm)/i) || // 7:30pm, 1:15am, 6.30pm
+      message.match(/(\d{1,2})()\s*(am|pm)/i); // 7pm, 1am, 12pm
+    if (meridiemMatch) {
+      const result = this.toClockTime(meridiemMatch[0], meridiemMatch[1], meridiemMatch[2], meridiemMatch[3]);
+      if (result) {
+        return { ...result, kind: 'meridiem' };
+      }
+    }
+
+    const fractionMatch = message.match(/\b(saa?dhe|sawa|sava|paune|pone)\s+(\d{1,2})(?:\s*(?:baje|bje))?\b/);
+    if (fractionMatch) {
+      const hour = parseInt(fractionMatch[2], 10);
+      const [hourText, minuteText] = /^(paune|pone)$/.test(fractionMatch[1])
+        ? [String(hour - 1 || 12), '45']
+        : [String(hour), /^sa+dhe$/.test(fractionMatch[1]) ? '30' : '15'];
+      const result = this.toClockTime(fractionMatch[0], hourText, minuteText);
+      if (result) {
+        return { ...result, kind: 'clock' };
+      }
+    }
+
+    const bajeMatch = message.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*(?:baje|bje)\b/);
+    if (bajeMatch) {
+      const result = this.toClockTime(bajeMatch[0], bajeMatch[1], bajeMatch[2]);
+      if (result) {
+        return { ...result, kind: bajeMatch[2] ? 'clock' : 'bare' };
+      }
+    }
+
+    const clockMatch = message.match(/\b([0-2]?[0-9]):([0-5][0-9])\b/); // 13:00, 14:30, 9:30
+    if (clockMatch) {
+      const result = this.toClockTime(clockMatch[0], clockMatch[1], clockMatch[2]);
+      if (result) {
+        return { ...result, kind: 'clock' };
+      }
+    }
+
+    const bareMatch = message.match(/(?:\b(at|by|around|@)\s*)?\b([01]?[0-9]|2[0-3])\b/); // at 7, 20
+    if (bareMatch) {
+      const result = this.toClockTime(bareMatch[0], bareMatch[2]);
+      if (result) {
+        return { ...result, kind: 'bare', unanchored: !bareMatch[1] };
+      }
+    }
+
+    const namedMatch = message.match(
+      /(morning|afternoon|evening|night|noon|midday|midnight)|\b(subah|savere|dopahar|dopehar|shaam|sham|raat)\b/i
+    );
+    if (namedMatch) {
+      return { ...NAMED_TIMES[(namedMatch[1] || namedMatch[2]).toLowerCase()], raw: namedMatch[0], kind: 'named' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Settle an hour written without am/pm from the part of the day mentioned with it
+   * ("shaam 6 baje" = 18:00, "raat 10" = 22:00, "raat 1 baje" = 01:00, "dopahar 12" = noon)
+   */
+  private withDayPeriod(timeMatch: TimeMatch, context: string): TimeMatch {
+    const periodMatch = context.match(new RegExp(`\\b${DAY_PERIOD_PATTERN}\\b`));
+    if (!periodMatch || this.readingsOf(timeMatch).length < 2) {
+      return timeMatch;
+    }
+
+    const period = DAY_PERIODS[periodMatch[1]];
+    let hours = timeMatch.hours % 12;
+    if (period === 'afternoon' && timeMatch.hours === 12) {
+      hours = 12;
+    } else if (period === 'afternoon' || period === 'evening' || (period === 'night' && hours >= 5)) {
+      hours += 12;
+    }
+
+    // Keep the period in the matched text when it's written next to the time ("subah 8 baje", "8 in the evening")
+    const escaped = timeMatch.raw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const combinedMatch = context.match(
+      new RegExp(`\\b${DAY_PERIOD_PATTERN}\\s+(?:ko\\s+)?${escaped}|${escaped}\\s+(?:in\\s+the\\s+)?${DAY_PERIOD_PATTERN}\\b`)
+    );
+
+    return {
+      hours,
+      minutes: timeMatch.minutes,
+      raw: combinedMatch ? combinedMatch[0] : timeMatch.raw,
+      kind: 'meridiem',
+    };
+  }
+
+  /**
+   * Hours and minutes from the parts of a matched time
+   * Returns null for impossible times ("25:00", "7:75")
+   */
+  private toClockTime(
+    raw: string,
+    hourText: string,
+    minuteText?: string,
+    meridiem?: string
+  ): { hours: number; minutes: number; raw: string } | null {
+    let hours = parseInt(hourText, 10);
+    const minutes = minuteText ? parseInt(minuteText, 10) : 0;
+
+    if (minutes < 0 || minutes > 59) {
+      return null;
+    }
+
+    // Handle 12-hour format with AM/PM
+    if (meridiem) {
+      if (hours < 1 || hours > 12) {
+        return null;
+      }
+      if (meridiem.toLowerCase() === 'pm' && hours < 12) {
+        hours += 12;
+      } else if (meridiem.toLowerCase() === 'am' && hours === 12) {
+        hours = 0;
+      }
+    }
+
+    if (hours < 0 || hours > 23) {
+      return null;
+    }
+
+    return { hours, minutes, raw };
+  }
+
+  /**
+   * Every time of day a match could mean
+   * Hours 1-12 written without am/pm have two readings ("7" = 7:00 or 19:00, "12" = noon or midnight)
+   */
+  private readingsOf(timeMatch: TimeMatch): Array<{ hours: number; minutes: number }> {
+    const { hours, minutes, kind } = timeMatch;
+    if ((kind !== 'bare' && kind !== 'clock') || hours < 1 || hours > 12) {
+      return [{ hours, minutes }];
+    }
+
+    return hours === 12
+      ? [{ hours: 12, minutes }, { hours: 0, minutes }]
+      : [{ hours, minutes }, { hours: hours + 12, minutes }];
+  }
+
+  /**
+   * Extract a relative time from message: "in 45 minutes", "in an hour", "in half an hour",
+   * "in 2 hours 30 mins", "after 10 min", "20 minutes from now"
+   * Days and weeks ("in 3 days") are dates, see extractDate.
+   */
+  private extractRelativeDuration(message: string): { minutes: number; raw: string } | null {
+    const hinglishMatch = this.extractHinglishDuration(message);
+    if (hinglishMatch) {
+      return hinglishMatch;
+    }
+
+    const amount = '(?:\\d+(?:\\.\\d+)?|an?|one)\\s*(?:h|hrs?|hours?|m|mins?|minutes?)\\b';
+    const match =
+      message.match(new RegExp(`\\b(?:in|after)\\s+(half\\s+an?\\s+hour|${amount}(?:\\s*(?:and\\s+)?${amount})?)`)) ||
+      message.match(new RegExp(`\\b(half\\s+an?\\s+hour|${amount}(?:\\s*(?:and\\s+)?${amount})?)\\s+from\\s+now`));
+    if (!match) {
+      return null;
+    }
+
+    if (/^half/.test(match[1])) {
+      return { minutes: 30, raw: match[0] };
+    }
+
+    let minutes = 0;
+    for (const part of match[1].matchAll(/(\d+(?:\.\d+)?|an?|one)\s*(h|hrs?|hours?|m|mins?|minutes?)\b/g)) {
+      const value = /^\d/.test(part[1]) ? parseFloat(part[1]) : 1;
+      minutes += value * (part[2].startsWith('h') ? 60 : 1);
+    }
+
+    minutes = Math.round(minutes);
+    return minutes > 0 ? { minutes, raw: match[0] } : null;
+  }
+
+  /**
+   * Extract a Hinglish duration: "2 ghante baad", "aadhe ghante mein", "dedh ghanta baad", "10 minute baad"
+   */
+  private extractHinglishDuration(message: string): { minutes: number; raw: string } | null {
+    const match = message.match(
+      /\b(\d+(?:\.\d+)?|ek|do|teen|char|paanch|aadh[ae]|dedh|dhai)\s*(ghant[ae]|ghanton|minute|minutes|mins?|mint)\s+(?:baad|bad|mein|me|main)\b/
+    );
+    if (!match) {
+      return null;
+    }
+
+    const value = HINDI_NUMBERS[match[1]] ?? parseFloat(match[1]);
+    const minutes = Math.round(value * (match[2].startsWith('gh') ? 60 : 1));
+    return minutes > 0 ? { minutes, raw: match[0] } : null;
+  }
+
+  /**
+   * Extract date from message
+   * Supports: today/tonight, tomorrow, day after tomorrow, in N days/weeks, next week,
+   * weekdays ("friday", "this friday", "next friday"), this/next weekend,
+   * month names ("15th march", "march 15 2026"), numeric dates ("15/3") and
+   * days of the month ("on the 3rd", "pay rent on 15th"), plus Hinglish aaj / kal / parso,
+   * "agle hafte", "3 din baad" and weekday names ("somvar", "shukravar")
+   *
+   * "next friday" means the friday of next week (weeks start on Monday);
+   * "friday" / "this friday" is the coming one.
+   */
+  private extractDate(message: string): DateMatch | null {
+    const today = this.timeService.getCurrentComponents();
+    const weekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+    const onDay = (daysFromNow: number, raw: string, extra: Partial<DateMatch> = {}): DateMatch => ({
+      ...this.addDays(today, daysFromNow),
+      raw,
+      ...extra,
+    });
+
+    // Day after tomorrow (before "tomorrow", which it contains)
+    const dayAfterMatch = message.match(/\b(?:the\s+)?day\s+after\s+(?:tomorrow|tmrw|tmr)\b|\bovermorrow\b/);
+    if (dayAfterMatch) {
+      return onDay(2, dayAfterMatch[0]);
+    }
+
+    const tomorrowMatch = message.match(/\b(?:tomorrow|tomorow|tmrw|tmr)\b/);
+    if (tomorrowMatch) {
+      return onDay(1, tomorrowMatch[0]);
+    }
+
+    // Hinglish "parso" (day after tomorrow) and "kal" - which also means yesterday, never meant in a reminder
+    const parsoMatch = message.match(/\b(?:parso|parson|parsoon)\b/);
+    if (parsoMatch) {
+      return onDay(2, parsoMatch[0]);
+    }
+
+    const kalMatch = message.match(/\bkall?\b/);
+    if (kalMatch) {
+      return onDay(1, kalMatch[0]);
+    }
+
+    // Today - a time that has already passed moves to tomorrow
+    const tonightMatch = message.match(/\btonight\b/);
+    if (tonightMatch) {
+      return onDay(0, tonightMatch[0], { rollover: 'day', defaultTime: { hours: 21, minutes: 0 } });
+    }
+
+    const todayMatch = message.match(/\b(?:today|aaj)\b/);
+    if (todayMatch) {
+      return onDay(0, todayMatch[0], { rollover: 'day' });
+    }
+
+    // In N days / weeks, next week
+    const inDaysMatch = message.match(/\bin\s+(\d+|an?|one|two|three|four|five|six|seven)\s+(days?|weeks?)\b/);
+    if (inDaysMatch) {
+      const count = this.parseCount(inDaysMatch[1]);
+      return onDay(inDaysMatch[2].startsWith('week') ? count * 7 : count, inDaysMatch[0]);
+    }
+
+    const hinglishDaysMatch = message.match(/\b(\d+|ek|do|teen|char|paanch)\s+(din|hafte|hafton)\s+(?:baad|bad|mein|me)\b/);
+    if (hinglishDaysMatch) {
+      const count = this.parseCount(hinglishDaysMatch[1]);
+      return onDay(hinglishDaysMatch[2] === 'din' ? count : count * 7, hinglishDaysMatch[0]);
+    }
+
+    const nextWeekMatch = message.match(/\b(?:next\s+week|agle\s+hafte)\b/);
+    if (nextWeekMatch) {
+      return onDay(7, nextWeekMatch[0]);
+    }
+
+    // "15th march", "15 mar 2026", "march 15th", "mar 15, 2026"
+    const dayMonthMatch =
+      message.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}\\b(?:,?\\s+(\\d{4}))?`));
+    const monthDayMatch =
+      message.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`));
+    if (dayMonthMatch || monthDayMatch) {
+      const [raw, day, monthName, year] = dayMonthMatch
+        ? [dayMonthMatch[0], dayMonthMatch[1], dayMonthMatch[2], dayMonthMatch[3]]
+        : [monthDayMatch![0], monthDayMatch![2], monthDayMatch![1], monthDayMatch![3]];
+      return this.calendarDate(today, year ? parseInt(year, 10) : undefined, MONTHS.indexOf(monthName.slice(0, 3)) + 1, parseInt(day, 10), raw);
+    }
+
+    // Numeric day/month: "15/3", "15/03/2026", "15-03"
+    const numericMatch = message.match(/\b(\d{1,2})[/-](\d{1,2})(?:[/-](\d{2}|\d{4}))?\b/);
+    if (numericMatch) {
+      const year = numericMatch[3] ? parseInt(numericMatch[3].padStart(4, '20'), 10) : undefined;
+      return this.calendarDate(today, year, parseInt(numericMatch[2], 10), parseInt(numericMatch[1], 10), numericMatch[0]);
+    }
+
+    // Day of the month: "on the 3rd", "on 15th", "the 21st"
+    const ordinalMatch = message.match(/\b(?:on\s+)?(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)\b|\bon\s+the\s+(\d{1,2})\b/);
+    if (ordinalMatch) {
+      const day = parseInt(ordinalMatch[1] || ordinalMatch[2], 10);
+      if (day < 1 || day > 31) {
+        return null;
+      }
+
+      // This month if the day is still ahead, otherwise the next month that has it
+      let { year, month } = today;
+      if (day < today.day) {
+        month += 1;
+      }
+      ({ year, month } = this.nextMonthWithDay(year, month, day));
+      return { year, month, day, raw: ordinalMatch[0], rollover: 'month' };
+    }
+
+    // Weekends: Saturday, or today if it's already the weekend
+    const daysToNextMonday = (8 - weekday) % 7 || 7;
+    const weekendMatch = message.match(/\b(this\s+|next\s+|coming\s+)?weekend\b/);
+    if (weekendMatch) {
+      if (/next/.test(weekendMatch[1] || '')) {
+        return onDay(daysToNextMonday + 5, weekendMatch[0]);
+      }
+      const daysToWeekend = weekday === 0 ? 0 : 6 - weekday;
+      return onDay(daysToWeekend, weekendMatch[0], { rollover: weekday === 6 ? 'day' : undefined });
+    }
+
+    // Weekdays
+    // "agle somvar" is the coming monday
+    const weekdayMatch = message.match(new RegExp(`\\b(?:(this|coming|next|agle|is)\\s+)?${WEEKDAY_PATTERN}\\b`));
+    if (weekdayMatch) {
+      const name = weekdayMatch[2];
+      const target = WEEKDAYS.indexOf(HINDI_WEEKDAYS.find(([pattern]) => pattern.test(name))?.[1] || name.slice(0, 3));
+      if (weekdayMatch[1] === 'next') {
+        // Monday-based index of the target within next week; many people mean the coming one
+        const daysToComing = (target - weekday + 7) % 7 || 7;
+        const daysToNext = daysToNextMonday + ((target + 6) % 7);
+        return onDay(daysToNext, weekdayMatch[0], {
+          alternative: daysToComing !== daysToNext ? this.addDays(today, daysToComing) : undefined,
+        });
+      }
+      return onDay((target - weekday + 7) % 7, weekdayMatch[0], { rollover: 'week' });
+    }
+
+    // No explicit date - caller decides (today, or tomorrow if the time has passed)
+    return null;
+  }
+
+  /**
+   * Date for a day and month, this year unless given (next year once it has passed)
+   * Returns null for days the month doesn't have ("31st april")
+   */
+  private calendarDate(
+    today: TimeComponents,
+    year: number | undefined,
+    month: number,
+    day: number,
+    raw: string
+  ): DateMatch | null {
+    const targetYear = year ?? today.year;
+    if (month < 1 || month > 12 || day < 1 || day > this.daysInMonth(targetYear, month)) {
+      return null;
+    }
+
+    if (year !== undefined) {
+      return { year, month, day, raw };
+    }
+
+    const isPast = month < today.month || (month === today.month && day < today.day);
+    return { year: isPast ? today.year + 1 : today.year, month, day, raw, rollover: 'year' };
+  }
+
+  /**
+   * Build a Date from an extracted date and time of day
+   * Times that have already passed move on as far as the date expression allows
+   * ("9am" -> tomorrow, "friday 9am" -> next week); rolledOver says whether that happened.
+   */
+  private buildDateTime(
+    dateMatch: DateMatch | null,
+    hours: number,
+    minutes: number
+  ): { date: Date; rolledOver: boolean } {
+    if (!dateMatch) {
+      // No date: today, or tomorrow if the time has already passed
+      const rolledOver = this.timeService.isTimeInPastToday(hours, minutes);
+      return { date: this.timeService.createDateTime(hours, minutes, rolledOver ? 1 : 0), rolledOver };
+    }
+
+    let { year, month, day } = dateMatch;
+    const scheduledTime = this.timeService.createDateTimeOn(year, month, day, hours, minutes);
+
+    if (scheduledTime > new Date() || !dateMatch.rollover) {
+      return { date: scheduledTime, rolledOver: false };
+    }
+
+    // Already passed - move to the next day / week / month / year the expression allows
+    switch (dateMatch.rollover) {
+      case 'day':
+        ({ year, month, day } = this.addDays({ year, month, day }, 1));
+        break;
+      case 'week':
+        ({ year, month, day } = this.addDays({ year, month, day }, 7));
+        break;
+      case 'month':
+        ({ year, month } = this.nextMonthWithDay(year, month + 1, day));
+        break;
+      case 'year':
+        year += 1;
+        break;
+    }
+
+    return { date: this.timeService.createDateTimeOn(year, month, day, hours, minutes), rolledOver: true };
+  }
+
+  /**
+   * Confidence from how the time was written, less a penalty for each thing we had to guess
+   */
+  private confidenceOf(kind: keyof typeof BASE_CONFIDENCE, ambiguities: DateTimeAmbiguity[]): number {
+    const penalty = ambiguities.reduce((sum, ambiguity) => sum + AMBIGUITY_PENALTY[ambiguity.type], 0);
+    return Math.round(Math.max(0.1, BASE_CONFIDENCE[kind] - penalty) * 100) / 100;
+  }
+
+  /**
+   * Calendar date N days after the given one
+   */
+  private addDays(date: { year: number; month: number; day: number }, days: number) {
+    const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+  }
+
+  /**
+   * First month from (year, month) on that has the given day - "the 31st" skips 30-day months
+   * Month overflow (13) rolls into the next year.
+   */
+  private nextMonthWithDay(year: number, month: number, day: number): { year: number; month: number } {
+    for (let offset = 0; offset < 12; offset++) {
+      const candidate = new Date(Date.UTC(year, month - 1 + offset, 1));
+      const candidateYear = candidate.getUTCFullYear();
+      const candidateMonth = candidate.getUTCMonth() + 1;
+      if (day <= this.daysInMonth(candidateYear, candidateMonth)) {
+        return { year: candidateYear, month: candidateMonth };
+      }
+    }
+    return { year, month };
+  }
+
+  private daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+  }
+
+  /**
+   * Calendar days between today and a date, in the user's timezone
+   */
+  private daysFromToday(date: Date): number {
+    const today = this.timeService.getCurrentComponents();
+    const target = this.timeService.getComponents(date);
+    return Math.round(
+      (Date.UTC(target.year, target.month - 1, target.day) - Date.UTC(today.year, today.month - 1, today.day)) /
+        (24 * 60 * 60 * 1000)
+    );
+  }
+
+  /**
+   * Parse a small count: "3", "a", "two", "do"
+   */
+  private parseCount(value: string): number {
+    const words = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven'];
+    if (/^\d+$/.test(value)) {
+      return parseInt(value, 10);
+    }
+    if (Number.isInteger(HINDI_NUMBERS[value])) {
+      return HINDI_NUMBERS[value];
+    }
+    return value === 'a' || value === 'an' ? 1 : Math.max(1, words.indexOf(value));
+  }
+}
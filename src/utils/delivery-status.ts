@@ -0,0 +1,63 @@
+import { WhatsAppDeliveryStatus, WhatsAppStatusUpdate } from '../types';
+
+/**
+ * Order in which a message moves through WhatsApp delivery statuses
+ */
+const DELIVERY_STATUS_ORDER: WhatsAppDeliveryStatus[] = ['sent', 'delivered', 'read'];
+
+/**
+ * Delivery status helpers for WhatsApp status webhooks
+ *
+ * Status webhooks can arrive out of order (a late "delivered" after "read"),
+ * so updates only ever move a message forward.
+ */
+export class DeliveryStatus {
+  /**
+   * Whether a message currently in `current` should move to `next`
+   *
+   * @param current - Stored status; null if nothing has been recorded yet.
+   *   Statuses outside the delivery lifecycle (pending, cancelled, completed) are never overwritten.
+   * @param next - Status reported by the webhook
+   */
+  static shouldAdvance(current: string | null | undefined, next: WhatsAppDeliveryStatus): boolean {
+    if (!current) {
+      return true;
+    }
+
+    const currentIndex = DELIVERY_STATUS_ORDER.indexOf(current as WhatsAppDeliveryStatus);
+    if (currentIndex < 0) {
+      return false; // failed, or not a delivery status at all
+    }
+
+    if (next === 'failed') {
+      return true;
+    }
+
+    return DELIVERY_STATUS_ORDER.indexOf(next) > currentIndex;
+  }
+
+  /**
+   * Build a failure reason from the webhook's error list
+   * e.g. "131047 Re-engagement message: Message failed to send because more than 24 hours have passed"
+   */
+  static describeFailure(errors: WhatsAppStatusUpdate['errors']): string {
+    if (!errors || errors.length === 0) {
+      return 'Unknown delivery failure';
+    }
+
+    return errors
+      .map((error) => {
+        const details = error.error_data?.details || error.message;
+        return details ? `${error.code} ${error.title}: ${details}` : `${error.code} ${error.title}`;
+      })
+      .join('; ');
+  }
+
+  /**
+   * Convert a webhook timestamp (Unix seconds) to a Date, falling back to now
+   */
+  static parseTimestamp(timestamp: string): Date {
+    const seconds = parseInt(timestamp, 10);
+    return isNaN(seconds) ? new Date() : new Date(seconds * 1000);
+  }
+}
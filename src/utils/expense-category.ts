@@ -0,0 +1,108 @@
+export type ExpenseCategoryName =
+  | 'food'
+  | 'groceries'
+  | 'rent'
+  | 'utilities'
+  | 'health'
+  | 'entertainment'
+  | 'shopping'
+  | 'travel'
+  | 'other';
+
+/**
+ * Categories in the order their keywords are tried, so "dinner on the goa trip" is food, not travel
+ */
+const CATEGORIES: Record<ExpenseCategoryName, { label: string; keywords: string[] }> = {
+  food: {
+    label: '🍔 Food',
+    keywords: [
+      'food', 'dinner', 'lunch', 'breakfast', 'brunch', 'meal', 'restaurant', 'cafe', 'coffee', 'chai', 'tea',
+      'snack', 'pizza', 'burger', 'biryani', 'dessert', 'takeaway', 'swiggy', 'zomato', 'drinks', 'beer', 'pub', 'bar',
+    ],
+  },
+  groceries: {
+    label: '🛒 Groceries',
+    keywords: [
+      'grocery', 'groceries', 'vegetables', 'veggies', 'fruit', 'milk', 'supermarket', 'kirana', 'dmart',
+      'blinkit', 'zepto', 'instamart', 'bigbasket',
+    ],
+  },
+  rent: {
+    label: '🏠 Rent',
+    keywords: ['rent', 'deposit', 'lease', 'brokerage'],
+  },
+  utilities: {
+    label: '💡 Utilities',
+    keywords: [
+      'electricity', 'power bill', 'wifi', 'internet', 'broadband', 'water bill', 'gas', 'cylinder', 'recharge',
+      'phone bill', 'dth', 'maintenance', 'maid', 'cook',
+    ],
+  },
+  health: {
+    label: '💊 Health',
+    keywords: ['medicine', 'pharmacy', 'chemist', 'doctor', 'clinic', 'hospital', 'gym'],
+  },
+  entertainment: {
+    label: '🎬 Entertainment',
+    keywords: ['movie', 'cinema', 'netflix', 'spotify', 'concert', 'party', 'bowling', 'game', 'club'],
+  },
+  shopping: {
+    label: '🛍️ Shopping',
+    keywords: ['shopping', 'clothes', 'shoes', 'gift', 'amazon', 'flipkart', 'myntra'],
+  },
+  travel: {
+    label: '🚕 Travel',
+    keywords: [
+      'travel', 'trip', 'cab', 'taxi', 'uber', 'ola', 'rapido', 'auto', 'flight', 'train', 'bus', 'metro', 'petrol',
+      'fuel', 'diesel', 'toll', 'parking', 'hotel', 'hostel', 'airbnb', 'villa',
+    ],
+  },
+  other: {
+    label: '📦 Other',
+    keywords: [],
+  },
+};
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A keyword as a whole word, plurals too ("cabs", "movies")
+const KEYWORD_PATTERNS = Object.fromEntries(
+  Object.entries(CATEGORIES).map(([name, { keywords }]) => [
+    name,
+    keywords.map((keyword) => new RegExp(`\\b${escape(keyword).replace(/ /g, '\\s+')}(?:e?s)?\\b`, 'i')),
+  ])
+) as Record<ExpenseCategoryName, RegExp[]>;
+
+/**
+ * Expense category helpers
+ *
+ * Sorts expenses into a few categories from what they were for ("Dinner at Toit" is food).
+ * Keyword rules only; anything they can't place is left for the LLM to decide.
+ */
+export class ExpenseCategory {
+  static readonly NAMES = Object.keys(CATEGORIES) as ExpenseCategoryName[];
+  static readonly OTHER: ExpenseCategoryName = 'other';
+
+  /**
+   * Category from the keywords in a description
+   *
+   * @returns null if no keyword matches
+   */
+  static fromDescription(description: string | null | undefined): ExpenseCategoryName | null {
+    const text = description || '';
+    return (
+      ExpenseCategory.NAMES.find((name) => KEYWORD_PATTERNS[name].some((pattern) => pattern.test(text))) || null
+    );
+  }
+
+  static isCategory(value: unknown): value is ExpenseCategoryName {
+    return typeof value === 'string' && ExpenseCategory.NAMES.includes(value as ExpenseCategoryName);
+  }
+
+  /**
+   * "🍔 Food"; unknown categories show as other
+   */
+  static label(category: string): string {
+    return CATEGORIES[ExpenseCategory.isCategory(category) ? category : 'other'].label;
+  }
+}
@@ -0,0 +1,105 @@
+import { Money, ParsedAmount } from './money';
+
+// Which expense: "expense 2", "the last expense", "expense for dinner", "the dinner expense"
+const TARGET = `(?:the\\s+)?(?:(?:(last|latest)\\s+(?:expense|bill))|(?:(?:expense|bill)\\s+(?:#|no\\.?\\s*|number\\s+)?(\\d+))|(?:(?:expense|bill)\\s+(?:for\\s+)?(.+?))|(?:(.+?)\\s+(?:expense|bill)))`;
+
+const FIELD = `(amount|total|description|name)`;
+
+// "delete expense 2", "remove the dinner expense", "delete last expense"
+const DELETE = new RegExp(`^(?:delete|remove)\\s+${TARGET}$`, 'i');
+
+// "rename expense 2 to team lunch"
+const RENAME = new RegExp(`^rename\\s+${TARGET}\\s+(?:to|as)\\s+(.+)$`, 'i');
+
+// "change expense 2 to 1800", "fix the dinner expense amount to $40", "change the description of expense 1 to cab"
+const CHANGE = new RegExp(
+  `^(?:change|edit|update|fix|correct)\\s+(?:the\\s+${FIELD}\\s+(?:of|for|on)\\s+)?${TARGET}(?:'s)?\\s+(?:${FIELD}\\s+)?(?:to|=|as)\\s+(.+)$`,
+  'i'
+);
+
+/**
+ * An expense referred to by its number in the list, as the most recent one, or by what it was for
+ */
+export type ExpenseReference = { index: number } | { last: true } | { search: string };
+
+export type ParsedExpenseChange =
+  | { action: 'delete'; expense: ExpenseReference }
+  | { action: 'edit'; expense: ExpenseReference; amount?: ParsedAmount; description?: string };
+
+/**
+ * Expense change helpers
+ *
+ * Reads requests to fix or remove a recorded expense ("change expense 2 to 1800",
+ * "delete the dinner expense"). Numbers are the ones shown by "show my expenses".
+ */
+export class ExpenseChange {
+  /**
+   * Read an edit or delete request from a message
+   * "to ..." is a new amount when it reads as one, otherwise a new description - unless the message says which.
+   *
+   * @returns null if the message isn't about changing an expense
+   */
+  static parse(message: string): ParsedExpenseChange | null {
+    const text = message.trim().replace(/[.!?]+$/, '');
+
+    const remove = text.match(DELETE);
+    if (remove) {
+      const expense = ExpenseChange.reference(remove.slice(1, 5));
+      return expense && { action: 'delete', expense };
+    }
+
+    const rename = text.match(RENAME);
+    if (rename) {
+      const expense = ExpenseChange.reference(rename.slice(1, 5));
+      const description = ExpenseChange.description(rename[5]);
+      return expense && description ? { action: 'edit', expense, description } : null;
+    }
+
+    const change = text.match(CHANGE);
+    if (!change) {
+      return null;
+    }
+
+    const expense = ExpenseChange.reference(change.slice(2, 6));
+    const field = (change[1] || change[6] || '').toLowerCase();
+    const value = change[7];
+    if (!expense) {
+      return null;
+    }
+
+    if (field === 'description' || field === 'name') {
+      const description = ExpenseChange.description(value);
+      return description ? { action: 'edit', expense, description } : null;
+    }
+
+    const amount = Money.read(value);
+    if (amount) {
+      return { action: 'edit', expense, amount };
+    }
+    if (field) {
+      return null; // "change the amount of expense 2 to lots"
+    }
+
+    const description = ExpenseChange.description(value);
+    return description ? { action: 'edit', expense, description } : null;
+  }
+
+  private static reference([last, index, after, before]: string[]): ExpenseReference | null {
+    if (last) {
+      return { last: true };
+    }
+    if (index) {
+      const number = parseInt(index, 10);
+      return number > 0 ? { index: number } : null;
+    }
+
+    // "delete the bill reminder" is about a reminder
+    const search = (after || before || '').trim();
+    return search && !/^(an?|this|that|my)$/i.test(search) && !/\breminders?\b/i.test(search) ? { search } : null;
+  }
+
+  private static description(text: string): string | null {
+    const description = text.trim().replace(/^["']|["']$/g, '').trim();
+    return description || null;
+  }
+}
@@ -0,0 +1,305 @@
+import { ParticipantShare, SplitEntry, SplitError } from '../types';
+import { Money } from './money';
+
+/**
+ * Participant name used for the person recording the expense
+ */
+const YOU = 'You';
+
+const SELF_NAMES = /^(i|me|my share|mine|myself|you)$/i;
+
+// Words that end a "with ..." list of names ("with Rahul, rest split equally")
+const NOT_NAMES = new Set(['rest', 'remaining', 'remainder', 'equally', 'evenly', 'everyone', 'others', 'split', 'the']);
+
+const NAME = `(my share|[a-z][a-z.-]*(?:\\s+[a-z][a-z.-]*)?)`;
+const AMOUNT = Money.AMOUNT_PATTERN;
+
+// Clauses are split on commas, but not the ones inside an amount ("1,250.75")
+const CLAUSE_SEPARATOR = /[;\n]+|,(?!\d{2,3}\b)/;
+
+// "Rahul owes 600", "Rahul's share is 600", "my share is 400"
+// (a verb is needed: "dinner - 1200" is what the bill was for, not a person)
+const EXACT_CLAUSE = new RegExp(
+  `^${NAME}(?:'s)?\\s*(?:owes?|pays?|will pay|has to pay|to pay|share is|share|is)\\s*:?\\s*${AMOUNT}$`,
+  'i'
+);
+
+// "Priya 40%", "Amit 2 shares", "me: 1 share"
+const PART_CLAUSE = new RegExp(
+  `^${NAME}\\s*(?:[:=-]\\s*|\\s+(?:owes?|pays?|gets|has)\\s+)?(\\d+(?:\\.\\d+)?)\\s*(%|percent|shares?)$`,
+  'i'
+);
+
+// One participant per line, as sent when the bot asks for names: "Rahul", "Rahul 600", "Priya 40%"
+const PARTICIPANT_LINE = new RegExp(`^(.+?)\\s*[:=-]?\\s*${AMOUNT}\\s*(%|percent|shares?)?$`, 'i');
+
+// "rest split equally", "remaining equally between the others", "split equally"
+const REST_CLAUSE = /^(?:and\s+)?(?:the\s+)?(?:rest|remaining|remainder)\b|^(?:split\s+)?(?:equally|evenly)$/i;
+
+// "Rahul paid 1500 for dinner", "split 900, Priya paid" (who paid starts a clause)
+const PAYER = /(?:^|[,;\n])\s*([a-z][a-z.-]*)\s+(?:paid|spent)\b/i;
+
+// Words before "paid" that aren't the person who paid ("bill paid", "already paid")
+const NOT_PAYERS = new Set(['bill', 'already', 'just', 'have', 'has', 'had', 'was', 'who', 'split', 'expense', 'total']);
+
+// "60/40 with Priya", "2:1:1 between Rahul and Amit"
+const RATIO = /\b(\d+(?:\.\d+)?(?:\s*[/:]\s*\d+(?:\.\d+)?)+)(?!\s*(?:%|shares?))/;
+
+// A name given its own part, which starts a clause instead of carrying on a "with ..." list ("Priya owes 300", "Amit 2 shares")
+const OWN_PART =
+  `[a-z][a-z.-]*(?:'s)?\\s*` +
+  `(?:(?:owes?|pays?|will pay|has to pay|to pay|share|is|gets|has)\\b|[:=-]?\\s*\\d+(?:\\.\\d+)?\\s*(?:%|percent|shares?))`;
+
+// "with Rahul, Priya and Amit", "between me and Rahul" (but not "with Rahul, Priya owes 300")
+const WITH_NAMES = new RegExp(
+  `\\b(?:with|between|among(?:st)?)\\s+([a-z][a-z.-]*(?:\\s*(?:,|&|\\band\\b)\\s*(?!${OWN_PART})[a-z][a-z.-]*)*)`,
+  'i'
+);
+
+// What joined the "with ..." list to a name it stopped before
+const LIST_SEPARATOR = /^\s*(?:,|&|\band\b)\s*/i;
+
+export interface ParsedSplit {
+  entries: SplitEntry[];
+  payer: string; // Who paid the bill; the sender unless someone else is named ("Rahul paid 1500")
+  unparsed: string[]; // Parts of the message that weren't about the split (what it was for, the amount)
+  error?: SplitError;
+}
+
+export type SplitAllocation =
+  | { success: true; shares: ParticipantShare[] }
+  | { success: false; error: SplitError; allocated: number };
+
+/**
+ * Expense split helpers
+ *
+ * Reads who owes what from a message ("Rahul owes 600, rest split equally", "split 60/40 with Priya")
+ * and turns the split into amounts that add up to the bill exactly.
+ */
+export class ExpenseSplit {
+  static readonly YOU = YOU;
+
+  /**
+   * Read a split from a message
+   * The sender is included as "You" whenever anyone else is named, taking an equal part unless
+   * they gave their own share. Whoever paid is in the split too.
+   */
+  static parse(message: string): ParsedSplit {
+    let text = message;
+    const entries: SplitEntry[] = [];
+
+    // Names after "with" / "between", dropped from the text so they aren't read as a clause;
+    // a name the list stopped before keeps its own clause ("with Rahul, Priya owes 300")
+    const withMatch = text.match(WITH_NAMES);
+    const withNames = withMatch ? ExpenseSplit.namesFrom(withMatch[1]) : [];
+    if (withMatch && withNames.length > 0) {
+      const end = withMatch.index! + withMatch[0].length;
+      text = `${text.slice(0, withMatch.index)} ${text.slice(end).replace(LIST_SEPARATOR, ', ')}`;
+    }
+
+    const ratioMatch = text.match(RATIO);
+    if (ratioMatch && withNames.length > 0) {
+      text = text.replace(ratioMatch[0], ' ');
+
+      const names = withNames.includes(YOU) ? withNames : [YOU, ...withNames];
+      const values = ratioMatch[1].split(/[/:]/).map((value) => parseFloat(value));
+      if (values.length !== names.length) {
+        return { entries: [], payer: ExpenseSplit.parsePayer(message), unparsed: [message], error: 'ratio_mismatch' };
+      }
+
+      const type = values.reduce((sum, value) => sum + value, 0) === 100 ? 'percentage' : 'shares';
+      entries.push(...names.map((name, i) => ({ name, type, value: values[i] }) as SplitEntry));
+    }
+
+    const unparsed: string[] = [];
+    for (const clause of text.split(CLAUSE_SEPARATOR).map((part) => part.trim()).filter(Boolean)) {
+      const entry = ExpenseSplit.parseClause(clause);
+      if (entry) {
+        ExpenseSplit.addEntry(entries, entry);
+      } else if (!REST_CLAUSE.test(clause)) {
+        unparsed.push(clause);
+      }
+    }
+
+    for (const name of withNames) {
+      ExpenseSplit.addEntry(entries, { name, type: 'equal' });
+    }
+
+    const payer = ExpenseSplit.parsePayer(message);
+    if (payer !== YOU) {
+      ExpenseSplit.addEntry(entries, { name: payer, type: 'equal' });
+    }
+
+    if (entries.some((entry) => entry.name !== YOU) && !entries.some((entry) => entry.name === YOU)) {
+      entries.unshift({ name: YOU, type: 'equal' });
+    }
+
+    return { entries, payer, unparsed };
+  }
+
+  /**
+   * Who paid the bill: "Rahul paid 1500 for dinner" -> "Rahul"; the sender if nobody else is named
+   */
+  static parsePayer(message: string): string {
+    const match = message.match(PAYER);
+    if (!match || NOT_PAYERS.has(match[1].toLowerCase())) {
+      return YOU;
+    }
+    return ExpenseSplit.displayName(match[1]);
+  }
+
+  /**
+   * Read participants sent one per line ("Rahul", "Priya 40%", "Amit 600", "me 2 shares")
+   * Every line is a participant; a line without a number is an equal part.
+   */
+  static parseLines(message: string): SplitEntry[] {
+    return message
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line) => {
+        const match = line.match(PARTICIPANT_LINE);
+        if (!match) {
+          return { name: ExpenseSplit.displayName(line), type: 'equal' };
+        }
+        return {
+          name: ExpenseSplit.displayName(match[1]),
+          type: ExpenseSplit.typeOf(match[3]),
+          value: ExpenseSplit.valueOf(match[2]),
+        };
+      });
+  }
+
+  /**
+   * Work out what each participant owes
+   *
+   * Fixed amounts come off first, then percentages of the total; equal parts and shares split what's left.
+   * Everything is worked out in paise: parts are rounded down and the leftover paise go one each to
+   * the parts that lost the most to rounding (earlier participants first on a tie), so the same
+   * split always gives the same amounts and they always add up to the total.
+   */
+  static allocate(total: number, entries: SplitEntry[]): SplitAllocation {
+    const totalPaise = Math.round(total * 100);
+    const exactPaise = entries.map((entry) => (entry.type === 'exact' ? Math.round((entry.value ?? 0) * 100) : 0));
+    const percentPaise = entries.map((entry) =>
+      entry.type === 'percentage' ? (totalPaise * (entry.value ?? 0)) / 100 : 0
+    );
+    const weights = entries.map((entry) =>
+      entry.type === 'equal' ? 1 : entry.type === 'shares' ? entry.value ?? 0 : 0
+    );
+
+    const fixed = ExpenseSplit.sum(exactPaise) + ExpenseSplit.sum(percentPaise);
+    const allocated = Math.round(fixed) / 100;
+    const totalWeight = ExpenseSplit.sum(weights);
+    const rest = totalPaise - fixed;
+
+    if (entries.length < 2) {
+      return { success: false, error: 'too_few_people', allocated };
+    }
+    if (entries.every((entry) => entry.type === 'percentage') && Math.abs(ExpenseSplit.sum(percentPaise) - totalPaise) > 0.5) {
+      return { success: false, error: 'percent_total', allocated };
+    }
+    if (rest < -0.5) {
+      return { success: false, error: 'over_total', allocated };
+    }
+    if (totalWeight === 0 && rest > 0.5) {
+      return { success: false, error: 'under_total', allocated };
+    }
+
+    const ideal = entries.map((_entry, i) =>
+      exactPaise[i] + percentPaise[i] + (totalWeight > 0 ? (rest * weights[i]) / totalWeight : 0)
+    );
+
+    // Round down (ignoring float noise), then hand out what's left by largest remainder
+    const paise = ideal.map((value) => Math.floor(value + 1e-6));
+    const leftover = totalPaise - ExpenseSplit.sum(paise);
+    const order = ideal
+      .map((value, i) => ({ i, remainder: value - paise[i] }))
+      .sort((a, b) => b.remainder - a.remainder || a.i - b.i);
+    for (let n = 0; n < leftover; n++) {
+      paise[order[n % order.length].i] += 1;
+    }
+
+    return {
+      success: true,
+      shares: entries.map((entry, i) => ({ ...entry, amount: paise[i] / 100 })),
+    };
+  }
+
+  /**
+   * Whether every participant pays the same part
+   */
+  static isEqual(entries: Array<Pick<SplitEntry, 'type'>>): boolean {
+    return entries.every((entry) => entry.type === 'equal');
+  }
+
+  private static parseClause(clause: string): SplitEntry | null {
+    const exactMatch = clause.match(EXACT_CLAUSE);
+    if (exactMatch) {
+      return { name: ExpenseSplit.displayName(exactMatch[1]), type: 'exact', value: ExpenseSplit.valueOf(exactMatch[2]) };
+    }
+
+    const partMatch = clause.match(PART_CLAUSE);
+    if (partMatch) {
+      return {
+        name: ExpenseSplit.displayName(partMatch[1]),
+        type: ExpenseSplit.typeOf(partMatch[3]),
+        value: parseFloat(partMatch[2]),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Names from a list like "Rahul, Priya and Amit"
+   */
+  static namesFrom(list: string): string[] {
+    const names: string[] = [];
+    for (const word of list.split(/\s*(?:,|&|\band\b)\s*/i)) {
+      if (!word || NOT_NAMES.has(word.toLowerCase())) {
+        break;
+      }
+      names.push(ExpenseSplit.displayName(word));
+    }
+    return names;
+  }
+
+  /**
+   * Add an entry unless that person is already in the split (the first mention wins)
+   */
+  private static addEntry(entries: SplitEntry[], entry: SplitEntry): void {
+    if (!entries.some((existing) => existing.name.toLowerCase() === entry.name.toLowerCase())) {
+      entries.push(entry);
+    }
+  }
+
+  /**
+   * How a participant is written in the ledger: "You" for the sender, otherwise capitalised ("rahul" -> "Rahul")
+   */
+  static displayName(name: string): string {
+    const trimmed = name.trim();
+    if (SELF_NAMES.test(trimmed)) {
+      return YOU;
+    }
+    return trimmed.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+  }
+
+  private static typeOf(unit: string | undefined): SplitEntry['type'] {
+    if (!unit) {
+      return 'exact';
+    }
+    return /^(%|percent)$/i.test(unit) ? 'percentage' : 'shares';
+  }
+
+  /**
+   * Number a participant's part was given as ("600", "1.5k", "₹250.50")
+   */
+  private static valueOf(text: string): number {
+    return Money.read(text)?.amount ?? parseFloat(text);
+  }
+
+  private static sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+}
@@ -0,0 +1,101 @@
+import { PreferredLanguage } from '../types';
+
+/**
+ * Devanagari spellings of the time words DateTimeParser understands, and their Hinglish form
+ */
+const DEVANAGARI_WORDS: Record<string, string> = {
+  'आज': 'aaj',
+  'कल': 'kal',
+  'परसों': 'parso',
+  'सुबह': 'subah',
+  'सवेरे': 'savere',
+  'दोपहर': 'dopahar',
+  'शाम': 'shaam',
+  'रात': 'raat',
+  'बजे': 'baje',
+  'साढ़े': 'saadhe',
+  'सवा': 'sawa',
+  'पौने': 'paune',
+  'घंटे': 'ghante',
+  'घंटा': 'ghanta',
+  'मिनट': 'minute',
+  'दिन': 'din',
+  'हफ्ते': 'hafte',
+  'हफ़्ते': 'hafte',
+  'बाद': 'baad',
+  'में': 'mein',
+  'अगले': 'agle',
+  'एक': 'ek',
+  'दो': 'do',
+  'तीन': 'teen',
+  'चार': 'char',
+  'पांच': 'paanch',
+  'पाँच': 'paanch',
+  'आधे': 'aadhe',
+  'डेढ़': 'dedh',
+  'ढाई': 'dhai',
+  'सोमवार': 'somvar',
+  'मंगलवार': 'mangalvar',
+  'बुधवार': 'budhvar',
+  'गुरुवार': 'guruvar',
+  'शुक्रवार': 'shukravar',
+  'शनिवार': 'shanivar',
+  'रविवार': 'ravivar',
+};
+
+const DEVANAGARI_WORD_PATTERN = new RegExp(
+  `(?<![\\u0900-\\u097F])(${Object.keys(DEVANAGARI_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .join('|')})(?![\\u0900-\\u097F])`,
+  'g'
+);
+
+/**
+ * Words that only show up when someone is writing Hindi in Latin script
+ */
+const HINGLISH_MARKERS = new Set([
+  'aaj', 'kal', 'parso', 'subah', 'savere', 'dopahar', 'shaam', 'sham', 'raat', 'baje', 'bje', 'ghante', 'ghanta',
+  'baad', 'din', 'hafte', 'agle', 'yaad', 'dilana', 'dila', 'dena', 'karna', 'karo', 'hai', 'hain', 'mujhe', 'ko',
+  'ka', 'ki', 'ke', 'se', 'mein', 'aur', 'bhi', 'nahi', 'kya', 'haan', 'acha', 'accha', 'theek', 'bhai',
+]);
+
+/**
+ * Hindi / Hinglish helpers
+ *
+ * Most users are in India and mix Hindi into their messages ("kal subah 8 baje yaad dilana").
+ * DateTimeParser understands the Hinglish time words itself; this turns Devanagari ones into
+ * that form first, and guesses which language a user writes in.
+ */
+export class Hinglish {
+  /**
+   * Replace Devanagari time words and digits with their Hinglish spelling ("कल 8 बजे" -> "kal 8 baje")
+   * Other words are left as they are.
+   */
+  static romanize(text: string): string {
+    return text
+      .replace(/[०-९]/g, (digit) => String(digit.charCodeAt(0) - 0x0966))
+      .replace(DEVANAGARI_WORD_PATTERN, (word) => DEVANAGARI_WORDS[word]);
+  }
+
+  /**
+   * Guess the language a message is written in
+   *
+   * @returns null when the message is too short to tell ("ok", "8pm")
+   */
+  static detectLanguage(text: string): PreferredLanguage | null {
+    if (/[ऀ-ॿ]/.test(text)) {
+      return 'hi';
+    }
+
+    const words = text.toLowerCase().match(/[a-z]+/g) || [];
+    const markers = words.filter((word) => HINGLISH_MARKERS.has(word)).length;
+
+    if (markers >= 2) {
+      return 'hinglish';
+    }
+    if (markers === 0 && words.length >= 3) {
+      return 'en';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,73 @@
+import { InboundContent, WhatsAppMessage } from '../types';
+
+/**
+ * What to call each message type we can't read, as in "I can't open that {TYPE}"
+ */
+const UNSUPPORTED_LABELS: Record<string, string> = {
+  image: 'photo',
+  video: 'video',
+  document: 'document',
+  sticker: 'sticker',
+  location: 'location',
+  contacts: 'contact card',
+  reaction: 'reaction',
+};
+
+/**
+ * Inbound message helpers for WhatsApp message webhooks
+ *
+ * Reduces every Cloud API message type to something the agents can handle:
+ * text to route, audio to transcribe, or a label for the "I can only read text" reply.
+ */
+export class InboundMessage {
+  /**
+   * Work out what to do with an inbound message
+   * Media with a caption is handled as the caption; everything else we can't read is unsupported.
+   */
+  static read(message: WhatsAppMessage): InboundContent {
+    switch (message.type) {
+      case 'text':
+        return InboundMessage.textOrUnsupported(message.text?.body, 'message');
+
+      case 'interactive': {
+        // Tapped reply button or list row; the title stands in for the text
+        const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+        if (!reply) {
+          return { kind: 'unsupported', label: 'message' };
+        }
+        return { kind: 'text', text: reply.title, interactiveReply: { id: reply.id, title: reply.title } };
+      }
+
+      case 'button':
+        // Quick-reply button on a template message
+        return InboundMessage.textOrUnsupported(message.button?.text, 'message');
+
+      case 'audio':
+        // Voice notes and forwarded audio files alike
+        if (!message.audio?.id) {
+          return { kind: 'unsupported', label: 'audio' };
+        }
+        return { kind: 'audio', mediaId: message.audio.id };
+
+      case 'image':
+      case 'video':
+      case 'document':
+      case 'sticker':
+        return InboundMessage.textOrUnsupported(message[message.type]?.caption, UNSUPPORTED_LABELS[message.type]);
+
+      case 'location':
+      case 'contacts':
+      case 'reaction':
+        return { kind: 'unsupported', label: UNSUPPORTED_LABELS[message.type] };
+
+      default:
+        // 'unsupported', or a type added to the API after this was written
+        return { kind: 'unsupported', label: 'message' };
+    }
+  }
+
+  private static textOrUnsupported(text: string | undefined, label: string): InboundContent {
+    const trimmed = text?.trim();
+    return trimmed ? { kind: 'text', text: trimmed } : { kind: 'unsupported', label };
+  }
+}
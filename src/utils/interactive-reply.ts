@@ -0,0 +1,25 @@
+/**
+ * Interactive reply IDs
+ *
+ * Reply buttons and list rows carry an ID that WhatsApp hands back when the user taps them.
+ * We encode the action and its arguments in that ID, e.g. "reminder_snooze:<reminderId>:10",
+ * so a tap can be handled without guessing from the button title.
+ */
+export class InteractiveReply {
+  private static readonly SEPARATOR = ':';
+
+  /**
+   * Build a reply ID, e.g. encode('reminder_done', reminder.id)
+   */
+  static encode(action: string, ...args: Array<string | number>): string {
+    return [action, ...args.map(String)].join(InteractiveReply.SEPARATOR);
+  }
+
+  /**
+   * Split a reply ID back into its action and arguments
+   */
+  static decode(id: string): { action: string; args: string[] } {
+    const [action, ...args] = id.split(InteractiveReply.SEPARATOR);
+    return { action, args };
+  }
+}
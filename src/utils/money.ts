@@ -0,0 +1,147 @@
+/**
+ * Currencies we recognise in messages, by ISO code
+ * Aliases are matched case-insensitively as whole words; the symbol is used when formatting.
+ */
+const CURRENCIES: Record<string, { symbol: string; aliases: string[] }> = {
+  INR: { symbol: '₹', aliases: ['inr', 'rs', 'rs.', 'rupee', 'rupees'] },
+  USD: { symbol: '$', aliases: ['usd', 'dollar', 'dollars'] },
+  EUR: { symbol: '€', aliases: ['eur', 'euro', 'euros'] },
+  GBP: { symbol: '£', aliases: ['gbp', 'pound', 'pounds'] },
+  AED: { symbol: 'AED ', aliases: ['aed', 'dirham', 'dirhams'] },
+};
+
+const DEFAULT_CURRENCY = 'INR';
+
+// Shorthand multipliers: "1.2k", "2 lakh", "1.5L", "1 crore"
+const SCALES: Array<[RegExp, number]> = [
+  [/^k$/i, 1000],
+  [/^(l|lakhs?|lacs?)$/i, 100000],
+  [/^(cr|crores?)$/i, 10000000],
+];
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Symbols that aren't letters; "AED" is only read as a code
+const SYMBOL = `(?:${Object.values(CURRENCIES)
+  .map((currency) => currency.symbol.trim())
+  .filter((symbol) => !/[a-z]/i.test(symbol))
+  .map(escape)
+  .join('|')})`;
+const CODE = `(?:${Object.values(CURRENCIES)
+  .flatMap((currency) => currency.aliases)
+  .sort((a, b) => b.length - a.length)
+  .map(escape)
+  .join('|')})(?![a-z])`;
+
+const DIGITS = `\\d+(?:,\\d{2,3})*(?:\\.\\d+)?`;
+const SCALE = `(?:k|l|lakhs?|lacs?|cr|crores?)(?![a-z])`;
+
+// "1250", "1,250.75", "1,25,000", then an optional "k" / "lakh" / "cr"
+const NUMBER = `${DIGITS}(?:\\s*${SCALE})?`;
+
+/**
+ * An amount, with its currency before or after it when given: "$12.50", "Rs. 1,250", "40 EUR", "1.2k"
+ * Has a single capture group (the whole amount), so it can be dropped into other patterns.
+ */
+const AMOUNT = `((?:${SYMBOL}|\\b${CODE})\\s*${NUMBER}|${NUMBER}(?:\\s*(?:${SYMBOL}|${CODE}))?)`;
+
+// Amount that says it's money: a currency next to it, or k / lakh shorthand
+const EXPLICIT_AMOUNT = new RegExp(
+  `(?:${SYMBOL}|\\b${CODE})\\s*${NUMBER}|\\b${NUMBER}\\s*(?:${SYMBOL}|${CODE})|\\b${DIGITS}\\s*${SCALE}`,
+  'i'
+);
+
+// "split 1500", "paid 12.50", "bill of 2,400" (but not "split 60/40")
+const KEYWORD_AMOUNT = new RegExp(
+  `\\b(?:split|paid|spent|bill|cost|costs)\\s+(?:of\\s+)?(${NUMBER})(?![\\d/:%]|\\.\\d)`,
+  'i'
+);
+
+// Text that is only an amount: currency, digits, shorthand, currency
+const SINGLE_AMOUNT = new RegExp(
+  `^(${SYMBOL}|${CODE})?\\s*(${DIGITS})\\s*(${SCALE})?\\s*(${SYMBOL}|${CODE})?$`,
+  'i'
+);
+
+export interface ParsedAmount {
+  amount: number; // Rounded to 2 decimal places
+  currency?: string; // ISO code, when the message said which currency
+  raw: string; // The text the amount was read from
+}
+
+/**
+ * Money helpers
+ *
+ * Reads amounts the way people type them - decimals, thousands separators, k / lakh shorthand and
+ * a currency symbol or code on either side - and writes them back out with the right symbol.
+ */
+export class Money {
+  static readonly DEFAULT_CURRENCY = DEFAULT_CURRENCY;
+  static readonly AMOUNT_PATTERN = AMOUNT;
+  static readonly CODE_PATTERN = CODE;
+
+  /**
+   * Find the amount in a message ("spent $12.50 on lunch", "split 1.2k dinner")
+   * A bare number only counts after "split" / "paid" / "spent" / "bill" / "cost".
+   *
+   * @returns null if there's no amount in the message
+   */
+  static find(text: string): ParsedAmount | null {
+    const explicit = text.match(EXPLICIT_AMOUNT);
+    if (explicit) {
+      return Money.read(explicit[0]);
+    }
+
+    const keyword = text.match(KEYWORD_AMOUNT);
+    if (keyword) {
+      return Money.read(keyword[1]);
+    }
+
+    return null;
+  }
+
+  /**
+   * Read text that is just an amount ("600", "€40", "2.5k", "1,250.75 rupees")
+   *
+   * @returns null if the text is anything else, or the amount isn't positive
+   */
+  static read(text: string): ParsedAmount | null {
+    const raw = text.trim();
+    const match = raw.match(SINGLE_AMOUNT);
+    if (!match) {
+      return null;
+    }
+
+    const [, before, digits, scale, after] = match;
+    const currency = Money.currencyOf(before) || Money.currencyOf(after);
+    const multiplier = scale ? SCALES.find(([pattern]) => pattern.test(scale))?.[1] ?? 1 : 1;
+
+    const amount = Math.round(parseFloat(digits.replace(/,/g, '')) * multiplier * 100) / 100;
+    if (!(amount > 0)) {
+      return null;
+    }
+
+    return currency ? { amount, currency, raw } : { amount, raw };
+  }
+
+  /**
+   * Write an amount with its currency: "₹1200.00", "$12.50", "AED 40.00"
+   */
+  static format(amount: number, currency: string = DEFAULT_CURRENCY): string {
+    const symbol = CURRENCIES[currency]?.symbol ?? `${currency} `;
+    return `${symbol}${amount.toFixed(2)}`;
+  }
+
+  /**
+   * ISO code for a currency symbol or name ("$" -> "USD", "rupees" -> "INR")
+   */
+  static currencyOf(text: string | undefined): string | undefined {
+    const token = (text || '').trim().toLowerCase();
+    if (!token) {
+      return undefined;
+    }
+    return Object.keys(CURRENCIES).find(
+      (code) => CURRENCIES[code].symbol.trim().toLowerCase() === token || CURRENCIES[code].aliases.includes(token)
+    );
+  }
+}
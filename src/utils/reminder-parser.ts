@@ -1,5 +1,7 @@
 import { ParsedReminder } from '../types';
 import { TimeService } from '../services/time.service';
+import { DateTimeParser } from './datetime-parser';
+import { Hinglish } from './hinglish';
 
 /**
  * Natural language reminder parser
@@ -8,182 +10,60 @@ import { TimeService } from '../services/time.service';
  * - "tomorrow at 10am - call doctor"
  * - "pay bills at 5pm"
  * - "tomorrow morning meeting"
+ * - "kal subah 8 baje doodh lana yaad dilana"
  */
 export class ReminderParser {
-  private timeService: TimeService;
+  private dateTimeParser: DateTimeParser;
 
-  constructor() {
-    this.timeService = new TimeService();
+  /**
+   * @param timezone - User's IANA timezone; times are resolved in this zone
+   */
+  constructor(timezone: string = TimeService.DEFAULT_TIMEZONE) {
+    this.dateTimeParser = new DateTimeParser(timezone);
   }
 
   /**
    * Parse a message and extract reminder details
    */
   parse(message: string): ParsedReminder | null {
-    const lowerMessage = message.toLowerCase().trim();
-
-    // Time patterns
-    const timeMatch = this.extractTime(lowerMessage);
-    if (!timeMatch) {
+    // Time and date are understood by the shared parsing engine; it reads Devanagari time words
+    // in their Hinglish spelling, so strip them from that form too
+    message = Hinglish.romanize(message);
+    const parsed = this.dateTimeParser.parse(message);
+    if (!parsed || !parsed.metadata) {
       return null;
     }
 
-    // Date patterns (today, tomorrow, or assume today)
-    const dateMatch = this.extractDate(lowerMessage);
-
-    // Combine date and time
-    const scheduledTime = this.buildDateTime(dateMatch, timeMatch);
-
     // Extract the actual reminder text (remove time/date expressions)
-    const reminderText = this.extractReminderText(message, timeMatch, dateMatch);
+    const reminderText = this.extractReminderText(message, [parsed.timeExpression, parsed.dateExpression]);
 
     return {
       text: reminderText,
-      scheduledTime,
-      confidence: 0.8,
+      scheduledTime: parsed.scheduledTime,
+      confidence: parsed.confidence,
       extractedData: {
-        rawTimeExpression: timeMatch.raw,
-        parsedDate: dateMatch?.raw,
-        parsedTime: `${timeMatch.hours}:${timeMatch.minutes}`,
+        rawTimeExpression: parsed.timeExpression,
+        parsedDate: parsed.dateExpression,
+        parsedTime: `${parsed.metadata.hours}:${parsed.metadata.minutes}`,
       },
     };
   }
 
-  private extractTime(message: string): {
-    hours: number;
-    minutes: number;
-    raw: string;
-  } | null {
-    // Pattern priorities:
-    // 1. 12-hour with AM/PM: 7pm, 7:30pm, 1pm, 12:30am
-    // 2. 24-hour format: 13:00, 14:30, 19:00, 20:15
-    // 3. Named times: morning, afternoon, evening, night
-    const timePatterns = [
-      /(\d{1,2}):(\d{2})\s*(am|pm)/i,    // 7:30pm, 1:15am
-      /(\d{1,2})\s*(am|pm)/i,            // 7pm, 1am, 12pm
-      /\b([0-2]?[0-9]):([0-5][0-9])\b/,  // 13:00, 14:30, 9:30 (24-hour or general)
-      /\b([01]?[0-9]|2[0-3])\b/,         // 13, 14, 20 (24-hour single digit)
-      /(morning|afternoon|evening|night)/i,
-    ];
-
-    for (const pattern of timePatterns) {
-      const match = message.match(pattern);
-      if (match) {
-        const result = this.parseTimeMatch(match);
-        if (result && result.hours >= 0 && result.hours < 24) {
-          return result;
-        }
-      }
-    }
-
-    return null;
-  }
-
-  private parseTimeMatch(match: RegExpMatchArray): {
-    hours: number;
-    minutes: number;
-    raw: string;
-  } | null {
-    const raw = match[0];
-
-    // Named times
-    if (/morning/i.test(raw)) {
-      return { hours: 9, minutes: 0, raw };
-    }
-    if (/afternoon/i.test(raw)) {
-      return { hours: 14, minutes: 0, raw };
-    }
-    if (/evening/i.test(raw)) {
-      return { hours: 18, minutes: 0, raw };
-    }
-    if (/night/i.test(raw)) {
-      return { hours: 21, minutes: 0, raw };
-    }
-
-    let hours = parseInt(match[1], 10);
-    const minutes = match[2] ? parseInt(match[2], 10) : 0;
-    const meridiem = match[3]?.toLowerCase();
-
-    // Validate minutes
-    if (minutes < 0 || minutes > 59) {
-      return null;
-    }
-
-    // Handle 12-hour format with AM/PM
-    if (meridiem === 'pm' && hours < 12) {
-      hours += 12;
-    } else if (meridiem === 'am' && hours === 12) {
-      hours = 0;
-    }
-
-    // Validate hours (0-23 for 24-hour format)
-    if (hours < 0 || hours > 23) {
-      return null;
-    }
-
-    return { hours, minutes, raw };
-  }
-
-  private extractDate(message: string): {
-    daysFromNow: number;
-    raw: string;
-  } | null {
-    if (/tomorrow/i.test(message)) {
-      return { daysFromNow: 1, raw: 'tomorrow' };
-    }
-
-    if (/today/i.test(message)) {
-      return { daysFromNow: 0, raw: 'today' };
-    }
-
-    // Default to today
-    return { daysFromNow: 0, raw: 'today' };
-  }
-
-  private buildDateTime(
-    dateMatch: { daysFromNow: number } | null,
-    timeMatch: { hours: number; minutes: number }
-  ): Date {
-    // Determine how many days from now
-    let daysFromNow = 0;
-
-    if (dateMatch && dateMatch.daysFromNow > 0) {
-      // Explicit "tomorrow" or other future date
-      daysFromNow = dateMatch.daysFromNow;
-    } else if (!dateMatch || dateMatch.daysFromNow === 0) {
-      // Check if time is in the past for today
-      if (this.timeService.isTimeInPastToday(timeMatch.hours, timeMatch.minutes)) {
-        // If time has passed today, schedule for tomorrow
-        daysFromNow = 1;
-      }
-    }
-
-    // Use TimeService to create the proper date
-    return this.timeService.createKolkataDateTime(
-      timeMatch.hours,
-      timeMatch.minutes,
-      daysFromNow
-    );
-  }
-
-  private extractReminderText(
-    message: string,
-    timeMatch: { raw: string },
-    dateMatch: { raw: string } | null
-  ): string {
+  private extractReminderText(message: string, expressions: Array<string | undefined>): string {
     let text = message;
 
-    // Remove time expression
-    text = text.replace(new RegExp(timeMatch.raw, 'gi'), '');
-
-    // Remove date expression
-    if (dateMatch) {
-      text = text.replace(new RegExp(dateMatch.raw, 'gi'), '');
+    // Remove time and date expressions
+    for (const expression of expressions) {
+      if (expression) {
+        text = text.replace(new RegExp(expression.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi'), '');
+      }
     }
 
     // Remove common connecting words
     text = text
       .replace(/\b(remind me to|remind me|to|at|on|-)\b/gi, ' ')
+      .replace(/\b(yaad\s+dila(na|o|dena|de)?|ko)\b/gi, ' ')
+      .replace(/\s+/g, ' ')
       .trim();
 
     return text || 'Reminder';
@@ -196,10 +76,10 @@ export class ReminderParser {
     const lowerMessage = message.toLowerCase();
 
     // Check for reminder keywords
-    const hasReminderKeyword = /remind|reminder/i.test(lowerMessage);
+    const hasReminderKeyword = /remind|reminder|yaad\s+dila|याद/i.test(lowerMessage);
 
     // Check for time expressions
-    const hasTimeExpression = this.extractTime(lowerMessage) !== null;
+    const hasTimeExpression = this.dateTimeParser.hasTimeExpression(lowerMessage);
 
     return hasReminderKeyword || hasTimeExpression;
   }
@@ -0,0 +1,84 @@
+import { ExpenseSplit } from './expense-split';
+import { Money } from './money';
+
+const WHO = `([a-z][a-z.-]*)`;
+const RECIPIENT = `(?!back\\b|${Money.CODE_PATTERN})${WHO}`;
+const AMOUNT = Money.AMOUNT_PATTERN;
+
+// "Rahul paid me back 500", "I paid Rahul back ₹500", "Priya returned 300 to Amit", "Rahul gave me 500"
+const PAID_BACK = new RegExp(
+  `^${WHO}\\s+(paid|gave|sent|returned|repaid|transferred)\\s+(back\\s+)?(?:${RECIPIENT}\\s+)?(back\\s+)?${AMOUNT}(\\s+back)?(?:\\s+to\\s+${RECIPIENT})?$`,
+  'i'
+);
+
+// "got 500 back from Rahul", "received ₹500 from Rahul"
+const RECEIVED = new RegExp(`^(?:i\\s+)?(?:got|received)\\s+${AMOUNT}(?:\\s+back)?\\s+from\\s+${WHO}$`, 'i');
+
+export interface ParsedRepayment {
+  from: string;
+  to: string;
+  amount: number;
+  currency?: string; // ISO code, when the message said which currency
+}
+
+/**
+ * Repayment helpers
+ *
+ * Reads money paid back outside an expense ("Rahul paid me back 500") so it can go in the ledger.
+ * Names come out the way ExpenseSplit writes them, with the sender as "You".
+ */
+export class Repayment {
+  /**
+   * Read a repayment from a message
+   *
+   * Saying who got the money isn't enough on its own for "I paid Rahul 500" style messages -
+   * they need "back" (or "returned"/"repaid"), so "I paid 500 for dinner" stays an expense.
+   *
+   * @returns null if the message isn't a repayment
+   */
+  static parse(message: string): ParsedRepayment | null {
+    const text = message.trim().replace(/[.!]+$/, '');
+
+    const received = text.match(RECEIVED);
+    if (received) {
+      return Repayment.build(received[2], ExpenseSplit.YOU, received[1]);
+    }
+
+    const match = text.match(PAID_BACK);
+    if (!match) {
+      return null;
+    }
+
+    const [, payer, verb, backFirst, recipient, backBefore, amount, backAfter, toRecipient] = match;
+    const isBack = Boolean(backFirst || backBefore || backAfter) || /^(returned|repaid)$/i.test(verb);
+    const to = recipient || toRecipient;
+
+    if (recipient && toRecipient) {
+      return null; // "paid Rahul 500 to Priya"
+    }
+    if (!to) {
+      // "Rahul paid back 500" - to the sender
+      return isBack ? Repayment.build(payer, ExpenseSplit.YOU, amount) : null;
+    }
+    if (!isBack && ExpenseSplit.displayName(to) !== ExpenseSplit.YOU) {
+      return null;
+    }
+
+    return Repayment.build(payer, to, amount);
+  }
+
+  private static build(from: string, to: string, amountText: string): ParsedRepayment | null {
+    const amount = Money.read(amountText);
+    const repayment = {
+      from: ExpenseSplit.displayName(from),
+      to: ExpenseSplit.displayName(to),
+      amount: amount?.amount ?? 0,
+      ...(amount?.currency && { currency: amount.currency }),
+    };
+
+    if (repayment.from.toLowerCase() === repayment.to.toLowerCase() || repayment.amount <= 0) {
+      return null;
+    }
+    return repayment;
+  }
+}
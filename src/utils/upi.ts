@@ -0,0 +1,57 @@
+// "name@okhdfc", "9876543210@ybl" - an email's domain has a dot, a UPI handle doesn't
+const UPI_ID = /(?<![\w.@-])([a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63})(?![\w.@-])/i;
+
+/**
+ * Who a payment link pays: a UPI ID and the name shown in the payer's app
+ */
+export interface UpiPayee {
+  upiId: string;
+  name?: string | null;
+}
+
+export interface UpiPaymentRequest {
+  payee: UpiPayee;
+  amount: number; // Rupees; UPI only moves INR
+  note?: string;
+}
+
+/**
+ * UPI helpers
+ *
+ * Reads UPI IDs from messages and builds upi://pay links (the NPCI deep link format) that
+ * open any UPI app with the payee, amount and note filled in. Nothing here talks to a
+ * payment service - the link is just text the payer taps.
+ */
+export class Upi {
+  static readonly CURRENCY = 'INR';
+
+  /**
+   * The first UPI ID in a message, lowercased
+   *
+   * @returns null if there isn't one
+   */
+  static find(message: string): string | null {
+    const match = message.match(UPI_ID);
+    return match ? match[1].toLowerCase() : null;
+  }
+
+  static isValid(upiId: string): boolean {
+    const match = upiId.trim().match(UPI_ID);
+    return match !== null && match[1].length === upiId.trim().length;
+  }
+
+  /**
+   * "upi://pay?pa=name%40okhdfc&pn=Yash&am=600.00&cu=INR&tn=Goa%20trip"
+   */
+  static paymentLink({ payee, amount, note }: UpiPaymentRequest): string {
+    const params: Array<[string, string]> = [
+      ['pa', payee.upiId],
+      ...(payee.name ? [['pn', payee.name] as [string, string]] : []),
+      ['am', (Math.round(amount * 100) / 100).toFixed(2)],
+      ['cu', Upi.CURRENCY],
+      ...(note ? [['tn', note.slice(0, 80)] as [string, string]] : []),
+    ];
+
+    return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+  }
+}